@@ -62,6 +62,8 @@ CREATE TABLE IF NOT EXISTS leads (
     phone VARCHAR(50),
     whatsapp_number VARCHAR(50),
     telegram_username VARCHAR(100),
+    telegram_chat_id VARCHAR(50),
+    timezone VARCHAR(50),
     company VARCHAR(255),
     job_title VARCHAR(100),
     source VARCHAR(50) DEFAULT 'manual',
@@ -133,6 +135,7 @@ CREATE TABLE IF NOT EXISTS messages (
     read_at TIMESTAMPTZ,
     failed_at TIMESTAMPTZ,
     fail_reason TEXT,
+    provider_message_id VARCHAR(255),
     ai_processed BOOLEAN DEFAULT FALSE,
     ai_intent VARCHAR(100),
     ai_sentiment VARCHAR(20),
@@ -153,6 +156,48 @@ CREATE TABLE IF NOT EXISTS messages_y2024m02 PARTITION OF messages
 CREATE TABLE IF NOT EXISTS messages_y2024m03 PARTITION OF messages
     FOR VALUES FROM ('2024-03-01') TO ('2024-04-01');
 
+-- Provider ids of received messages, so webhook retries are stored once.
+-- messages is partitioned by created_at, so it cannot hold this unique key itself.
+CREATE TABLE IF NOT EXISTS inbound_message_keys (
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    channel VARCHAR(20) NOT NULL,
+    provider_message_id VARCHAR(255) NOT NULL,
+    lead_id UUID NOT NULL,
+    conversation_id UUID NOT NULL,
+    message_id UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (tenant_id, channel, provider_message_id)
+);
+
+-- Delivery receipts that arrived before the send recorded its provider id
+CREATE TABLE IF NOT EXISTS pending_receipts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    provider_message_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    fail_reason TEXT,
+    clicked BOOLEAN DEFAULT FALSE,
+    reputation_event VARCHAR(50),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- AI Conversations (AI agent state per conversation)
+CREATE TABLE IF NOT EXISTS ai_conversations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL UNIQUE REFERENCES conversations(id) ON DELETE CASCADE,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    goal TEXT,
+    detected_intents JSONB DEFAULT '[]',
+    turns INTEGER DEFAULT 0,
+    handoff_requested BOOLEAN DEFAULT FALSE,
+    handoff_reason TEXT,
+    last_turn_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Message Templates
 CREATE TABLE IF NOT EXISTS message_templates (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -190,13 +235,44 @@ CREATE TABLE IF NOT EXISTS campaigns (
     schedule JSONB,
     ab_test JSONB,
     stats JSONB DEFAULT '{}',
+    daily_limit INTEGER,
+    min_delay_seconds INTEGER DEFAULT 1,
+    max_delay_seconds INTEGER DEFAULT 5,
+    -- Resolve {a|b} spintax in the template per recipient
+    content_variation BOOLEAN DEFAULT FALSE,
+    next_batch_at TIMESTAMPTZ,
     sent_by UUID NOT NULL REFERENCES users(id),
+    scheduled_at TIMESTAMPTZ,
     started_at TIMESTAMPTZ,
     completed_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Campaign Recipients (one row per lead per campaign)
+CREATE TABLE IF NOT EXISTS campaign_recipients (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    message_id UUID,
+    status VARCHAR(20) DEFAULT 'pending',
+    variant_index INTEGER DEFAULT 0,
+    in_test_cohort BOOLEAN DEFAULT FALSE,
+    personalized_message TEXT,
+    fail_reason TEXT,
+    send_after TIMESTAMPTZ,
+    queued_at TIMESTAMPTZ,
+    sent_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    read_at TIMESTAMPTZ,
+    failed_at TIMESTAMPTZ,
+    replied_at TIMESTAMPTZ,
+    clicked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (campaign_id, lead_id)
+);
+
 -- Workflows
 CREATE TABLE IF NOT EXISTS workflows (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -207,6 +283,10 @@ CREATE TABLE IF NOT EXISTS workflows (
     trigger JSONB NOT NULL,
     nodes JSONB NOT NULL DEFAULT '[]',
     edges JSONB NOT NULL DEFAULT '[]',
+    -- trigger/nodes/edges above are the draft; executions run the published version
+    published_version_id UUID,
+    -- re-entry, concurrency and goal rules; not versioned
+    enrollment JSONB DEFAULT '{}',
     stats JSONB DEFAULT '{}',
     last_run_at TIMESTAMPTZ,
     created_by UUID NOT NULL REFERENCES users(id),
@@ -214,10 +294,25 @@ CREATE TABLE IF NOT EXISTS workflows (
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Workflow Versions (immutable snapshots taken on activation)
+CREATE TABLE IF NOT EXISTS workflow_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    trigger JSONB NOT NULL,
+    nodes JSONB NOT NULL DEFAULT '[]',
+    edges JSONB NOT NULL DEFAULT '[]',
+    published_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(workflow_id, version)
+);
+
 -- Workflow Executions
 CREATE TABLE IF NOT EXISTS workflow_executions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    version_id UUID REFERENCES workflow_versions(id),
     tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
     lead_id UUID REFERENCES leads(id),
     status VARCHAR(20) DEFAULT 'running',
@@ -228,6 +323,19 @@ CREATE TABLE IF NOT EXISTS workflow_executions (
     error TEXT
 );
 
+-- Workflow Wait States (suspended delay / wait_for_reply branches)
+CREATE TABLE IF NOT EXISTS workflow_wait_states (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    execution_id UUID NOT NULL REFERENCES workflow_executions(id) ON DELETE CASCADE,
+    node_id VARCHAR(255) NOT NULL,
+    wait_type VARCHAR(20) NOT NULL CHECK (wait_type IN ('delay', 'condition', 'reply', 'event')),
+    wait_config JSONB NOT NULL,
+    resume_at TIMESTAMPTZ,
+    resumed BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Voice Calls
 CREATE TABLE IF NOT EXISTS voice_calls (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -292,6 +400,19 @@ CREATE TABLE IF NOT EXISTS tasks (
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Notifications (in-app, per user)
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    message TEXT,
+    data JSONB DEFAULT '{}',
+    read BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Team Members
 CREATE TABLE IF NOT EXISTS team_members (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -406,6 +527,59 @@ CREATE TABLE IF NOT EXISTS quota_usage (
     UNIQUE(tenant_id, resource)
 );
 
+-- Reputation Events (negative delivery signals per channel)
+CREATE TABLE IF NOT EXISTS reputation_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    channel VARCHAR(20) NOT NULL,
+    event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('block', 'spam_report', 'bounce', 'complaint')),
+    message_id UUID,
+    lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+    details JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Channel Health (latest reputation score per tenant channel)
+CREATE TABLE IF NOT EXISTS channel_health (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    channel VARCHAR(20) NOT NULL,
+    score INTEGER NOT NULL DEFAULT 100,
+    status VARCHAR(20) NOT NULL DEFAULT 'excellent',
+    factors JSONB DEFAULT '[]',
+    recommendations JSONB DEFAULT '[]',
+    metrics JSONB DEFAULT '{}',
+    -- Warm-up: graduated daily cap for new senders
+    warmup_mode BOOLEAN DEFAULT FALSE,
+    warmup_day INTEGER DEFAULT 0,
+    warmup_daily_limit INTEGER,
+    warmup_curve JSONB,
+    warmup_changed_at TIMESTAMPTZ,
+    -- Auto-pause: sends on the channel are held while paused
+    is_paused BOOLEAN DEFAULT FALSE,
+    paused_reason TEXT,
+    paused_at TIMESTAMPTZ,
+    paused_campaigns JSONB DEFAULT '[]',
+    resume_at TIMESTAMPTZ,
+    resumed_at TIMESTAMPTZ,
+    auto_pause_threshold INTEGER,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, channel)
+);
+
+-- Per-channel sending limits set by a tenant; NULL falls back to the defaults
+CREATE TABLE IF NOT EXISTS channel_configs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    channel VARCHAR(20) NOT NULL,
+    rate_limit_per_minute INTEGER,
+    rate_limit_per_hour INTEGER,
+    rate_limit_per_day INTEGER,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, channel)
+);
+
 -- Analytics Events (Partitioned)
 CREATE TABLE IF NOT EXISTS analytics_events (
     id UUID DEFAULT uuid_generate_v4(),
@@ -453,6 +627,7 @@ CREATE TABLE IF NOT EXISTS tenant_settings (
 -- Leads indexes
 CREATE INDEX IF NOT EXISTS idx_leads_tenant ON leads(tenant_id);
 CREATE INDEX IF NOT EXISTS idx_leads_email ON leads(email);
+CREATE INDEX IF NOT EXISTS idx_leads_telegram_chat ON leads(tenant_id, telegram_chat_id);
 CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
 CREATE INDEX IF NOT EXISTS idx_leads_source ON leads(source);
 CREATE INDEX IF NOT EXISTS idx_leads_assigned ON leads(assigned_to);
@@ -469,14 +644,29 @@ CREATE INDEX IF NOT EXISTS idx_messages_tenant ON messages(tenant_id);
 CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id);
 CREATE INDEX IF NOT EXISTS idx_messages_status ON messages(status);
 CREATE INDEX IF NOT EXISTS idx_messages_created ON messages(created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_provider_id ON messages(provider_message_id);
+CREATE INDEX IF NOT EXISTS idx_pending_receipts_message ON pending_receipts(tenant_id, provider_message_id);
+CREATE INDEX IF NOT EXISTS idx_pending_receipts_created ON pending_receipts(created_at);
 
 -- Campaigns indexes
 CREATE INDEX IF NOT EXISTS idx_campaigns_tenant ON campaigns(tenant_id);
 CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns(status);
+CREATE INDEX IF NOT EXISTS idx_campaigns_scheduled ON campaigns(status, scheduled_at);
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_campaign ON campaign_recipients(campaign_id, status);
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_message ON campaign_recipients(message_id);
 
 -- Workflows indexes
 CREATE INDEX IF NOT EXISTS idx_workflows_tenant ON workflows(tenant_id);
 CREATE INDEX IF NOT EXISTS idx_workflows_status ON workflows(status);
+CREATE INDEX IF NOT EXISTS idx_wait_states_resume ON workflow_wait_states(resume_at) WHERE resumed = FALSE;
+CREATE INDEX IF NOT EXISTS idx_wait_states_execution ON workflow_wait_states(execution_id) WHERE resumed = FALSE;
+
+-- Notifications indexes
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at) WHERE read = FALSE;
+
+-- Reputation indexes
+CREATE INDEX IF NOT EXISTS idx_reputation_events_channel ON reputation_events(tenant_id, channel, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reputation_events_message ON reputation_events(message_id, event_type) WHERE message_id IS NOT NULL;
 
 -- Analytics indexes
 CREATE INDEX IF NOT EXISTS idx_analytics_tenant ON analytics_events(tenant_id);
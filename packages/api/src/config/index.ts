@@ -180,6 +180,7 @@ export const config = {
       exports: 2,
       imports: 1,
       ai: 5,
+      events: 10,
     },
   },
 
@@ -195,6 +196,13 @@ export const config = {
       public: { limit: 100, window: 3600 },
       webhook: { limit: 10000, window: 3600 },
     },
+    // Default outbound caps per channel, before channel_configs overrides
+    messages: {
+      whatsapp: { limit: 1000, window: 86400 },
+      sms: { limit: 500, window: 86400 },
+      email: { limit: 5000, window: 86400 },
+      telegram: { limit: 1000, window: 86400 },
+    },
   },
 
   // AI Configuration
@@ -231,6 +239,15 @@ export const config = {
     warmupMode: true,
     maxMessagesPerHour: 100,
     minIntervalSeconds: 5,
+    warmup: {
+      // Channels that start in warm-up when an integration is added
+      channels: ['whatsapp'],
+      // Daily cap per warm-up day; the channel graduates after the last step
+      curve: [20, 40, 80, 150, 250, 400, 600, 1000],
+      // Reputation needed to advance a day, and below which a channel falls back a step
+      advanceScore: 75,
+      fallbackScore: 50,
+    },
   },
 
   // Logging
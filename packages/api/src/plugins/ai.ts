@@ -294,7 +294,8 @@ Talking Points: ${talkingPoints.join(', ')}`;
 export async function generateConversationResponse(
   conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
   leadInfo: Record<string, any>,
-  goal?: string
+  goal?: string,
+  options: { systemPrompt?: string } = {}
 ): Promise<{
   response: string;
   intent?: string;
@@ -302,14 +303,17 @@ export async function generateConversationResponse(
   handoffReason?: string;
 }> {
   try {
-    const systemPrompt = `You are a helpful AI assistant for a sales and marketing automation platform. Your goal is to engage leads naturally and help them with their inquiries.
+    // A custom prompt replaces the default persona; the JSON contract below always applies
+    const persona = options.systemPrompt || `You are a helpful AI assistant for a sales and marketing automation platform. Your goal is to engage leads naturally and help them with their inquiries.
 
 Guidelines:
 - Be friendly, professional, and concise
 - Ask clarifying questions when needed
 - Don't make up information you don't have
 - If the user asks for human assistance or becomes frustrated, indicate handoff is needed
-- Stay focused on the conversation goal
+- Stay focused on the conversation goal`;
+
+    const systemPrompt = `${persona}
 
 ${goal ? `Current Goal: ${goal}` : ''}
 
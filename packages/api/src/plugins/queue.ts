@@ -28,6 +28,7 @@ export const queues = {
   exports: new Queue('exports', { connection: redisConnection }),
   imports: new Queue('imports', { connection: redisConnection }),
   ai: new Queue('ai', { connection: redisConnection }),
+  events: new Queue('events', { connection: redisConnection }),
 };
 
 // Default job options
@@ -184,6 +185,7 @@ export const queuePlugin = fp(async (fastify) => {
   }
 
   // Decorate fastify with queue helpers
+  fastify.decorate('redis', redisConnection);
   fastify.decorate('queues', queues);
   fastify.decorate('addJob', addJob);
   fastify.decorate('addBulkJobs', addBulkJobs);
@@ -209,6 +211,7 @@ export async function closeQueues(): Promise<void> {
 // Type declarations
 declare module 'fastify' {
   interface FastifyInstance {
+    redis: typeof redisConnection;
     queues: typeof queues;
     addJob: typeof addJob;
     addBulkJobs: typeof addBulkJobs;
@@ -4,10 +4,16 @@
 // ============================================
 
 import { FastifyInstance } from 'fastify';
+import { ABTestService, validateABTest } from '../services/campaign/ab-testing.js';
+
+// Campaigns that have not started sending yet
+const LAUNCHABLE_STATUSES = ['draft', 'scheduled'];
 
 export async function campaignRoutes(fastify: FastifyInstance) {
   fastify.addHook('onRequest', fastify.authenticate);
 
+  const abTests = new ABTestService(fastify);
+
   // List campaigns
   fastify.get('/', async (request, reply) => {
     const { page = 1, limit = 20, status, channel } = request.query as any;
@@ -79,7 +85,18 @@ export async function campaignRoutes(fastify: FastifyInstance) {
   // Create campaign
   fastify.post('/', async (request, reply) => {
     const tenantId = request.user.tenantId;
-    const { name, description, type, channel, templateId, audience, schedule, abTest } = request.body as any;
+    const {
+      name, description, type, channel, templateId, audience, schedule, abTest,
+      dailyLimit, minDelaySeconds, maxDelaySeconds, contentVariation,
+    } = request.body as any;
+
+    const abTestError = validateABTest(abTest);
+    if (abTestError) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: abTestError },
+      });
+    }
 
     const campaign = await fastify.db.insert('campaigns', {
       tenant_id: tenantId,
@@ -90,7 +107,12 @@ export async function campaignRoutes(fastify: FastifyInstance) {
       template_id: templateId,
       audience: JSON.stringify(audience),
       schedule: schedule ? JSON.stringify(schedule) : null,
+      scheduled_at: schedule?.type === 'once' ? schedule.startAt : null,
       ab_test: abTest ? JSON.stringify(abTest) : null,
+      daily_limit: dailyLimit,
+      min_delay_seconds: minDelaySeconds ?? 1,
+      max_delay_seconds: maxDelaySeconds ?? 5,
+      content_variation: Boolean(contentVariation),
       status: 'draft',
       stats: JSON.stringify({
         total: audience?.estimatedCount || 0,
@@ -110,7 +132,7 @@ export async function campaignRoutes(fastify: FastifyInstance) {
   // Launch campaign
   fastify.post('/:id/launch', async (request, reply) => {
     const { id } = request.params as any;
-    const { immediate = false } = request.body as any;
+    const { immediate = false, scheduledAt } = request.body as any;
     const tenantId = request.user.tenantId;
 
     const campaign = await fastify.db.queryOne(
@@ -125,6 +147,54 @@ export async function campaignRoutes(fastify: FastifyInstance) {
       });
     }
 
+    // Running, paused or finished campaigns already went out once
+    if (!LAUNCHABLE_STATUSES.includes(campaign.status)) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: `Cannot launch a ${campaign.status} campaign` },
+      });
+    }
+
+    if (scheduledAt && Number.isNaN(new Date(scheduledAt).getTime())) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: 'scheduledAt must be a valid date' },
+      });
+    }
+
+    // Future start times hand the campaign to the scheduler
+    const startAt = scheduledAt || campaign.scheduled_at;
+    if (!immediate && startAt && new Date(startAt) > new Date()) {
+      await fastify.db.query(
+        "UPDATE campaigns SET status = 'scheduled', scheduled_at = $1 WHERE id = $2 AND status = ANY($3)",
+        [startAt, id, LAUNCHABLE_STATUSES]
+      );
+
+      return reply.send({
+        success: true,
+        data: {
+          message: 'Campaign scheduled',
+          campaignId: id,
+          status: 'scheduled',
+          scheduledAt: new Date(startAt).toISOString(),
+        },
+      });
+    }
+
+    // Update campaign status first: the worker skips campaigns that are not running
+    const launched = await fastify.db.query(
+      "UPDATE campaigns SET status = 'running', started_at = NOW() WHERE id = $1 AND status = ANY($2)",
+      [id, LAUNCHABLE_STATUSES]
+    );
+
+    // A concurrent launch got there first
+    if (launched.rowCount === 0) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: 'Campaign was already launched' },
+      });
+    }
+
     // Queue campaign for processing
     await fastify.addJob('messages', 'process-campaign', {
       campaignId: id,
@@ -132,12 +202,6 @@ export async function campaignRoutes(fastify: FastifyInstance) {
       immediate,
     });
 
-    // Update campaign status
-    await fastify.db.query(
-      "UPDATE campaigns SET status = 'running', started_at = NOW() WHERE id = $1",
-      [id]
-    );
-
     return reply.send({
       success: true,
       data: {
@@ -154,7 +218,7 @@ export async function campaignRoutes(fastify: FastifyInstance) {
     const tenantId = request.user.tenantId;
 
     await fastify.db.query(
-      "UPDATE campaigns SET status = 'paused' WHERE id = $1 AND tenant_id = $2",
+      "UPDATE campaigns SET status = 'paused' WHERE id = $1 AND tenant_id = $2 AND status = 'running'",
       [id, tenantId]
     );
 
@@ -166,11 +230,21 @@ export async function campaignRoutes(fastify: FastifyInstance) {
     const { id } = request.params as any;
     const tenantId = request.user.tenantId;
 
-    await fastify.db.query(
-      "UPDATE campaigns SET status = 'running' WHERE id = $1 AND tenant_id = $2",
+    const campaign = await fastify.db.queryOne(
+      "UPDATE campaigns SET status = 'running' WHERE id = $1 AND tenant_id = $2 AND status = 'paused' RETURNING id",
       [id, tenantId]
     );
 
+    if (!campaign) {
+      return reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Paused campaign not found' },
+      });
+    }
+
+    // Pick up recipients returned to pending while paused
+    await fastify.addJob('messages', 'process-campaign', { campaignId: id, tenantId });
+
     return reply.send({ success: true, data: { message: 'Campaign resumed' } });
   });
 
@@ -180,7 +254,14 @@ export async function campaignRoutes(fastify: FastifyInstance) {
     const tenantId = request.user.tenantId;
 
     await fastify.db.query(
-      "UPDATE campaigns SET status = 'cancelled' WHERE id = $1 AND tenant_id = $2",
+      "UPDATE campaigns SET status = 'cancelled', next_batch_at = NULL WHERE id = $1 AND tenant_id = $2",
+      [id, tenantId]
+    );
+
+    // Queued sends cancel themselves when their job runs; A/B holdouts never get a winner now
+    await fastify.db.query(
+      `UPDATE campaign_recipients SET status = 'cancelled'
+       WHERE campaign_id = $1 AND tenant_id = $2 AND status IN ('pending', 'held')`,
       [id, tenantId]
     );
 
@@ -193,7 +274,7 @@ export async function campaignRoutes(fastify: FastifyInstance) {
     const tenantId = request.user.tenantId;
 
     const campaign = await fastify.db.queryOne(
-      'SELECT stats FROM campaigns WHERE id = $1 AND tenant_id = $2',
+      'SELECT id, stats, ab_test FROM campaigns WHERE id = $1 AND tenant_id = $2',
       [id, tenantId]
     );
 
@@ -204,7 +285,9 @@ export async function campaignRoutes(fastify: FastifyInstance) {
       });
     }
 
-    return reply.send({ success: true, data: campaign.stats });
+    const abTest = await abTests.getResults(campaign);
+
+    return reply.send({ success: true, data: abTest ? { ...campaign.stats, abTest } : campaign.stats });
   });
 
   // Delete campaign
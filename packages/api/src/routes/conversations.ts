@@ -131,6 +131,12 @@ export async function conversationRoutes(fastify: FastifyInstance) {
       unread_count: 0,
     });
 
+    await fastify.eventBus.publish('conversation_started', {
+      tenantId,
+      leadId,
+      data: { conversationId: conversation.id, channel },
+    });
+
     return reply.status(201).send({ success: true, data: conversation });
   });
 
@@ -139,11 +145,21 @@ export async function conversationRoutes(fastify: FastifyInstance) {
     const { id } = request.params as any;
     const tenantId = request.user.tenantId;
 
-    await fastify.db.query(
-      "UPDATE conversations SET status = 'closed', closed_at = NOW() WHERE id = $1 AND tenant_id = $2",
+    const conversation = await fastify.db.queryOne(
+      `UPDATE conversations SET status = 'closed', closed_at = NOW()
+       WHERE id = $1 AND tenant_id = $2 AND status <> 'closed'
+       RETURNING lead_id, channel`,
       [id, tenantId]
     );
 
+    if (conversation) {
+      await fastify.eventBus.publish('conversation_closed', {
+        tenantId,
+        leadId: conversation.lead_id,
+        data: { conversationId: id, channel: conversation.channel },
+      });
+    }
+
     return reply.send({ success: true, data: { message: 'Conversation closed' } });
   });
 
@@ -0,0 +1,374 @@
+// ============================================
+// Inbound Routes
+// Provider webhooks for incoming messages and delivery receipts
+// (no JWT, verified per provider)
+// ============================================
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import multipart from '@fastify/multipart';
+import { config } from '../config/index.js';
+import { IntegrationChannel, UserIntegration, createIntegrationsService } from '../services/integrations.service.js';
+import { InboundMessageService } from '../services/channels/inbound.js';
+import {
+  parseMailgunEvent,
+  parseMailgunInbound,
+  parseSendGridEvents,
+  parseSendGridInbound,
+} from '../services/channels/email.js';
+import { parseTwilioInbound, parseTwilioStatus } from '../services/channels/sms.js';
+import { MessageStatusService } from '../services/channels/status.js';
+import {
+  createTelegramProvider,
+  parseTelegramUpdate,
+  telegramWebhookSecret,
+} from '../services/channels/telegram.js';
+import {
+  WhatsAppWebhookEvents,
+  parseCloudApiWebhook,
+  parseEvolutionWebhook,
+} from '../services/channels/whatsapp.js';
+import {
+  inboundWebhookToken,
+  verifyInboundToken,
+  verifyMailgunSignature,
+  verifyMetaSignature,
+  verifyTwilioSignature,
+} from '../services/channels/signatures.js';
+import { safeCompare } from '../utils/encryption.js';
+import { webhookLogger } from '../utils/logger.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string;
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function inboundRoutes(fastify: FastifyInstance) {
+  const integrationsService = createIntegrationsService(fastify);
+  const inbound = new InboundMessageService(fastify);
+  const statuses = new MessageStatusService(fastify);
+
+  // Signatures are computed over the exact bytes, so keep the raw body around
+  fastify.removeContentTypeParser(['application/json', 'application/x-www-form-urlencoded']);
+
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    request.rawBody = body as string;
+    try {
+      done(null, body ? JSON.parse(body as string) : {});
+    } catch (error) {
+      (error as any).statusCode = 400;
+      done(error as Error, undefined);
+    }
+  });
+
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) => {
+    request.rawBody = body as string;
+    done(null, Object.fromEntries(new URLSearchParams(body as string)));
+  });
+
+  // SendGrid Inbound Parse and Mailgun (with attachments) post multipart forms
+  await fastify.register(multipart, {
+    attachFieldsToBody: 'keyValues',
+    limits: { fileSize: 10 * 1024 * 1024 },
+  });
+
+  const unauthorized = (reply: FastifyReply, message: string) =>
+    reply.status(401).send({ success: false, error: { code: 'UNAUTHORIZED', message } });
+
+  async function loadIntegration(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    channel: IntegrationChannel,
+    provider: UserIntegration['provider']
+  ): Promise<UserIntegration | null> {
+    const { integrationId } = request.params as { integrationId: string };
+
+    const integration = UUID_PATTERN.test(integrationId)
+      ? await integrationsService.getForWebhook(integrationId, channel)
+      : null;
+
+    if (!integration || integration.provider !== provider) {
+      reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Integration not found' },
+      });
+      return null;
+    }
+
+    return integration;
+  }
+
+  async function ingestWhatsApp(
+    integration: UserIntegration,
+    events: WhatsAppWebhookEvents
+  ): Promise<{ received: number; statuses: number }> {
+    for (const message of events.messages) {
+      const number = `+${message.from.replace(/\D/g, '')}`;
+      const [firstName, ...rest] = (message.name || '').split(' ');
+
+      await inbound.receive({
+        tenantId: integration.tenantId,
+        channel: 'whatsapp',
+        contact: {
+          identities: { whatsapp_number: number, phone: number },
+          firstName: firstName || undefined,
+          lastName: rest.join(' ') || undefined,
+        },
+        content: message.text,
+        contentType: message.contentType,
+        providerMessageId: message.providerMessageId,
+        channelId: number,
+        metadata: {
+          integrationId: integration.id,
+          ...(message.mediaId && { whatsappMediaId: message.mediaId }),
+        },
+      });
+    }
+
+    const applied = await statuses.applyAll(integration.tenantId, events.statuses);
+
+    return { received: events.messages.length, statuses: applied };
+  }
+
+  // ============================================
+  // WhatsApp Cloud API
+  // ============================================
+
+  // Meta subscription handshake
+  fastify.get('/whatsapp/cloud/:integrationId', async (request, reply) => {
+    const integration = await loadIntegration(request, reply, 'whatsapp', 'cloud_api');
+    if (!integration) return reply;
+
+    const query = request.query as Record<string, string>;
+    const verifyToken = integration.credentials.verifyToken || inboundWebhookToken(integration.id);
+
+    if (query['hub.mode'] !== 'subscribe' || !safeCompare(query['hub.verify_token'] || '', verifyToken)) {
+      return reply.status(403).send({ success: false, error: { code: 'FORBIDDEN', message: 'Verification failed' } });
+    }
+
+    return reply.type('text/plain').send(query['hub.challenge']);
+  });
+
+  fastify.post('/whatsapp/cloud/:integrationId', async (request, reply) => {
+    const integration = await loadIntegration(request, reply, 'whatsapp', 'cloud_api');
+    if (!integration) return reply;
+
+    if (!verifyMetaSignature(request.rawBody || '', request.headers['x-hub-signature-256'], integration.credentials.appSecret)) {
+      webhookLogger.warn({ integrationId: integration.id }, 'Rejected WhatsApp Cloud webhook with invalid signature');
+      return unauthorized(reply, 'Invalid signature');
+    }
+
+    const events = parseCloudApiWebhook(request.body, integration.credentials.phoneNumberId);
+    const result = await ingestWhatsApp(integration, events);
+
+    return reply.send({ success: true, data: result });
+  });
+
+  // ============================================
+  // Evolution API
+  // ============================================
+
+  fastify.post('/whatsapp/evolution/:integrationId', async (request, reply) => {
+    const integration = await loadIntegration(request, reply, 'whatsapp', 'evolution_api');
+    if (!integration) return reply;
+
+    // Evolution cannot sign webhooks, so the URL carries our token
+    if (!verifyInboundToken(integration.id, (request.query as any).token)) {
+      webhookLogger.warn({ integrationId: integration.id }, 'Rejected Evolution webhook with invalid token');
+      return unauthorized(reply, 'Invalid token');
+    }
+
+    const body = request.body as any;
+    if (body?.instance && body.instance !== integration.credentials.instanceName) {
+      return reply.send({ success: true, data: { ignored: true } });
+    }
+
+    const result = await ingestWhatsApp(integration, parseEvolutionWebhook(body));
+
+    return reply.send({ success: true, data: result });
+  });
+
+  // ============================================
+  // Twilio SMS
+  // ============================================
+
+  fastify.post('/sms/twilio/:integrationId', async (request, reply) => {
+    const integration = await loadIntegration(request, reply, 'sms', 'twilio');
+    if (!integration) return reply;
+
+    const params = request.body as Record<string, string>;
+    const url = `${config.apiUrl}${request.url}`;
+
+    if (!verifyTwilioSignature(url, params, request.headers['x-twilio-signature'], integration.credentials.authToken)) {
+      webhookLogger.warn({ integrationId: integration.id }, 'Rejected Twilio webhook with invalid signature');
+      return unauthorized(reply, 'Invalid signature');
+    }
+
+    // Incoming messages and StatusCallback receipts share this URL
+    const receipt = params.Body === undefined ? parseTwilioStatus(params) : null;
+    if (receipt) {
+      await statuses.apply({ tenantId: integration.tenantId, ...receipt });
+    }
+
+    const message = parseTwilioInbound(params);
+    if (message) {
+      await inbound.receive({
+        tenantId: integration.tenantId,
+        channel: 'sms',
+        contact: { identities: { phone: message.from } },
+        content: message.text,
+        contentType: message.mediaUrls.length > 0 ? 'image' : 'text',
+        mediaUrl: message.mediaUrls[0],
+        providerMessageId: message.providerMessageId,
+        channelId: message.from,
+        metadata: {
+          integrationId: integration.id,
+          to: message.to,
+          ...(message.mediaUrls.length > 1 && { mediaUrls: message.mediaUrls }),
+        },
+      });
+    }
+
+    // Empty TwiML so Twilio does not auto-reply
+    return reply.type('text/xml').send('<Response></Response>');
+  });
+
+  // ============================================
+  // Email inbound parse
+  // ============================================
+
+  fastify.post('/email/mailgun/:integrationId', async (request, reply) => {
+    const integration = await loadIntegration(request, reply, 'email', 'mailgun');
+    if (!integration) return reply;
+
+    const fields = request.body as Record<string, any>;
+    const signingKey = integration.credentials.webhookSigningKey || integration.credentials.apiKey;
+
+    // Event webhooks post JSON with a signature object, routes post flat form fields
+    const isEvent = typeof fields?.signature === 'object' && fields['event-data'];
+
+    if (!verifyMailgunSignature(isEvent ? fields.signature : fields, signingKey)) {
+      webhookLogger.warn({ integrationId: integration.id }, 'Rejected Mailgun webhook with invalid signature');
+      return unauthorized(reply, 'Invalid signature');
+    }
+
+    if (isEvent) {
+      const receipt = parseMailgunEvent(fields['event-data']);
+      const applied = receipt ? await statuses.apply({ tenantId: integration.tenantId, ...receipt }) : false;
+      return reply.send({ success: true, data: { statuses: applied ? 1 : 0 } });
+    }
+
+    const email = parseMailgunInbound(fields);
+    if (email) {
+      await ingestEmail(integration, email);
+    }
+
+    return reply.send({ success: true, data: { received: email ? 1 : 0 } });
+  });
+
+  fastify.post('/email/sendgrid/:integrationId', async (request, reply) => {
+    const integration = await loadIntegration(request, reply, 'email', 'sendgrid');
+    if (!integration) return reply;
+
+    // Inbound Parse has no signing, so the URL carries our token
+    if (!verifyInboundToken(integration.id, (request.query as any).token)) {
+      webhookLogger.warn({ integrationId: integration.id }, 'Rejected SendGrid inbound parse with invalid token');
+      return unauthorized(reply, 'Invalid token');
+    }
+
+    // The event webhook posts a JSON array, Inbound Parse posts a form
+    if (Array.isArray(request.body)) {
+      const applied = await statuses.applyAll(integration.tenantId, parseSendGridEvents(request.body));
+      return reply.send({ success: true, data: { statuses: applied } });
+    }
+
+    const email = parseSendGridInbound(request.body as Record<string, any>);
+    if (email) {
+      await ingestEmail(integration, email);
+    }
+
+    return reply.send({ success: true, data: { received: email ? 1 : 0 } });
+  });
+
+  async function ingestEmail(
+    integration: UserIntegration,
+    email: NonNullable<ReturnType<typeof parseMailgunInbound>>
+  ): Promise<void> {
+    const [firstName, ...rest] = (email.fromName || '').split(' ');
+
+    await inbound.receive({
+      tenantId: integration.tenantId,
+      channel: 'email',
+      contact: {
+        identities: { email: email.from },
+        firstName: firstName || undefined,
+        lastName: rest.join(' ') || undefined,
+      },
+      content: email.text,
+      providerMessageId: email.providerMessageId,
+      channelId: email.from,
+      metadata: {
+        integrationId: integration.id,
+        subject: email.subject,
+        to: email.to,
+        attachmentCount: email.attachmentCount,
+      },
+    });
+  }
+
+  // ============================================
+  // Telegram Bot
+  // ============================================
+
+  fastify.post('/telegram/:integrationId', async (request, reply) => {
+    const integration = await loadIntegration(request, reply, 'telegram', 'telegram_bot');
+    if (!integration) return reply;
+
+    const secret = request.headers['x-telegram-bot-api-secret-token'];
+    if (typeof secret !== 'string' || !safeCompare(secret, telegramWebhookSecret(integration.credentials.botToken))) {
+      webhookLogger.warn({ integrationId: integration.id }, 'Rejected Telegram update with invalid secret token');
+      return unauthorized(reply, 'Invalid webhook secret');
+    }
+
+    const update = request.body as any;
+    const parsed = parseTelegramUpdate(update);
+
+    // Acknowledge updates we ignore so Telegram does not retry them
+    if (!parsed) {
+      return reply.send({ success: true, data: { ignored: true } });
+    }
+
+    const result = await inbound.receive({
+      tenantId: integration.tenantId,
+      channel: 'telegram',
+      contact: {
+        identities: {
+          telegram_chat_id: parsed.chatId,
+          telegram_username: parsed.username,
+        },
+        firstName: parsed.firstName,
+        lastName: parsed.lastName,
+      },
+      content: parsed.text,
+      contentType: parsed.contentType,
+      providerMessageId: `${parsed.chatId}:${parsed.messageId}`,
+      channelId: parsed.chatId,
+      metadata: {
+        integrationId: integration.id,
+        updateId: parsed.updateId,
+        ...(parsed.fileId && { telegramFileId: parsed.fileId }),
+      },
+    });
+
+    // Stop the loading spinner on the pressed inline button
+    if (update.callback_query) {
+      createTelegramProvider(integration)
+        .answerCallbackQuery(update.callback_query.id)
+        .catch((error) => webhookLogger.warn({ error, integrationId: integration.id }, 'Failed to answer Telegram callback query'));
+    }
+
+    return reply.send({ success: true, data: { messageId: result.messageId, duplicate: result.duplicate } });
+  });
+}
@@ -81,7 +81,7 @@ export async function leadRoutes(fastify: FastifyInstance) {
   // Create lead
   fastify.post('/', async (request, reply) => {
     const tenantId = request.user.tenantId;
-    const { firstName, lastName, email, phone, company, source = 'manual', tags, customFields } = request.body as any;
+    const { firstName, lastName, email, phone, company, timezone, source = 'manual', tags, customFields } = request.body as any;
 
     const lead = await fastify.db.insert('leads', {
       tenant_id: tenantId,
@@ -90,6 +90,7 @@ export async function leadRoutes(fastify: FastifyInstance) {
       email,
       phone,
       company,
+      timezone,
       source,
       tags: tags || [],
       custom_fields: customFields || {},
@@ -106,6 +107,8 @@ export async function leadRoutes(fastify: FastifyInstance) {
       });
     }
 
+    await fastify.eventBus.publish('lead_created', { tenantId, leadId: lead.id, data: { source } });
+
     return reply.status(201).send({ success: true, data: lead });
   });
 
@@ -115,6 +118,11 @@ export async function leadRoutes(fastify: FastifyInstance) {
     const tenantId = request.user.tenantId;
     const updates = request.body as any;
 
+    // Previous tags let tag workflows see what was added or removed
+    const previous = updates.tags
+      ? await fastify.db.queryOne('SELECT tags FROM leads WHERE id = $1 AND tenant_id = $2', [id, tenantId])
+      : null;
+
     const lead = await fastify.db.update('leads', id, updates);
 
     if (!lead) {
@@ -124,6 +132,8 @@ export async function leadRoutes(fastify: FastifyInstance) {
       });
     }
 
+    await fastify.eventBus.publishLeadChanges(tenantId, lead, Object.keys(updates), previous?.tags);
+
     return reply.send({ success: true, data: lead });
   });
 
@@ -145,12 +155,22 @@ export async function leadRoutes(fastify: FastifyInstance) {
     const { leadIds, updates } = request.body as any;
     const tenantId = request.user.tenantId;
 
+    // Previous tags come back with each row so tag workflows see what changed
     const result = await fastify.db.query(
-      `UPDATE leads SET ${Object.keys(updates).map((k, i) => `${k} = $${i + 3}`).join(', ')}, updated_at = NOW()
-       WHERE id = ANY($1) AND tenant_id = $2`,
+      `WITH previous AS (
+         SELECT id, tags FROM leads WHERE id = ANY($1) AND tenant_id = $2 FOR UPDATE
+       )
+       UPDATE leads l SET ${Object.keys(updates).map((k, i) => `${k} = $${i + 3}`).join(', ')}, updated_at = NOW()
+       FROM previous
+       WHERE l.id = previous.id
+       RETURNING l.id, l.tags, previous.tags AS previous_tags`,
       [leadIds, tenantId, ...Object.values(updates)]
     );
 
+    for (const lead of result.rows) {
+      await fastify.eventBus.publishLeadChanges(tenantId, lead, Object.keys(updates), lead.previous_tags || []);
+    }
+
     return reply.send({
       success: true,
       data: { updated: result.rowCount },
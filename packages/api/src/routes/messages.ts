@@ -4,6 +4,40 @@
 // ============================================
 
 import { FastifyInstance } from 'fastify';
+import { jitteredDelays, seededRandom, spinContent } from '../utils/humanize.js';
+import { leadTemplateVariables, renderTemplate } from '../utils/template.js';
+import { renderEmailTemplate } from '../services/channels/email.js';
+
+// The lead's active conversation on the channel, started if there is none
+async function findOrCreateConversation(
+  fastify: FastifyInstance,
+  tenantId: string,
+  leadId: string,
+  channel: string
+): Promise<string> {
+  const conversation = await fastify.db.queryOne(
+    'SELECT id FROM conversations WHERE lead_id = $1 AND channel = $2 AND tenant_id = $3 AND status = $4',
+    [leadId, channel, tenantId, 'active']
+  );
+  if (conversation) return conversation.id;
+
+  const created = await fastify.db.insert('conversations', {
+    tenant_id: tenantId,
+    lead_id: leadId,
+    channel,
+    status: 'active',
+    ai_enabled: true,
+    unread_count: 0,
+  });
+
+  await fastify.eventBus.publish('conversation_started', {
+    tenantId,
+    leadId,
+    data: { conversationId: created.id, channel },
+  });
+
+  return created.id;
+}
 
 export async function messageRoutes(fastify: FastifyInstance) {
   fastify.addHook('onRequest', fastify.authenticate);
@@ -16,24 +50,7 @@ export async function messageRoutes(fastify: FastifyInstance) {
     // If no conversation ID, create or get one
     let convId = conversationId;
     if (!convId && leadId) {
-      const conversation = await fastify.db.queryOne(
-        'SELECT id FROM conversations WHERE lead_id = $1 AND channel = $2 AND tenant_id = $3 AND status = $4',
-        [leadId, channel, tenantId, 'active']
-      );
-
-      if (conversation) {
-        convId = conversation.id;
-      } else {
-        const newConv = await fastify.db.insert('conversations', {
-          tenant_id: tenantId,
-          lead_id: leadId,
-          channel,
-          status: 'active',
-          ai_enabled: true,
-          unread_count: 0,
-        });
-        convId = newConv.id;
-      }
+      convId = await findOrCreateConversation(fastify, tenantId, leadId, channel);
     }
 
     // Create message record
@@ -77,25 +94,95 @@ export async function messageRoutes(fastify: FastifyInstance) {
     return reply.status(201).send({ success: true, data: message });
   });
 
-  // Send bulk messages
+  // Send bulk messages, spaced by random gaps and optionally varied per recipient
   fastify.post('/bulk-send', async (request, reply) => {
     const tenantId = request.user.tenantId;
-    const { leadIds, channel, content, templateId, templateVariables, throttleRate = 10 } = request.body as any;
+    const {
+      leadIds, channel, content, variants, spintax = false, templateId, templateVariables,
+      throttleRate = 10, minDelaySeconds, maxDelaySeconds, seed,
+    } = request.body as any;
 
-    const jobs = leadIds.map((leadId: string, index: number) => ({
-      name: 'send-message',
-      data: {
-        tenantId,
-        leadId,
+    if (!Array.isArray(leadIds) || leadIds.length === 0) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: 'leadIds must be a non-empty array' },
+      });
+    }
+
+    const leads = await fastify.db.queryMany(
+      'SELECT * FROM leads WHERE id = ANY($1) AND tenant_id = $2',
+      [leadIds, tenantId]
+    );
+    const found = new Map(leads.map((lead) => [lead.id, lead]));
+    const recipients = leadIds.filter((leadId: string) => found.has(leadId));
+
+    // Without content of its own the send uses the template's text, rendered
+    // per lead here so every message stores exactly what its lead receives
+    const hasVariants = Array.isArray(variants) && variants.length > 0;
+    let template = null;
+    if (templateId && !content && !hasVariants) {
+      template = await fastify.db.queryOne(
+        'SELECT content FROM message_templates WHERE id = $1 AND (tenant_id = $2 OR is_public = true)',
+        [templateId, tenantId]
+      );
+      if (!template) {
+        return reply.status(404).send({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Template not found' },
+        });
+      }
+    }
+
+    // Gaps average the throttle rate unless bounds are given; a seed makes the run repeatable
+    const interval = 60000 / throttleRate;
+    const random = seededRandom(seed);
+    const delays = jitteredDelays(
+      recipients.length,
+      minDelaySeconds !== undefined ? minDelaySeconds * 1000 : interval * 0.5,
+      maxDelaySeconds !== undefined ? maxDelaySeconds * 1000 : interval * 1.5,
+      random
+    );
+
+    const jobs = [];
+    for (const [index, leadId] of recipients.entries()) {
+      // Rotate variants so consecutive recipients get different wording
+      const base = hasVariants ? variants[index % variants.length] : template?.content ?? content;
+      const variables = { ...leadTemplateVariables(found.get(leadId)), ...templateVariables };
+      const spun = spintax ? spinContent(base, random) : base;
+      // Lead data is escaped inside HTML emails
+      const text = channel === 'email' ? renderEmailTemplate(spun, variables) : renderTemplate(spun, variables);
+
+      const conversationId = await findOrCreateConversation(fastify, tenantId, leadId, channel);
+      const message = await fastify.db.insert('messages', {
+        tenant_id: tenantId,
+        conversation_id: conversationId,
         channel,
-        content,
-        templateId,
-        templateVariables,
-      },
-      opts: {
-        delay: index * (60000 / throttleRate), // Spread based on throttle rate
-      },
-    }));
+        direction: 'outbound',
+        content: text,
+        content_type: 'text',
+        status: 'pending',
+        template_id: templateId,
+        created_by: request.user.id,
+      });
+
+      await fastify.db.query(
+        'UPDATE conversations SET last_message_at = NOW(), last_message_preview = $1 WHERE id = $2',
+        [(text || '').substring(0, 100), conversationId]
+      );
+
+      jobs.push({
+        name: 'send-message',
+        data: {
+          messageId: message.id,
+          tenantId,
+          channel,
+          content: text,
+          templateId,
+          templateVariables,
+        },
+        opts: { delay: delays[index] },
+      });
+    }
 
     await fastify.addBulkJobs('messages', jobs);
 
@@ -103,7 +190,8 @@ export async function messageRoutes(fastify: FastifyInstance) {
       success: true,
       data: {
         jobCount: jobs.length,
-        estimatedTime: Math.ceil(jobs.length / throttleRate),
+        skipped: leadIds.length - recipients.length,
+        estimatedTime: Math.ceil((delays[delays.length - 1] || 0) / 60000),
         message: 'Messages queued for sending',
       },
     });
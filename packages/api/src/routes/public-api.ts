@@ -40,6 +40,8 @@ export async function publicApiRoutes(fastify: FastifyInstance) {
       payload: { leadId: lead.id, email, source },
     });
 
+    await fastify.eventBus.publish('lead_created', { tenantId, leadId: lead.id, data: { source } });
+
     return reply.status(201).send({
       success: true,
       data: {
@@ -94,6 +96,10 @@ export async function publicApiRoutes(fastify: FastifyInstance) {
     const tenantId = request.tenant.id;
     const updates = request.body as any;
 
+    const previous = updates.tags
+      ? await fastify.db.queryOne('SELECT tags FROM leads WHERE id = $1 AND tenant_id = $2', [id, tenantId])
+      : null;
+
     const lead = await fastify.db.update('leads', id, updates);
 
     if (!lead) {
@@ -110,6 +116,8 @@ export async function publicApiRoutes(fastify: FastifyInstance) {
       payload: { leadId: id, updates },
     });
 
+    await fastify.eventBus.publishLeadChanges(tenantId, lead, Object.keys(updates), previous?.tags);
+
     return reply.send({ success: true, data: lead });
   });
 
@@ -134,6 +142,12 @@ export async function publicApiRoutes(fastify: FastifyInstance) {
         unread_count: 0,
       });
       conversation = { id: newConv.id };
+
+      await fastify.eventBus.publish('conversation_started', {
+        tenantId,
+        leadId,
+        data: { conversationId: newConv.id, channel },
+      });
     }
 
     // Create message
@@ -187,6 +201,97 @@ export async function publicApiRoutes(fastify: FastifyInstance) {
     return reply.send({ success: true, data: message });
   });
 
+  // Submit a lead capture form
+  fastify.post('/forms/:id/submissions', async (request, reply) => {
+    const { id } = request.params as any;
+    const tenantId = request.tenant.id;
+    const { firstName, lastName, email, phone, company, ...answers } = request.body as any;
+
+    const form = await fastify.db.queryOne(
+      'SELECT * FROM lead_capture_forms WHERE id = $1 AND tenant_id = $2',
+      [id, tenantId]
+    );
+
+    if (!form) {
+      return reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Form not found' },
+      });
+    }
+
+    const values: Record<string, any> = { firstName, lastName, email, phone, company, ...answers };
+    const missing = (form.fields || [])
+      .filter((field: any) => field.required && (values[field.name] === undefined || values[field.name] === ''))
+      .map((field: any) => field.name);
+
+    if (missing.length > 0) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: `Missing required fields: ${missing.join(', ')}` },
+      });
+    }
+
+    // Repeat submissions update the lead with the same email
+    let lead = email
+      ? await fastify.db.queryOne(
+          'SELECT id FROM leads WHERE tenant_id = $1 AND LOWER(email) = LOWER($2) AND deleted_at IS NULL LIMIT 1',
+          [tenantId, email]
+        )
+      : null;
+    const created = !lead;
+
+    if (lead) {
+      await fastify.db.query(
+        `UPDATE leads SET tags = ARRAY(SELECT DISTINCT unnest(tags || $2::text[])),
+                          custom_fields = custom_fields || $3::jsonb, updated_at = NOW()
+         WHERE id = $1`,
+        [lead.id, form.auto_tag || [], JSON.stringify(answers)]
+      );
+    } else {
+      lead = await fastify.db.insert('leads', {
+        tenant_id: tenantId,
+        first_name: firstName,
+        last_name: lastName,
+        email,
+        phone,
+        company,
+        source: 'form',
+        tags: form.auto_tag || [],
+        custom_fields: answers,
+        assigned_to: form.auto_assign,
+        status: 'new',
+        score_total: 0,
+      });
+    }
+
+    await fastify.db.query(
+      'UPDATE lead_capture_forms SET submissions = submissions + 1 WHERE id = $1',
+      [id]
+    );
+
+    if (form.ai_qualification_enabled && fastify.ai && email) {
+      await fastify.addJob('ai', 'qualify-lead', {
+        leadId: lead.id,
+        tenantId,
+        leadData: { firstName, lastName, email, phone, company, source: 'form' },
+      });
+    }
+
+    if (created) {
+      await fastify.eventBus.publish('lead_created', { tenantId, leadId: lead.id, data: { source: 'form' } });
+    }
+    await fastify.eventBus.publish('form_submitted', {
+      tenantId,
+      leadId: lead.id,
+      data: { formId: id, formName: form.name, values },
+    });
+
+    return reply.status(201).send({
+      success: true,
+      data: { leadId: lead.id, redirectUrl: form.redirect_url },
+    });
+  });
+
   // Trigger workflow
   fastify.post('/workflows/:id/trigger', async (request, reply) => {
     const { id } = request.params as any;
@@ -4,7 +4,11 @@
 // ============================================
 
 import { FastifyInstance } from 'fastify';
+import { config } from '../config/index.js';
 import { createIntegrationsService } from '../services/integrations.service';
+import { inboundWebhookToken } from '../services/channels/signatures.js';
+import { createTelegramProvider } from '../services/channels/telegram.js';
+import { validateWarmupCurve } from '../services/anti-ban/warmup.js';
 
 export async function settingsRoutes(fastify: FastifyInstance) {
   fastify.addHook('onRequest', fastify.authenticate);
@@ -80,8 +84,9 @@ export async function settingsRoutes(fastify: FastifyInstance) {
       });
     }
 
+    let integration;
     try {
-      const integration = await integrationsService.create(tenantId, userId, {
+      integration = await integrationsService.create(tenantId, userId, {
         channel,
         provider,
         name,
@@ -89,8 +94,6 @@ export async function settingsRoutes(fastify: FastifyInstance) {
         credentials,
         config
       });
-
-      return reply.status(201).send({ success: true, data: integration });
     } catch (error) {
       fastify.log.error(error);
       return reply.status(500).send({
@@ -98,6 +101,16 @@ export async function settingsRoutes(fastify: FastifyInstance) {
         error: 'Failed to create integration'
       });
     }
+
+    // New numbers and senders ramp up instead of sending at full volume on day one.
+    // The integration exists either way, so a warm-up error does not fail the request.
+    try {
+      await fastify.antiBanService.warmupNewSender(tenantId, channel);
+    } catch (error) {
+      fastify.log.error(error, 'Failed to start warm-up for new integration');
+    }
+
+    return reply.status(201).send({ success: true, data: integration });
   });
 
   // Update integration
@@ -139,6 +152,68 @@ export async function settingsRoutes(fastify: FastifyInstance) {
     return reply.send({ success: result.success, data: result });
   });
 
+  // Inbound webhook URL to configure at the provider
+  fastify.get('/integrations/:id/inbound', async (request, reply) => {
+    const tenantId = request.user.tenantId;
+    const { id } = request.params as { id: string };
+
+    const integration = await integrationsService.getWithCredentials(tenantId, id);
+
+    if (!integration) {
+      return reply.status(404).send({ success: false, error: 'Integration not found' });
+    }
+
+    const base = `${config.apiUrl}/api/v1/inbound`;
+    const token = inboundWebhookToken(integration.id);
+
+    const paths: Partial<Record<string, string>> = {
+      cloud_api: `/whatsapp/cloud/${integration.id}`,
+      evolution_api: `/whatsapp/evolution/${integration.id}?token=${token}`,
+      twilio: `/sms/twilio/${integration.id}`,
+      mailgun: `/email/mailgun/${integration.id}`,
+      sendgrid: `/email/sendgrid/${integration.id}?token=${token}`,
+      telegram_bot: `/telegram/${integration.id}`,
+    };
+
+    const path = paths[integration.provider];
+    if (!path) {
+      return reply.status(400).send({ success: false, error: `Inbound messages are not supported for ${integration.provider}` });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        webhookUrl: `${base}${path}`,
+        // Meta asks for a verify token when subscribing the webhook
+        ...(integration.provider === 'cloud_api' && {
+          verifyToken: integration.credentials.verifyToken || token,
+        }),
+      },
+    });
+  });
+
+  // Point a Telegram bot's webhook at our inbound endpoint
+  fastify.post('/integrations/:id/telegram/webhook', async (request, reply) => {
+    const tenantId = request.user.tenantId;
+    const { id } = request.params as { id: string };
+
+    const integration = await integrationsService.getWithCredentials(tenantId, id);
+
+    if (!integration || integration.provider !== 'telegram_bot') {
+      return reply.status(404).send({ success: false, error: 'Telegram integration not found' });
+    }
+
+    const webhookUrl = `${config.apiUrl}/api/v1/inbound/telegram/${integration.id}`;
+
+    try {
+      await createTelegramProvider(integration).setWebhook(webhookUrl);
+    } catch (error) {
+      return reply.status(502).send({ success: false, error: (error as Error).message });
+    }
+
+    return reply.send({ success: true, data: { webhookUrl } });
+  });
+
   // Get integration usage stats
   fastify.get('/integrations/:id/stats', async (request, reply) => {
     const tenantId = request.user.tenantId;
@@ -199,7 +274,9 @@ export async function settingsRoutes(fastify: FastifyInstance) {
         cloud_api: [
           { name: 'accessToken', type: 'password', label: 'Access Token', required: true, description: 'WhatsApp Business API access token' },
           { name: 'phoneNumberId', type: 'text', label: 'Phone Number ID', required: true, description: 'WhatsApp phone number ID' },
-          { name: 'businessAccountId', type: 'text', label: 'Business Account ID', required: true, description: 'WhatsApp Business Account ID' }
+          { name: 'businessAccountId', type: 'text', label: 'Business Account ID', required: true, description: 'WhatsApp Business Account ID' },
+          { name: 'appSecret', type: 'password', label: 'App Secret', required: false, description: 'Meta app secret, required to verify inbound webhooks' },
+          { name: 'verifyToken', type: 'text', label: 'Webhook Verify Token', required: false, description: 'Leave empty to use a generated token' }
         ],
         evolution_api: [
           { name: 'apiUrl', type: 'text', label: 'API URL', required: true, description: 'Evolution API instance URL' },
@@ -222,6 +299,14 @@ export async function settingsRoutes(fastify: FastifyInstance) {
           { name: 'apiKey', type: 'text', label: 'API Key', required: true },
           { name: 'apiSecret', type: 'password', label: 'API Secret', required: true },
           { name: 'fromName', type: 'text', label: 'From Name', required: true }
+        ],
+        fast2sms: [
+          { name: 'apiKey', type: 'password', label: 'API Key', required: true },
+          { name: 'senderId', type: 'text', label: 'DLT Sender ID', required: false, description: 'Leave empty to use the Quick SMS route' }
+        ],
+        textlocal: [
+          { name: 'apiKey', type: 'password', label: 'API Key', required: true },
+          { name: 'sender', type: 'text', label: 'Sender Name', required: true }
         ]
       },
       email: {
@@ -230,7 +315,9 @@ export async function settingsRoutes(fastify: FastifyInstance) {
           { name: 'port', type: 'number', label: 'SMTP Port', required: true },
           { name: 'username', type: 'text', label: 'Username', required: true },
           { name: 'password', type: 'password', label: 'Password', required: true },
-          { name: 'secure', type: 'boolean', label: 'Use TLS', required: false }
+          { name: 'secure', type: 'boolean', label: 'Use TLS', required: false },
+          { name: 'fromEmail', type: 'text', label: 'From Email', required: false, description: 'Defaults to the username' },
+          { name: 'fromName', type: 'text', label: 'From Name', required: false }
         ],
         gmail: [
           { name: 'clientId', type: 'text', label: 'Client ID', required: true },
@@ -242,6 +329,14 @@ export async function settingsRoutes(fastify: FastifyInstance) {
           { name: 'apiKey', type: 'password', label: 'API Key', required: true },
           { name: 'fromEmail', type: 'text', label: 'From Email', required: true },
           { name: 'fromName', type: 'text', label: 'From Name', required: false }
+        ],
+        mailgun: [
+          { name: 'apiKey', type: 'password', label: 'API Key', required: true },
+          { name: 'domain', type: 'text', label: 'Sending Domain', required: true },
+          { name: 'region', type: 'text', label: 'Region', required: false, description: 'us or eu' },
+          { name: 'webhookSigningKey', type: 'password', label: 'Webhook Signing Key', required: false, description: 'Verifies inbound routes; defaults to the API key' },
+          { name: 'fromEmail', type: 'text', label: 'From Email', required: false },
+          { name: 'fromName', type: 'text', label: 'From Name', required: false }
         ]
       },
       telegram: {
@@ -289,6 +384,113 @@ export async function settingsRoutes(fastify: FastifyInstance) {
     return reply.send({ success: true, data: providerFields });
   });
 
+  // ============================================
+  // Channel Health and Sending Limits
+  // ============================================
+
+  // Reputation per channel over the last 24 hours
+  fastify.get('/channels/health', async (request, reply) => {
+    const tenantId = request.user.tenantId;
+
+    const health = await fastify.antiBanService.getChannelHealth(tenantId);
+
+    return reply.send({ success: true, data: health });
+  });
+
+  // Resume a paused channel now, or automatically after cooldownMinutes
+  fastify.post('/channels/:channel/unpause', async (request, reply) => {
+    const tenantId = request.user.tenantId;
+    const { channel } = request.params as { channel: string };
+    const { cooldownMinutes } = (request.body as any) || {};
+
+    if (cooldownMinutes !== undefined && !(Number(cooldownMinutes) >= 0)) {
+      return reply.status(400).send({ success: false, error: 'Cooldown must be zero or more minutes' });
+    }
+
+    const health = await fastify.antiBanService.unpauseChannel(tenantId, channel, { cooldownMinutes });
+    if (!health) {
+      return reply.status(404).send({ success: false, error: 'Paused channel not found' });
+    }
+
+    return reply.send({ success: true, data: health });
+  });
+
+  // Set the reputation score below which a channel pauses itself; null restores the default
+  fastify.put('/channels/:channel/auto-pause', async (request, reply) => {
+    const tenantId = request.user.tenantId;
+    const { channel } = request.params as { channel: string };
+    const { threshold = null } = request.body as any;
+
+    if (threshold !== null && !(Number.isInteger(threshold) && threshold >= 0 && threshold <= 100)) {
+      return reply.status(400).send({ success: false, error: 'Threshold must be a whole number from 0 to 100, or null' });
+    }
+
+    const health = await fastify.antiBanService.setAutoPauseThreshold(tenantId, channel, threshold);
+
+    return reply.send({ success: true, data: health });
+  });
+
+  // Usage of every sending limit window
+  fastify.get('/channels/rate-limits', async (request, reply) => {
+    const tenantId = request.user.tenantId;
+
+    const status = await fastify.antiBanService.getRateLimitStatus(tenantId);
+
+    return reply.send({ success: true, data: status });
+  });
+
+  // Override a channel's per minute/hour/day limits; null restores the default
+  fastify.put('/channels/:channel/rate-limits', async (request, reply) => {
+    const tenantId = request.user.tenantId;
+    const { channel } = request.params as { channel: string };
+    const { perMinute = null, perHour = null, perDay = null } = request.body as any;
+
+    if (![perMinute, perHour, perDay].every((limit) => limit === null || (Number.isInteger(limit) && limit >= 0))) {
+      return reply.status(400).send({ success: false, error: 'Rate limits must be whole numbers of zero or more, or null' });
+    }
+
+    await fastify.db.query(
+      `INSERT INTO channel_configs (tenant_id, channel, rate_limit_per_minute, rate_limit_per_hour, rate_limit_per_day)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (tenant_id, channel) DO UPDATE SET
+         rate_limit_per_minute = EXCLUDED.rate_limit_per_minute,
+         rate_limit_per_hour = EXCLUDED.rate_limit_per_hour,
+         rate_limit_per_day = EXCLUDED.rate_limit_per_day,
+         updated_at = NOW()`,
+      [tenantId, channel, perMinute, perHour, perDay]
+    );
+
+    const status = await fastify.antiBanService.getRateLimitStatus(tenantId);
+
+    return reply.send({ success: true, data: status });
+  });
+
+  // Start, restart or stop warm-up on a channel
+  fastify.put('/channels/:channel/warmup', async (request, reply) => {
+    const tenantId = request.user.tenantId;
+    const { channel } = request.params as { channel: string };
+    const { enabled, curve, restart } = request.body as any;
+
+    if (enabled === false) {
+      const health = await fastify.antiBanService.stopWarmup(tenantId, channel);
+      if (!health) {
+        return reply.status(404).send({ success: false, error: 'Channel not found' });
+      }
+      return reply.send({ success: true, data: health });
+    }
+
+    if (curve !== undefined) {
+      const error = validateWarmupCurve(curve);
+      if (error) {
+        return reply.status(400).send({ success: false, error });
+      }
+    }
+
+    const health = await fastify.antiBanService.startWarmup(tenantId, channel, { curve, restart });
+
+    return reply.send({ success: true, data: health });
+  });
+
   // ============================================
   // Legacy Channel Settings (for backward compatibility)
   // ============================================
@@ -4,10 +4,30 @@
 // ============================================
 
 import { FastifyInstance } from 'fastify';
+import { WorkflowScheduler } from '../services/workflow/workflow-scheduler.js';
+import { WorkflowVersions, diffSnapshots } from '../services/workflow/versions.js';
+import { WorkflowValidationIssue, validateWorkflowDefinition } from '../services/workflow/validator.js';
+import { WorkflowSimulator } from '../services/workflow/simulator.js';
+
+// Issues carry node and edge ids so the builder can highlight them
+function validationError(issues: WorkflowValidationIssue[]) {
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: issues.length === 1 ? issues[0].message : `${issues[0].message} (and ${issues.length - 1} more)`,
+      details: { issues },
+    },
+  };
+}
 
 export async function workflowRoutes(fastify: FastifyInstance) {
   fastify.addHook('onRequest', fastify.authenticate);
 
+  const scheduler = new WorkflowScheduler(fastify);
+  const versions = new WorkflowVersions(fastify);
+  const simulator = new WorkflowSimulator(fastify);
+
   // List workflows
   fastify.get('/', async (request, reply) => {
     const { page = 1, limit = 20, status } = request.query as any;
@@ -73,7 +93,12 @@ export async function workflowRoutes(fastify: FastifyInstance) {
   // Create workflow
   fastify.post('/', async (request, reply) => {
     const tenantId = request.user.tenantId;
-    const { name, description, trigger, nodes, edges } = request.body as any;
+    const { name, description, trigger, nodes, edges, enrollment } = request.body as any;
+
+    const issues = validateWorkflowDefinition({ trigger, nodes, edges, enrollment });
+    if (issues.length > 0) {
+      return reply.status(400).send(validationError(issues));
+    }
 
     const workflow = await fastify.db.insert('workflows', {
       tenant_id: tenantId,
@@ -82,6 +107,7 @@ export async function workflowRoutes(fastify: FastifyInstance) {
       trigger: JSON.stringify(trigger),
       nodes: JSON.stringify(nodes),
       edges: JSON.stringify(edges),
+      enrollment: JSON.stringify(enrollment || {}),
       status: 'draft',
       created_by: request.user.id,
     });
@@ -95,10 +121,29 @@ export async function workflowRoutes(fastify: FastifyInstance) {
     const tenantId = request.user.tenantId;
     const updates = request.body as any;
 
+    // Partial updates are checked against the stored definition they pair with
+    if (updates.nodes || updates.edges || updates.trigger || updates.enrollment) {
+      const existing = await fastify.db.queryOne(
+        'SELECT trigger, nodes, edges FROM workflows WHERE id = $1 AND tenant_id = $2',
+        [id, tenantId]
+      );
+
+      const issues = validateWorkflowDefinition({
+        trigger: updates.trigger || existing?.trigger,
+        nodes: updates.nodes || existing?.nodes,
+        edges: updates.edges || existing?.edges,
+        enrollment: updates.enrollment,
+      });
+      if (issues.length > 0) {
+        return reply.status(400).send(validationError(issues));
+      }
+    }
+
     // Serialize JSON fields
     if (updates.trigger) updates.trigger = JSON.stringify(updates.trigger);
     if (updates.nodes) updates.nodes = JSON.stringify(updates.nodes);
     if (updates.edges) updates.edges = JSON.stringify(updates.edges);
+    if (updates.enrollment) updates.enrollment = JSON.stringify(updates.enrollment);
 
     const workflow = await fastify.db.update('workflows', id, updates);
 
@@ -117,12 +162,38 @@ export async function workflowRoutes(fastify: FastifyInstance) {
     const { id } = request.params as any;
     const tenantId = request.user.tenantId;
 
-    await fastify.db.query(
-      "UPDATE workflows SET status = 'active' WHERE id = $1 AND tenant_id = $2",
+    const workflow = await fastify.db.queryOne(
+      'SELECT id, tenant_id, trigger, nodes, edges FROM workflows WHERE id = $1 AND tenant_id = $2',
       [id, tenantId]
     );
 
-    return reply.send({ success: true, data: { message: 'Workflow activated' } });
+    if (!workflow) {
+      return reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Workflow not found' },
+      });
+    }
+
+    // Workflows saved before validation existed are checked again here
+    const issues = validateWorkflowDefinition(workflow);
+    if (issues.length > 0) {
+      return reply.status(400).send(validationError(issues));
+    }
+
+    // Register the cron schedule first, so a rejected pattern leaves the workflow inactive
+    try {
+      await scheduler.register(workflow);
+    } catch (error) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: `Invalid schedule: ${(error as Error).message}` },
+      });
+    }
+
+    // Edits after this only touch the draft until the next activation
+    const version = await versions.publish(id, tenantId, request.user.id);
+
+    return reply.send({ success: true, data: { message: 'Workflow activated', version: version.version } });
   });
 
   // Deactivate workflow
@@ -130,11 +201,15 @@ export async function workflowRoutes(fastify: FastifyInstance) {
     const { id } = request.params as any;
     const tenantId = request.user.tenantId;
 
-    await fastify.db.query(
+    const result = await fastify.db.query(
       "UPDATE workflows SET status = 'paused' WHERE id = $1 AND tenant_id = $2",
       [id, tenantId]
     );
 
+    if (result.rowCount) {
+      await scheduler.unregister(id);
+    }
+
     return reply.send({ success: true, data: { message: 'Workflow deactivated' } });
   });
 
@@ -143,11 +218,15 @@ export async function workflowRoutes(fastify: FastifyInstance) {
     const { id } = request.params as any;
     const tenantId = request.user.tenantId;
 
-    await fastify.db.query(
+    const result = await fastify.db.query(
       'DELETE FROM workflows WHERE id = $1 AND tenant_id = $2',
       [id, tenantId]
     );
 
+    if (result.rowCount) {
+      await scheduler.unregister(id);
+    }
+
     return reply.send({ success: true, data: { message: 'Workflow deleted' } });
   });
 
@@ -157,16 +236,141 @@ export async function workflowRoutes(fastify: FastifyInstance) {
     const { leadId, testData } = request.body as any;
     const tenantId = request.user.tenantId;
 
-    // Trigger workflow execution
+    // Test runs exercise the draft, not the published version
     const execution = await fastify.workflowEngine.execute(id, {
       tenantId,
       leadId,
       testData,
+      draft: true,
     });
 
     return reply.send({ success: true, data: execution });
   });
 
+  // Dry run: the path a lead would take, without sending or writing anything
+  fastify.post('/:id/simulate', async (request, reply) => {
+    const { id } = request.params as any;
+    const { version, leadId, lead, overrides, triggerData, waitOutcome, aiHandoff } = request.body as any;
+    const tenantId = request.user.tenantId;
+
+    let simulation;
+    try {
+      simulation = await simulator.simulate(id, tenantId, {
+        version: version !== undefined ? String(version) : undefined,
+        leadId,
+        lead,
+        overrides,
+        triggerData,
+        waitOutcome,
+        aiHandoff,
+      });
+    } catch (error) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: (error as Error).message },
+      });
+    }
+
+    if (!simulation) {
+      return reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Workflow not found' },
+      });
+    }
+
+    return reply.send({ success: true, data: simulation });
+  });
+
+  // List published versions
+  fastify.get('/:id/versions', async (request, reply) => {
+    const { id } = request.params as any;
+    const tenantId = request.user.tenantId;
+
+    const list = await versions.list(id, tenantId);
+
+    return reply.send({ success: true, data: list });
+  });
+
+  // Get a published version
+  fastify.get('/:id/versions/:version', async (request, reply) => {
+    const { id, version } = request.params as any;
+    const tenantId = request.user.tenantId;
+
+    const snapshot = await versions.get(id, tenantId, parseInt(version));
+
+    if (!snapshot) {
+      return reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Workflow version not found' },
+      });
+    }
+
+    return reply.send({ success: true, data: snapshot });
+  });
+
+  // Republish an earlier version
+  fastify.post('/:id/versions/:version/rollback', async (request, reply) => {
+    const { id, version } = request.params as any;
+    const tenantId = request.user.tenantId;
+
+    const target = await versions.rollback(id, tenantId, parseInt(version));
+
+    if (!target) {
+      return reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Workflow version not found' },
+      });
+    }
+
+    const workflow = await fastify.db.queryOne(
+      'SELECT id, tenant_id, status FROM workflows WHERE id = $1',
+      [id]
+    );
+    if (workflow?.status === 'active') {
+      await scheduler.register({ ...workflow, trigger: target.trigger });
+    }
+
+    return reply.send({ success: true, data: { message: 'Workflow rolled back', version: target.version } });
+  });
+
+  // Diff two versions; "draft" compares against unpublished edits
+  fastify.get('/:id/diff', async (request, reply) => {
+    const { id } = request.params as any;
+    const { from, to = 'draft' } = request.query as any;
+    const tenantId = request.user.tenantId;
+
+    let fromRef = from;
+    if (!fromRef) {
+      const published = await fastify.db.queryOne(
+        `SELECT v.version FROM workflows w
+         JOIN workflow_versions v ON v.id = w.published_version_id
+         WHERE w.id = $1 AND w.tenant_id = $2`,
+        [id, tenantId]
+      );
+      if (!published) {
+        return reply.status(400).send({
+          success: false,
+          error: { code: 'BAD_REQUEST', message: 'Workflow has no published version; pass from' },
+        });
+      }
+      fromRef = String(published.version);
+    }
+
+    const [before, after] = await Promise.all([
+      versions.resolve(id, tenantId, fromRef),
+      versions.resolve(id, tenantId, to),
+    ]);
+
+    if (!before || !after) {
+      return reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Workflow version not found' },
+      });
+    }
+
+    return reply.send({ success: true, data: { from: fromRef, to, ...diffSnapshots(before, after) } });
+  });
+
   // Get workflow executions
   fastify.get('/:id/executions', async (request, reply) => {
     const { id } = request.params as any;
@@ -174,13 +378,50 @@ export async function workflowRoutes(fastify: FastifyInstance) {
     const tenantId = request.user.tenantId;
 
     const executions = await fastify.db.queryMany(
-      `SELECT * FROM workflow_executions 
-       WHERE workflow_id = $1 AND tenant_id = $2 
-       ORDER BY started_at DESC 
+      `SELECT e.*, v.version FROM workflow_executions e
+       LEFT JOIN workflow_versions v ON e.version_id = v.id
+       WHERE e.workflow_id = $1 AND e.tenant_id = $2
+       ORDER BY e.started_at DESC
        LIMIT $3 OFFSET $4`,
       [id, tenantId, limit, (page - 1) * limit]
     );
 
     return reply.send({ success: true, data: executions });
   });
+
+  // Resume a failed execution from the node that failed
+  fastify.post('/:id/executions/:executionId/retry', async (request, reply) => {
+    const { id, executionId } = request.params as any;
+    const tenantId = request.user.tenantId;
+
+    const execution = await fastify.db.queryOne(
+      'SELECT id, status FROM workflow_executions WHERE id = $1 AND workflow_id = $2 AND tenant_id = $3',
+      [executionId, id, tenantId]
+    );
+
+    if (!execution) {
+      return reply.status(404).send({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Execution not found' },
+      });
+    }
+
+    // Claim the execution so concurrent retries queue it once
+    const claimed = await fastify.db.query(
+      `UPDATE workflow_executions SET status = 'running', error = NULL, completed_at = NULL
+       WHERE id = $1 AND status = 'failed'`,
+      [executionId]
+    );
+
+    if (claimed.rowCount === 0) {
+      return reply.status(400).send({
+        success: false,
+        error: { code: 'BAD_REQUEST', message: 'Only failed executions can be retried' },
+      });
+    }
+
+    await fastify.addJob('workflows', 'retry-execution', { executionId });
+
+    return reply.send({ success: true, data: { message: 'Execution retry queued', executionId } });
+  });
 }
@@ -38,12 +38,17 @@ import { billingRoutes } from './routes/billing.js';
 import { settingsRoutes } from './routes/settings.js';
 import { apiKeyRoutes } from './routes/api-keys.js';
 import { webhookRoutes } from './routes/webhooks.js';
+import { inboundRoutes } from './routes/inbound.js';
 import { publicApiRoutes } from './routes/public-api.js';
 import { healthRoutes } from './routes/health.js';
 
 // Services
 import { MessageQueue } from './services/queue/message-queue.js';
+import { CampaignScheduler } from './services/campaign/campaign-scheduler.js';
 import { WorkflowEngine } from './services/workflow/workflow-engine.js';
+import { WorkflowTriggerDispatcher } from './services/workflow/trigger-dispatcher.js';
+import { WorkflowEnrollment } from './services/workflow/enrollment.js';
+import { DomainEventBus } from './services/events/event-bus.js';
 import { AntiBanService } from './services/anti-ban/anti-ban-service.js';
 import { LeadScoringService } from './services/ai/lead-scoring.js';
 import { AnalyticsService } from './services/analytics/analytics.js';
@@ -194,6 +199,7 @@ async function start() {
     await app.register(apiKeyRoutes, { prefix: '/api/v1/api-keys' });
     await app.register(webhookRoutes, { prefix: '/api/v1/webhooks' });
     await app.register(publicApiRoutes, { prefix: '/api/v1/public' });
+    await app.register(inboundRoutes, { prefix: '/api/v1/inbound' });
     await app.register(healthRoutes, { prefix: '/health' });
 
     // Initialize background services
@@ -202,19 +208,35 @@ async function start() {
     const antiBanService = new AntiBanService(app);
     const leadScoringService = new LeadScoringService(app);
     const analyticsService = new AnalyticsService(app);
+    const campaignScheduler = new CampaignScheduler(app);
+    const eventBus = new DomainEventBus(app);
 
-    await messageQueue.initialize();
-    await workflowEngine.initialize();
-    await antiBanService.initialize();
-    await leadScoringService.initialize();
-    await analyticsService.initialize();
+    // Domain events start workflows whose trigger matches, and end those whose goal is met
+    const triggerDispatcher = new WorkflowTriggerDispatcher(app);
+    const workflowEnrollment = new WorkflowEnrollment(app);
+    eventBus.subscribe(async (event) => {
+      await workflowEnrollment.handleEvent(event);
+      await triggerDispatcher.dispatch(event);
+    });
 
-    // Decorate fastify instance with services
+    // Decorate fastify instance with services. Workers pick up queued jobs as
+    // soon as they start, so every service is reachable before any initializes.
     app.decorate('messageQueue', messageQueue);
     app.decorate('workflowEngine', workflowEngine);
     app.decorate('antiBanService', antiBanService);
     app.decorate('leadScoringService', leadScoringService);
     app.decorate('analyticsService', analyticsService);
+    app.decorate('campaignScheduler', campaignScheduler);
+    app.decorate('eventBus', eventBus);
+
+    // Workers publish events as soon as they start, so the bus comes first
+    await eventBus.initialize();
+    await messageQueue.initialize();
+    await workflowEngine.initialize();
+    await antiBanService.initialize();
+    await leadScoringService.initialize();
+    await analyticsService.initialize();
+    await campaignScheduler.initialize();
 
     // Start server
     const port = config.port;
@@ -235,6 +257,8 @@ async function start() {
       await antiBanService.close();
       await leadScoringService.close();
       await analyticsService.close();
+      await campaignScheduler.close();
+      await eventBus.close();
 
       await app.close();
       process.exit(0);
@@ -258,5 +282,7 @@ declare module 'fastify' {
     antiBanService: AntiBanService;
     leadScoringService: LeadScoringService;
     analyticsService: AnalyticsService;
+    campaignScheduler: CampaignScheduler;
+    eventBus: DomainEventBus;
   }
 }
@@ -61,9 +61,13 @@ export class LeadScoringService {
         [qualification.score, qualification.intent, qualification.sentiment, leadId]
       );
 
-      // If high score, trigger workflow
+      // High scores start workflows triggered by lead_scored_high
       if (qualification.score >= 70) {
-        await this.triggerHighScoreWorkflow(tenantId, leadId);
+        await this.app.eventBus.publish('lead_scored_high', {
+          tenantId,
+          leadId,
+          data: { score: qualification.score, intent: qualification.intent },
+        });
       }
 
       return qualification;
@@ -132,24 +136,6 @@ export class LeadScoringService {
     return { revived: dormantLeads.length };
   }
 
-  private async triggerHighScoreWorkflow(tenantId: string, leadId: string): Promise<void> {
-    // Find active workflows triggered by high score
-    const workflows = await this.app.db.queryMany(
-      `SELECT id FROM workflows 
-       WHERE tenant_id = $1 
-       AND status = 'active'
-       AND trigger->>'type' = 'lead_scored_high'`,
-      [tenantId]
-    );
-
-    for (const workflow of workflows) {
-      await this.app.workflowEngine.execute(workflow.id, {
-        tenantId,
-        leadId,
-      });
-    }
-  }
-
   async close(): Promise<void> {
     if (this.worker) {
       await this.worker.close();
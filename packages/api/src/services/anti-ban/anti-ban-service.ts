@@ -4,114 +4,477 @@
 // ============================================
 
 import { FastifyInstance } from 'fastify';
+import { config } from '../../config/index.js';
 import { queueLogger } from '../../utils/logger.js';
+import {
+  REPUTATION_WINDOW_HOURS,
+  ReputationEventType,
+  ReputationFactor,
+  ReputationMetrics,
+  ReputationStatus,
+  scoreReputation,
+} from './reputation.js';
+import { nextWarmupStep, warmupCurve } from './warmup.js';
+import { MessageRateLimiter, RateLimitRule, RateLimitStatus } from './rate-limiter.js';
+import { ChannelPause, RESUME_GRACE_MINUTES } from './channel-pause.js';
 
-interface ReputationScore {
+export interface WarmupStatus {
+  enabled: boolean;
+  day: number;
+  totalDays: number;
+  dailyLimit: number | null;
+  changedAt: string | null;
+}
+
+export interface PauseStatus {
+  paused: boolean;
+  reason: string | null;
+  pausedAt: string | null;
+  // Set when a cooldown resume is scheduled
+  resumeAt: string | null;
+  resumedAt: string | null;
+  // Score below which the channel pauses itself
+  threshold: number;
+}
+
+export interface ChannelReputation {
   tenantId: string;
   channel: string;
   score: number;
-  messagesSent: number;
-  messagesFailed: number;
-  lastMessageAt: Date;
+  status: ReputationStatus;
+  factors: ReputationFactor[];
+  recommendations: string[];
+  metrics: ReputationMetrics;
+  warmup: WarmupStatus;
+  pause: PauseStatus;
+  updatedAt: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until a send may be tried again
+  retryAfter?: number;
+  reason?: 'paused' | RateLimitRule['source'];
+  // The rate window that was full
+  resource?: string;
+}
+
+export interface ReputationEventInput {
+  messageId?: string | null;
+  leadId?: string | null;
+  details?: Record<string, any>;
+}
+
+const WINDOW_SQL = `NOW() - INTERVAL '${REPUTATION_WINDOW_HOURS} hours'`;
+
+// How long a held send waits on a paused channel without a scheduled resume
+const PAUSED_RETRY_SECONDS = 900;
+
+const isoOrNull = (value: any) => (value ? new Date(value).toISOString() : null);
+
+function toReputation(row: any): ChannelReputation {
+  return {
+    tenantId: row.tenant_id,
+    channel: row.channel,
+    score: row.score,
+    status: row.status,
+    factors: row.factors || [],
+    recommendations: row.recommendations || [],
+    metrics: row.metrics || {},
+    warmup: {
+      enabled: Boolean(row.warmup_mode),
+      day: row.warmup_day || 0,
+      totalDays: warmupCurve(row.warmup_curve).length,
+      dailyLimit: row.warmup_mode ? row.warmup_daily_limit : null,
+      changedAt: isoOrNull(row.warmup_changed_at),
+    },
+    pause: {
+      paused: Boolean(row.is_paused),
+      reason: row.paused_reason || null,
+      pausedAt: isoOrNull(row.paused_at),
+      resumeAt: isoOrNull(row.resume_at),
+      resumedAt: isoOrNull(row.resumed_at),
+      threshold: row.auto_pause_threshold ?? config.antiSpam.autoPauseThreshold,
+    },
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
 }
 
 export class AntiBanService {
-  private reputationScores: Map<string, ReputationScore> = new Map();
   private checkInterval: NodeJS.Timeout | null = null;
+  private rateLimiter: MessageRateLimiter;
+  private channelPause: ChannelPause;
 
-  constructor(private app: FastifyInstance) {}
+  constructor(private app: FastifyInstance) {
+    this.rateLimiter = new MessageRateLimiter(app);
+    this.channelPause = new ChannelPause(app);
+  }
 
   async initialize(): Promise<void> {
     // Start periodic reputation check
     this.checkInterval = setInterval(() => {
-      this.checkReputation();
+      this.checkReputation().catch((error) => {
+        queueLogger.error({ error }, 'Reputation check failed');
+      });
     }, 60000); // Check every minute
 
     queueLogger.info('Anti-ban service initialized');
   }
 
-  async recordMessage(tenantId: string, channel: string, success: boolean): Promise<void> {
-    const key = `${tenantId}:${channel}`;
-    const existing = this.reputationScores.get(key);
+  /**
+   * Record a block, spam report, bounce or complaint and rescore the channel.
+   * An event is kept once per message, so send retries and repeated provider
+   * callbacks do not count twice.
+   */
+  async recordEvent(
+    tenantId: string,
+    channel: string,
+    type: ReputationEventType,
+    input: ReputationEventInput = {}
+  ): Promise<void> {
+    const inserted = await this.app.db.query(
+      `INSERT INTO reputation_events (tenant_id, channel, event_type, message_id, lead_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (message_id, event_type) WHERE message_id IS NOT NULL DO NOTHING`,
+      [tenantId, channel, type, input.messageId || null, input.leadId || null, JSON.stringify(input.details || {})]
+    );
+    if (inserted.rowCount === 0) return;
 
-    if (existing) {
-      existing.messagesSent++;
-      if (!success) {
-        existing.messagesFailed++;
-      }
-      existing.lastMessageAt = new Date();
-      // Adjust score
-      existing.score = this.calculateScore(existing);
-    } else {
-      this.reputationScores.set(key, {
+    queueLogger.debug({ tenantId, channel, type }, 'Reputation event recorded');
+    await this.refresh(tenantId, channel);
+  }
+
+  /**
+   * Record a reputation event against an outbound message, known by its id or,
+   * from a delivery receipt, by its provider id
+   */
+  async recordForMessage(
+    tenantId: string,
+    ref: { messageId?: string; providerMessageId?: string },
+    type: ReputationEventType,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    const message = await this.app.db.queryOne(
+      `SELECT m.id, m.channel, c.lead_id
+       FROM messages m
+       JOIN conversations c ON c.id = m.conversation_id
+       WHERE m.tenant_id = $1 AND m.direction = 'outbound'
+         AND (m.id = $2::uuid OR m.provider_message_id = $3)
+       ORDER BY m.created_at DESC
+       LIMIT 1`,
+      [tenantId, ref.messageId || null, ref.providerMessageId || null]
+    );
+    if (!message) return;
+
+    await this.recordEvent(tenantId, message.channel, type, {
+      messageId: message.id,
+      leadId: message.lead_id,
+      details: { ...ref, ...details },
+    });
+  }
+
+  /**
+   * Recompute a channel's score from the rolling window and persist it
+   */
+  async refresh(tenantId: string, channel: string): Promise<ChannelReputation> {
+    const metrics = await this.collectMetrics(tenantId, channel);
+    const result = scoreReputation(metrics);
+
+    const row = await this.app.db.queryOne(
+      `INSERT INTO channel_health (tenant_id, channel, score, status, factors, recommendations, metrics, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+       ON CONFLICT (tenant_id, channel) DO UPDATE SET
+         score = EXCLUDED.score,
+         status = EXCLUDED.status,
+         factors = EXCLUDED.factors,
+         recommendations = EXCLUDED.recommendations,
+         metrics = EXCLUDED.metrics,
+         updated_at = NOW()
+       RETURNING *`,
+      [
         tenantId,
         channel,
-        score: success ? 100 : 90,
-        messagesSent: 1,
-        messagesFailed: success ? 0 : 1,
-        lastMessageAt: new Date(),
-      });
-    }
+        result.score,
+        result.status,
+        JSON.stringify(result.factors),
+        JSON.stringify(result.recommendations),
+        JSON.stringify(metrics),
+      ]
+    );
+
+    return toReputation(row);
   }
 
-  private calculateScore(reputation: ReputationScore): number {
-    const failureRate = reputation.messagesFailed / reputation.messagesSent;
-    let score = 100 - failureRate * 50;
+  /**
+   * Fresh reputation for every channel the tenant used in the window or has
+   * a stored score for
+   */
+  async getChannelHealth(tenantId: string): Promise<ChannelReputation[]> {
+    const channels = await this.app.db.queryMany(
+      `SELECT DISTINCT channel FROM (
+         SELECT channel FROM messages WHERE tenant_id = $1 AND direction = 'outbound' AND created_at >= ${WINDOW_SQL}
+         UNION SELECT channel FROM reputation_events WHERE tenant_id = $1 AND created_at >= ${WINDOW_SQL}
+         UNION SELECT channel FROM channel_health WHERE tenant_id = $1
+       ) AS channels
+       ORDER BY channel`,
+      [tenantId]
+    );
 
-    // Penalize if messages are sent too quickly
-    const now = new Date();
-    const timeSinceLastMessage = now.getTime() - reputation.lastMessageAt.getTime();
-    if (timeSinceLastMessage < 1000) {
-      score -= 10;
+    const health: ChannelReputation[] = [];
+    for (const { channel } of channels) {
+      health.push(await this.refresh(tenantId, channel));
     }
+    return health;
+  }
 
-    return Math.max(0, Math.min(100, score));
+  async getReputation(tenantId: string, channel: string): Promise<ChannelReputation | null> {
+    const row = await this.app.db.queryOne(
+      'SELECT * FROM channel_health WHERE tenant_id = $1 AND channel = $2',
+      [tenantId, channel]
+    );
+    return row ? toReputation(row) : null;
   }
 
-  async checkRateLimit(tenantId: string, channel: string): Promise<{ allowed: boolean; retryAfter?: number }> {
-    const key = `${tenantId}:${channel}`;
-    const reputation = this.reputationScores.get(key);
+  /**
+   * Start warm-up on a channel at day 0. A channel already warming keeps its
+   * day unless restart is set.
+   */
+  async startWarmup(
+    tenantId: string,
+    channel: string,
+    options: { curve?: number[]; restart?: boolean } = {}
+  ): Promise<ChannelReputation> {
+    const existing = await this.app.db.queryOne(
+      'SELECT warmup_mode, warmup_day, warmup_curve FROM channel_health WHERE tenant_id = $1 AND channel = $2',
+      [tenantId, channel]
+    );
+    // A custom curve is kept on the channel; without one the configured curve applies
+    const customCurve = options.curve || existing?.warmup_curve || null;
+    const curve = warmupCurve(customCurve);
+    const keepDay = Boolean(existing?.warmup_mode) && !options.restart;
+    const day = keepDay ? Math.min(existing.warmup_day || 0, curve.length - 1) : 0;
 
-    if (!reputation) {
-      return { allowed: true };
-    }
+    const row = await this.app.db.queryOne(
+      `INSERT INTO channel_health (tenant_id, channel, warmup_mode, warmup_day, warmup_daily_limit, warmup_curve, warmup_changed_at)
+       VALUES ($1, $2, true, $3, $4, $5, NOW())
+       ON CONFLICT (tenant_id, channel) DO UPDATE SET
+         warmup_mode = true,
+         warmup_day = EXCLUDED.warmup_day,
+         warmup_daily_limit = EXCLUDED.warmup_daily_limit,
+         warmup_curve = EXCLUDED.warmup_curve,
+         warmup_changed_at = CASE WHEN $6::boolean THEN channel_health.warmup_changed_at ELSE NOW() END
+       RETURNING *`,
+      [
+        tenantId,
+        channel,
+        day,
+        curve[day],
+        customCurve ? JSON.stringify(customCurve) : null,
+        keepDay,
+      ]
+    );
+
+    queueLogger.info({ tenantId, channel, day: row.warmup_day, dailyLimit: row.warmup_daily_limit }, 'Channel warm-up started');
+    return toReputation(row);
+  }
 
-    // Check if score is too low
-    if (reputation.score < 30) {
-      return { allowed: false, retryAfter: 3600 }; // Block for 1 hour
+  /**
+   * Put a newly connected sender into warm-up when its channel warms up by
+   * default. Warm-up is tracked per channel, so a channel that already sends
+   * with a healthy reputation is left alone rather than set back to day 0.
+   */
+  async warmupNewSender(tenantId: string, channel: string): Promise<ChannelReputation | null> {
+    const { warmupMode, warmup } = config.antiSpam;
+    if (!warmupMode || !(warmup.channels as readonly string[]).includes(channel)) return null;
+
+    const history = await this.app.db.queryOne(
+      `SELECT ch.warmup_mode, ch.score,
+              EXISTS (
+                SELECT 1 FROM messages m
+                WHERE m.tenant_id = ch.tenant_id AND m.channel = ch.channel
+                  AND m.direction = 'outbound' AND m.sent_at IS NOT NULL
+              ) AS has_sent
+       FROM channel_health ch
+       WHERE ch.tenant_id = $1 AND ch.channel = $2`,
+      [tenantId, channel]
+    );
+    if (history && !history.warmup_mode && history.has_sent && history.score >= warmup.advanceScore) {
+      return null;
     }
 
-    // Check message rate
-    const messagesInLastHour = await this.app.db.queryOne(
-      `SELECT COUNT(*) FROM messages 
-       WHERE tenant_id = $1 AND channel = $2 AND created_at >= NOW() - INTERVAL '1 hour'`,
+    return this.startWarmup(tenantId, channel);
+  }
+
+  async stopWarmup(tenantId: string, channel: string): Promise<ChannelReputation | null> {
+    const row = await this.app.db.queryOne(
+      `UPDATE channel_health
+       SET warmup_mode = false, warmup_daily_limit = NULL, warmup_changed_at = NOW()
+       WHERE tenant_id = $1 AND channel = $2
+       RETURNING *`,
       [tenantId, channel]
     );
+    return row ? toReputation(row) : null;
+  }
 
-    const hourlyLimit = 100; // Configurable per plan
-    if (parseInt(messagesInLastHour?.count || '0') >= hourlyLimit) {
-      return { allowed: false, retryAfter: 3600 };
+  /**
+   * Whether a send may go out now. An allowed send takes its slot in every
+   * rate window, so call this once per send, right before sending.
+   */
+  async checkRateLimit(tenantId: string, channel: string, sendId: string): Promise<RateLimitResult> {
+    const reputation = await this.getReputation(tenantId, channel);
+
+    // Nothing goes out on a paused channel until it is resumed
+    if (reputation?.pause.paused) {
+      const resumeIn = reputation.pause.resumeAt
+        ? Math.ceil((new Date(reputation.pause.resumeAt).getTime() - Date.now()) / 1000)
+        : PAUSED_RETRY_SECONDS;
+      return { allowed: false, retryAfter: Math.max(resumeIn, 60), reason: 'paused' };
+    }
+
+    const decision = await this.rateLimiter.acquire(tenantId, channel, sendId);
+    if (!decision.allowed) {
+      return {
+        allowed: false,
+        retryAfter: decision.retryAfter,
+        reason: decision.rule.source,
+        resource: decision.rule.resource,
+      };
     }
 
     return { allowed: true };
   }
 
+  /**
+   * Resume a paused channel now, or after cooldownMinutes
+   */
+  async unpauseChannel(
+    tenantId: string,
+    channel: string,
+    options: { cooldownMinutes?: number } = {}
+  ): Promise<ChannelReputation | null> {
+    const row = await this.channelPause.unpause(tenantId, channel, options);
+    return row ? toReputation(row) : null;
+  }
+
+  // null restores the configured default
+  async setAutoPauseThreshold(tenantId: string, channel: string, threshold: number | null): Promise<ChannelReputation> {
+    return toReputation(await this.channelPause.setThreshold(tenantId, channel, threshold));
+  }
+
+  async getRateLimitStatus(tenantId: string): Promise<RateLimitStatus[]> {
+    return this.rateLimiter.status(tenantId);
+  }
+
+  private async collectMetrics(tenantId: string, channel: string): Promise<ReputationMetrics> {
+    const [messages, replies, events] = await Promise.all([
+      this.app.db.queryOne(
+        `SELECT
+           COUNT(*) FILTER (WHERE status NOT IN ('pending', 'queued', 'sending')) AS attempted,
+           COUNT(*) FILTER (WHERE status IN ('delivered', 'read')) AS delivered,
+           COUNT(*) FILTER (WHERE status = 'read') AS read,
+           COUNT(*) FILTER (WHERE status = 'failed') AS failed
+         FROM messages
+         WHERE tenant_id = $1 AND channel = $2 AND direction = 'outbound' AND created_at >= ${WINDOW_SQL}`,
+        [tenantId, channel]
+      ),
+      this.app.db.queryOne(
+        `SELECT COUNT(*) AS count FROM messages
+         WHERE tenant_id = $1 AND channel = $2 AND direction = 'inbound' AND created_at >= ${WINDOW_SQL}`,
+        [tenantId, channel]
+      ),
+      this.app.db.queryMany(
+        `SELECT event_type, COUNT(*) AS count FROM reputation_events
+         WHERE tenant_id = $1 AND channel = $2 AND created_at >= ${WINDOW_SQL}
+         GROUP BY event_type`,
+        [tenantId, channel]
+      ),
+    ]);
+
+    const eventCount = (type: ReputationEventType) =>
+      parseInt(events.find((event) => event.event_type === type)?.count || '0');
+
+    return {
+      attempted: parseInt(messages?.attempted || '0'),
+      delivered: parseInt(messages?.delivered || '0'),
+      read: parseInt(messages?.read || '0'),
+      failed: parseInt(messages?.failed || '0'),
+      replies: parseInt(replies?.count || '0'),
+      blocks: eventCount('block'),
+      spamReports: eventCount('spam_report'),
+      bounces: eventCount('bounce'),
+      complaints: eventCount('complaint'),
+    };
+  }
+
+  // Rescore channels active in the window, pausing any that fell below their threshold
   private async checkReputation(): Promise<void> {
-    for (const [key, reputation] of this.reputationScores.entries()) {
-      // Auto-pause campaigns if reputation drops too low
-      if (reputation.score < 20) {
-        queueLogger.warn({ tenantId: reputation.tenantId, channel: reputation.channel, score: reputation.score }, 'Low reputation detected, pausing campaigns');
-
-        await this.app.db.query(
-          "UPDATE campaigns SET status = 'paused' WHERE tenant_id = $1 AND channel = $2 AND status = 'running'",
-          [reputation.tenantId, reputation.channel]
-        );
+    const channels = await this.app.db.queryMany(
+      `SELECT DISTINCT tenant_id, channel FROM (
+         SELECT tenant_id, channel FROM messages WHERE direction = 'outbound' AND created_at >= NOW() - INTERVAL '1 hour'
+         UNION SELECT tenant_id, channel FROM reputation_events WHERE created_at >= NOW() - INTERVAL '1 hour'
+         UNION SELECT tenant_id, channel FROM channel_health WHERE updated_at < NOW() - INTERVAL '1 hour'
+       ) AS channels`
+    );
+
+    for (const { tenant_id: tenantId, channel } of channels) {
+      const reputation = await this.refresh(tenantId, channel);
+
+      if (this.shouldAutoPause(reputation)) {
+        const worst = [...reputation.factors].sort((a, b) => a.score - b.score)[0];
+        const reason =
+          `Reputation score ${reputation.score} fell below ${reputation.pause.threshold}` +
+          (worst ? ` (${worst.description})` : '');
+        await this.channelPause.pause(tenantId, channel, reason);
       }
     }
+
+    await this.channelPause.resumeDue();
+    await this.advanceWarmups();
+  }
+
+  // A channel someone just resumed gets a grace period before it can pause itself again
+  private shouldAutoPause(reputation: ChannelReputation): boolean {
+    if (reputation.pause.paused || reputation.score >= reputation.pause.threshold) return false;
+    const { resumedAt } = reputation.pause;
+    return !resumedAt || Date.now() - new Date(resumedAt).getTime() >= RESUME_GRACE_MINUTES * 60000;
   }
 
-  getReputation(tenantId: string, channel: string): ReputationScore | undefined {
-    return this.reputationScores.get(`${tenantId}:${channel}`);
+  // Move warming channels along their curve by their latest score
+  private async advanceWarmups(): Promise<void> {
+    const channels = await this.app.db.queryMany('SELECT * FROM channel_health WHERE warmup_mode = true');
+
+    for (const row of channels) {
+      const step = nextWarmupStep(
+        {
+          day: row.warmup_day || 0,
+          curve: warmupCurve(row.warmup_curve),
+          changedAt: new Date(row.warmup_changed_at || row.updated_at),
+        },
+        row.score
+      );
+      if (step.action === 'hold') continue;
+
+      const log = { tenantId: row.tenant_id, channel: row.channel, score: row.score };
+
+      if (step.action === 'graduate') {
+        await this.stopWarmup(row.tenant_id, row.channel);
+        queueLogger.info(log, 'Channel completed warm-up');
+        continue;
+      }
+
+      await this.app.db.query(
+        `UPDATE channel_health
+         SET warmup_day = $3, warmup_daily_limit = $4, warmup_changed_at = NOW()
+         WHERE tenant_id = $1 AND channel = $2 AND warmup_mode = true`,
+        [row.tenant_id, row.channel, step.day, step.dailyLimit]
+      );
+
+      if (step.action === 'fallback') {
+        queueLogger.warn({ ...log, day: step.day, dailyLimit: step.dailyLimit }, 'Reputation spike, warm-up fell back a day');
+      } else {
+        queueLogger.info({ ...log, day: step.day, dailyLimit: step.dailyLimit }, 'Channel warm-up advanced');
+      }
+    }
   }
 
   async close(): Promise<void> {
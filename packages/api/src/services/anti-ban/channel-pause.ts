@@ -0,0 +1,147 @@
+// ============================================
+// Channel Pause
+// Holding a channel's sends when its health goes critical, and resuming them
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { queueLogger } from '../../utils/logger.js';
+import { NotificationInput, NotificationService } from '../notifications/notifications.js';
+
+// After a resume, a channel is not paused again automatically for this long
+export const RESUME_GRACE_MINUTES = 60;
+
+export class ChannelPause {
+  private notifications: NotificationService;
+
+  constructor(private app: FastifyInstance) {
+    this.notifications = new NotificationService(app);
+  }
+
+  /**
+   * Pause the channel and its running campaigns, remembering which campaigns
+   * to resume later. Returns null when the channel was already paused.
+   */
+  async pause(tenantId: string, channel: string, reason: string): Promise<any | null> {
+    const paused = await this.app.db.queryOne(
+      `INSERT INTO channel_health (tenant_id, channel, is_paused, paused_reason, paused_at)
+       VALUES ($1, $2, true, $3, NOW())
+       ON CONFLICT (tenant_id, channel) DO UPDATE SET
+         is_paused = true, paused_reason = EXCLUDED.paused_reason, paused_at = NOW(), resume_at = NULL
+       WHERE channel_health.is_paused = false
+       RETURNING id`,
+      [tenantId, channel, reason]
+    );
+    if (!paused) return null;
+
+    const campaigns = await this.app.db.queryMany(
+      `UPDATE campaigns SET status = 'paused'
+       WHERE tenant_id = $1 AND channel = $2 AND status = 'running'
+       RETURNING id, name`,
+      [tenantId, channel]
+    );
+
+    const row = await this.app.db.queryOne(
+      'UPDATE channel_health SET paused_campaigns = $2 WHERE id = $1 RETURNING *',
+      [paused.id, JSON.stringify(campaigns.map((campaign) => campaign.id))]
+    );
+
+    queueLogger.warn({ tenantId, channel, reason, campaigns: campaigns.length }, 'Channel paused');
+
+    this.app.broadcastToTenant(tenantId, 'channel:paused', { channel, reason, campaigns: campaigns.length });
+    await this.notifyAdmins(tenantId, {
+      type: 'channel_paused',
+      title: `${channel} sending paused`,
+      message: campaigns.length > 0 ? `${reason}. ${campaigns.length} running campaign(s) were paused.` : reason,
+      data: { channel, reason, campaignIds: campaigns.map((campaign) => campaign.id) },
+    });
+
+    return row;
+  }
+
+  /**
+   * Resume a paused channel now or, with a cooldown, once it has passed.
+   * Returns null when the channel is not paused.
+   */
+  async unpause(tenantId: string, channel: string, options: { cooldownMinutes?: number } = {}): Promise<any | null> {
+    const cooldownMinutes = Math.max(Number(options.cooldownMinutes) || 0, 0);
+
+    if (cooldownMinutes > 0) {
+      return this.app.db.queryOne(
+        `UPDATE channel_health SET resume_at = NOW() + make_interval(mins => $3)
+         WHERE tenant_id = $1 AND channel = $2 AND is_paused = true
+         RETURNING *`,
+        [tenantId, channel, cooldownMinutes]
+      );
+    }
+
+    return this.resume(tenantId, channel);
+  }
+
+  /**
+   * Resume channels whose cooldown has passed
+   */
+  async resumeDue(): Promise<number> {
+    const due = await this.app.db.queryMany(
+      'SELECT tenant_id, channel FROM channel_health WHERE is_paused = true AND resume_at <= NOW()'
+    );
+
+    let resumed = 0;
+    for (const { tenant_id: tenantId, channel } of due) {
+      if (await this.resume(tenantId, channel)) resumed++;
+    }
+    return resumed;
+  }
+
+  async setThreshold(tenantId: string, channel: string, threshold: number | null): Promise<any> {
+    return this.app.db.queryOne(
+      `INSERT INTO channel_health (tenant_id, channel, auto_pause_threshold)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (tenant_id, channel) DO UPDATE SET auto_pause_threshold = EXCLUDED.auto_pause_threshold
+       RETURNING *`,
+      [tenantId, channel, threshold]
+    );
+  }
+
+  // Clear the pause and restart the campaigns it paused, unless someone changed them since
+  private async resume(tenantId: string, channel: string): Promise<any | null> {
+    const row = await this.app.db.queryOne(
+      `UPDATE channel_health ch
+       SET is_paused = false, paused_reason = NULL, paused_at = NULL, resume_at = NULL,
+           resumed_at = NOW(), paused_campaigns = '[]'
+       FROM (SELECT id, paused_campaigns FROM channel_health WHERE tenant_id = $1 AND channel = $2 FOR UPDATE) AS previous
+       WHERE ch.id = previous.id AND ch.is_paused = true
+       RETURNING ch.*, previous.paused_campaigns AS resumed_campaigns`,
+      [tenantId, channel]
+    );
+    if (!row) return null;
+
+    const campaigns = await this.app.db.queryMany(
+      `UPDATE campaigns SET status = 'running'
+       WHERE id = ANY($1::uuid[]) AND tenant_id = $2 AND status = 'paused'
+       RETURNING id`,
+      [row.resumed_campaigns || [], tenantId]
+    );
+
+    // Pick up recipients returned to pending while paused
+    for (const campaign of campaigns) {
+      await this.app.addJob('messages', 'process-campaign', { campaignId: campaign.id, tenantId });
+    }
+
+    queueLogger.info({ tenantId, channel, campaigns: campaigns.length }, 'Channel resumed');
+
+    this.app.broadcastToTenant(tenantId, 'channel:resumed', { channel, campaigns: campaigns.length });
+    await this.notifyAdmins(tenantId, {
+      type: 'channel_resumed',
+      title: `${channel} sending resumed`,
+      message: campaigns.length > 0 ? `${campaigns.length} campaign(s) resumed.` : undefined,
+      data: { channel, campaignIds: campaigns.map((campaign) => campaign.id) },
+    });
+
+    return row;
+  }
+
+  private async notifyAdmins(tenantId: string, input: NotificationInput): Promise<void> {
+    const admins = await this.notifications.resolveRecipients(tenantId, { role: 'admin' });
+    await this.notifications.notify(tenantId, admins, input);
+  }
+}
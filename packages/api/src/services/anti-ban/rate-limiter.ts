@@ -0,0 +1,174 @@
+// ============================================
+// Message Rate Limiter
+// Redis sliding windows over plan, channel and warm-up limits
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { config } from '../../config/index.js';
+
+export interface RateLimitRule {
+  // messages:<channel>:<window>, or messages:all:day for the plan's cap across channels
+  resource: string;
+  limit: number;
+  // Window length in seconds
+  window: number;
+  source: 'plan' | 'channel' | 'override' | 'anti_spam' | 'warmup';
+}
+
+export interface RateLimitStatus {
+  tenantId: string;
+  resource: string;
+  limit: number;
+  window: number;
+  remaining: number;
+  // When the oldest send in the window drops out and frees a slot
+  resetAt: string;
+}
+
+export type RateLimitDecision = { allowed: true } | { allowed: false; rule: RateLimitRule; retryAfter: number };
+
+const WINDOWS = { minute: 60, hour: 3600, day: 86400 } as const;
+
+const windowName = (seconds: number) =>
+  Object.entries(WINDOWS).find(([, length]) => length === seconds)?.[0] || `${seconds}s`;
+
+/**
+ * Check every window and, only if all have room, record the send in each.
+ * KEYS are one sorted set per rule; ARGV is now, the send id, then limit and
+ * window (ms) per key. Returns the 1-based index of the full window and the ms
+ * until it frees a slot, or 0 when the send was recorded.
+ */
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+for i, key in ipairs(KEYS) do
+  local limit = tonumber(ARGV[1 + i * 2])
+  local window = tonumber(ARGV[2 + i * 2])
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+  if redis.call('ZSCORE', key, ARGV[2]) == false and redis.call('ZCARD', key) >= limit then
+    local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+    if oldest[2] then return {i, tonumber(oldest[2]) + window - now} end
+    return {i, window}
+  end
+end
+for i, key in ipairs(KEYS) do
+  redis.call('ZADD', key, now, ARGV[2])
+  redis.call('PEXPIRE', key, tonumber(ARGV[2 + i * 2]))
+end
+return {0, 0}
+`;
+
+export class MessageRateLimiter {
+  constructor(private app: FastifyInstance) {}
+
+  /**
+   * Limits that apply to one channel: the plan's daily cap across channels,
+   * channel_configs overrides else the channel defaults, the anti-spam hourly
+   * pace and any warm-up cap
+   */
+  async rules(tenantId: string, channel: string): Promise<RateLimitRule[]> {
+    const [plan, channelConfig] = await Promise.all([
+      this.app.db.queryOne(
+        `SELECT COALESCE((p.limits->>'maxMessagesPerDay')::int, t.max_messages_per_day) AS per_day
+         FROM tenants t
+         LEFT JOIN plans p ON LOWER(p.name) = t.plan
+         WHERE t.id = $1`,
+        [tenantId]
+      ),
+      this.app.db.queryOne(
+        `SELECT cc.rate_limit_per_minute, cc.rate_limit_per_hour, cc.rate_limit_per_day,
+                ch.warmup_mode, ch.warmup_daily_limit
+         FROM (SELECT $1::uuid AS tenant_id, $2::text AS channel) AS c
+         LEFT JOIN channel_configs cc ON cc.tenant_id = c.tenant_id AND cc.channel = c.channel
+         LEFT JOIN channel_health ch ON ch.tenant_id = c.tenant_id AND ch.channel = c.channel`,
+        [tenantId, channel]
+      ),
+    ]);
+
+    const rules: RateLimitRule[] = [];
+    const add = (resource: string, limit: number | null | undefined, window: number, source: RateLimitRule['source']) => {
+      if (limit !== null && limit !== undefined && limit >= 0) rules.push({ resource, limit, window, source });
+    };
+    const perHour = channelConfig?.rate_limit_per_hour ?? null;
+    const perDay = channelConfig?.rate_limit_per_day ?? null;
+    const defaults = config.rateLimit.messages[channel as keyof typeof config.rateLimit.messages];
+
+    add('messages:all:day', plan?.per_day, WINDOWS.day, 'plan');
+    add(`messages:${channel}:minute`, channelConfig?.rate_limit_per_minute, WINDOWS.minute, 'override');
+
+    if (perHour !== null) {
+      add(`messages:${channel}:hour`, perHour, WINDOWS.hour, 'override');
+    } else if (config.antiSpam.enabled) {
+      add(`messages:${channel}:hour`, config.antiSpam.maxMessagesPerHour, WINDOWS.hour, 'anti_spam');
+    }
+
+    if (perDay !== null) {
+      add(`messages:${channel}:day`, perDay, WINDOWS.day, 'override');
+    } else if (defaults) {
+      add(`messages:${channel}:${windowName(defaults.window)}`, defaults.limit, defaults.window, 'channel');
+    }
+
+    if (channelConfig?.warmup_mode) {
+      add(`messages:${channel}:warmup`, channelConfig.warmup_daily_limit, WINDOWS.day, 'warmup');
+    }
+
+    return rules;
+  }
+
+  /**
+   * Take a slot in every window for one send. A retried send with the same id
+   * keeps its slot instead of taking another.
+   */
+  async acquire(tenantId: string, channel: string, sendId: string): Promise<RateLimitDecision> {
+    const rules = await this.rules(tenantId, channel);
+    if (rules.length === 0) return { allowed: true };
+
+    const [index, waitMs] = (await this.app.redis.eval(
+      ACQUIRE_SCRIPT,
+      rules.length,
+      ...rules.map((rule) => this.key(tenantId, rule)),
+      Date.now(),
+      sendId,
+      ...rules.flatMap((rule) => [rule.limit, rule.window * 1000])
+    )) as [number, number];
+
+    if (index === 0) return { allowed: true };
+    return { allowed: false, rule: rules[index - 1], retryAfter: Math.max(Math.ceil(waitMs / 1000), 1) };
+  }
+
+  /**
+   * Current usage of every window that applies to the tenant
+   */
+  async status(tenantId: string): Promise<RateLimitStatus[]> {
+    const rules = new Map<string, RateLimitRule>();
+    for (const channel of Object.keys(config.rateLimit.messages)) {
+      for (const rule of await this.rules(tenantId, channel)) rules.set(rule.resource, rule);
+    }
+
+    const now = Date.now();
+    const statuses: RateLimitStatus[] = [];
+
+    for (const rule of rules.values()) {
+      const key = this.key(tenantId, rule);
+      await this.app.redis.zremrangebyscore(key, '-inf', now - rule.window * 1000);
+      const [used, oldest] = await Promise.all([
+        this.app.redis.zcard(key),
+        this.app.redis.zrange(key, 0, 0, 'WITHSCORES'),
+      ]);
+
+      statuses.push({
+        tenantId,
+        resource: rule.resource,
+        limit: rule.limit,
+        window: rule.window,
+        remaining: Math.max(rule.limit - used, 0),
+        resetAt: new Date(oldest.length > 1 ? Number(oldest[1]) + rule.window * 1000 : now).toISOString(),
+      });
+    }
+
+    return statuses;
+  }
+
+  private key(tenantId: string, rule: RateLimitRule): string {
+    return `ratelimit:${tenantId}:${rule.resource}`;
+  }
+}
@@ -0,0 +1,153 @@
+// ============================================
+// Reputation Scoring
+// Weighted factors over a rolling 24h window per tenant channel
+// ============================================
+
+export type ReputationEventType = 'block' | 'spam_report' | 'bounce' | 'complaint';
+
+export type ReputationStatus = 'excellent' | 'good' | 'fair' | 'poor' | 'critical';
+
+export interface ReputationMetrics {
+  // Outbound messages that left the queue in the window
+  attempted: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  replies: number;
+  blocks: number;
+  spamReports: number;
+  bounces: number;
+  complaints: number;
+}
+
+export interface ReputationFactor {
+  name: string;
+  score: number;
+  weight: number;
+  description: string;
+}
+
+export interface ReputationResult {
+  score: number;
+  status: ReputationStatus;
+  factors: ReputationFactor[];
+  recommendations: string[];
+}
+
+export const REPUTATION_WINDOW_HOURS = 24;
+
+// Rates use at least this many messages, so one early failure does not sink a new channel
+const MIN_SAMPLE = 20;
+
+/**
+ * Each factor maps a rate onto 0-100; the penalty is the rate at which the
+ * factor reaches 0
+ */
+const FACTORS = [
+  { name: 'delivery', weight: 0.3, label: 'Delivery success' },
+  { name: 'bounces', weight: 0.2, label: 'Bounces' },
+  { name: 'spam', weight: 0.25, label: 'Spam reports and complaints' },
+  { name: 'blocks', weight: 0.15, label: 'Blocks' },
+  { name: 'engagement', weight: 0.1, label: 'Engagement' },
+] as const;
+
+const STATUS_THRESHOLDS: Array<[number, ReputationStatus]> = [
+  [90, 'excellent'],
+  [75, 'good'],
+  [50, 'fair'],
+  [30, 'poor'],
+];
+
+// Failure reasons from providers that signal a reputation event
+const FAILURE_PATTERNS: Array<[RegExp, ReputationEventType]> = [
+  [/unsubscribed|opted out|\bSTOP\b|21610/i, 'complaint'],
+  [/spam/i, 'spam_report'],
+  [/blocked|filtered|\(403\)|30007/i, 'block'],
+  [/bounce|dropped|undeliverable|unknown destination/i, 'bounce'],
+];
+
+/**
+ * Reputation event implied by a send failure or failed receipt, if any
+ */
+export function classifyFailure(reason?: string | null): ReputationEventType | null {
+  if (!reason) return null;
+  const match = FAILURE_PATTERNS.find(([pattern]) => pattern.test(reason));
+  return match ? match[1] : null;
+}
+
+const clamp = (value: number) => Math.round(Math.max(0, Math.min(100, value)));
+
+// Score that falls linearly from 100 at a rate of 0 to 0 at zeroAt
+const rateScore = (rate: number, zeroAt: number) => clamp(100 - (rate / zeroAt) * 100);
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export function reputationStatus(score: number): ReputationStatus {
+  return STATUS_THRESHOLDS.find(([threshold]) => score >= threshold)?.[1] || 'critical';
+}
+
+export function scoreReputation(metrics: ReputationMetrics): ReputationResult {
+  const sample = Math.max(metrics.attempted, MIN_SAMPLE);
+  const failureRate = metrics.failed / sample;
+  const bounceRate = metrics.bounces / sample;
+  const spamRate = (metrics.spamReports + metrics.complaints) / sample;
+  const blockRate = metrics.blocks / sample;
+  const engagementRate = metrics.attempted > 0 ? (metrics.read + metrics.replies) / metrics.attempted : 0;
+
+  const scores: Record<(typeof FACTORS)[number]['name'], { score: number; description: string }> = {
+    delivery: {
+      score: rateScore(failureRate, 0.25),
+      description: `${percent(failureRate)} of ${metrics.attempted} messages failed`,
+    },
+    bounces: {
+      score: rateScore(bounceRate, 0.05),
+      description: `${metrics.bounces} bounces (${percent(bounceRate)})`,
+    },
+    spam: {
+      score: rateScore(spamRate, 0.01),
+      description: `${metrics.spamReports} spam reports and ${metrics.complaints} complaints (${percent(spamRate)})`,
+    },
+    blocks: {
+      score: rateScore(blockRate, 0.02),
+      description: `${metrics.blocks} recipients blocked or filtered (${percent(blockRate)})`,
+    },
+    engagement: {
+      // No volume is neutral; otherwise 25% reads or replies earns full marks
+      score: metrics.attempted === 0 ? 100 : clamp(50 + Math.min(engagementRate / 0.25, 1) * 50),
+      description: `${percent(engagementRate)} of messages read or replied to`,
+    },
+  };
+
+  const factors = FACTORS.map((factor) => ({
+    name: factor.name,
+    weight: factor.weight,
+    score: scores[factor.name].score,
+    description: scores[factor.name].description,
+  }));
+  const score = clamp(factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0));
+
+  return { score, status: reputationStatus(score), factors, recommendations: recommend(factors) };
+}
+
+function recommend(factors: ReputationFactor[]): string[] {
+  const byName = Object.fromEntries(factors.map((factor) => [factor.name, factor.score]));
+  const recommendations: string[] = [];
+
+  if (byName.delivery < 80) {
+    recommendations.push('Many sends are failing; check the integration credentials and remove invalid numbers or addresses');
+  }
+  if (byName.bounces < 80) {
+    recommendations.push('Bounce rate is high; verify or remove bouncing contacts before the next campaign');
+  }
+  if (byName.spam < 80) {
+    recommendations.push('Recipients are reporting spam; only message leads who opted in and make opting out easy');
+  }
+  if (byName.blocks < 80) {
+    recommendations.push('Recipients or carriers are blocking messages; slow down sending and personalize content');
+  }
+  if (byName.engagement < 70) {
+    recommendations.push('Engagement is low; segment the audience and send more relevant content');
+  }
+
+  return recommendations;
+}
@@ -0,0 +1,65 @@
+// ============================================
+// Channel Warm-up
+// Graduated daily caps for new senders, paced by reputation
+// ============================================
+
+import { config } from '../../config/index.js';
+
+export interface WarmupState {
+  day: number;
+  curve: number[];
+  // When the day last moved, or warm-up started
+  changedAt: Date;
+}
+
+export type WarmupStep =
+  | { action: 'advance' | 'fallback'; day: number; dailyLimit: number }
+  | { action: 'graduate' }
+  | { action: 'hold' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A channel falls back at most one step per hour
+const FALLBACK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * The channel's own curve when one was set, else the configured default
+ */
+export function warmupCurve(raw?: any): number[] {
+  const curve = (typeof raw === 'string' ? JSON.parse(raw) : raw) || config.antiSpam.warmup.curve;
+  return [...curve];
+}
+
+/**
+ * Validate a warm-up curve, returning an error message or null
+ */
+export function validateWarmupCurve(curve: any): string | null {
+  if (!Array.isArray(curve) || curve.length === 0) return 'Warm-up curve must be a non-empty array of daily limits';
+  if (!curve.every((limit) => Number.isInteger(limit) && limit > 0)) {
+    return 'Warm-up daily limits must be positive whole numbers';
+  }
+  return null;
+}
+
+/**
+ * Decide how a warming channel moves. A healthy channel advances a day once
+ * a full day has passed on the current step and graduates past the end of
+ * the curve; a reputation spike falls back a step.
+ */
+export function nextWarmupStep(state: WarmupState, score: number, now = new Date()): WarmupStep {
+  const elapsed = now.getTime() - state.changedAt.getTime();
+  const { advanceScore, fallbackScore } = config.antiSpam.warmup;
+
+  if (score < fallbackScore) {
+    if (state.day === 0 || elapsed < FALLBACK_INTERVAL_MS) return { action: 'hold' };
+    const day = state.day - 1;
+    return { action: 'fallback', day, dailyLimit: state.curve[day] };
+  }
+
+  if (score >= advanceScore && elapsed >= DAY_MS) {
+    const day = state.day + 1;
+    if (day >= state.curve.length) return { action: 'graduate' };
+    return { action: 'advance', day, dailyLimit: state.curve[day] };
+  }
+
+  return { action: 'hold' };
+}
@@ -0,0 +1,290 @@
+// ============================================
+// Campaign A/B Testing
+// Variant assignment, per-variant results and winner selection
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { campaignLogger } from '../../utils/logger.js';
+import { ProcessCampaignJob } from './campaign-executor.js';
+
+export type WinningCriteria = 'open_rate' | 'click_rate' | 'reply_rate';
+
+export interface VariantResult {
+  index: number;
+  id: string;
+  name: string;
+  templateId: string;
+  recipients: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  clicked: number;
+  failed: number;
+  // Winning metric over sent messages
+  rate: number;
+}
+
+export interface ABTestResults {
+  criteria: WinningCriteria;
+  status: 'testing' | 'decided';
+  testEndsAt?: string;
+  variants: VariantResult[];
+  leader: number | null;
+  winner: number | null;
+  decidedAt?: string;
+  // Two-proportion z-test between the leader and the runner-up
+  pValue: number | null;
+  significant: boolean;
+}
+
+export interface SelectWinnerJob {
+  campaignId: string;
+  tenantId: string;
+}
+
+// Two-sided significance threshold
+const SIGNIFICANCE_LEVEL = 0.05;
+
+const METRIC_COLUMN: Record<WinningCriteria, 'read' | 'clicked' | 'replied'> = {
+  open_rate: 'read',
+  click_rate: 'clicked',
+  reply_rate: 'replied',
+};
+
+// Abramowitz-Stegun approximation, accurate to ~1e-7
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value for the difference between two conversion rates
+ */
+export function twoProportionPValue(successA: number, totalA: number, successB: number, totalB: number): number | null {
+  if (totalA === 0 || totalB === 0) return null;
+
+  const pooled = (successA + successB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return 1;
+
+  const z = (successA / totalA - successB / totalB) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+export function isABTestEnabled(abTest: any): boolean {
+  return Boolean(abTest?.enabled && Array.isArray(abTest.variants) && abTest.variants.length >= 2);
+}
+
+/**
+ * Validate an ABTestConfig payload, returning an error message or null
+ */
+export function validateABTest(abTest: any): string | null {
+  if (!abTest?.enabled) return null;
+
+  if (!Array.isArray(abTest.variants) || abTest.variants.length < 2) {
+    return 'A/B test needs at least two variants';
+  }
+  if (abTest.variants.some((v: any) => !v?.templateId)) {
+    return 'Every A/B variant needs a templateId';
+  }
+  if (abTest.variants.some((v: any) => !(Number(v.percentage) > 0))) {
+    return 'A/B variant percentages must be positive';
+  }
+  if (!(Number(abTest.testPercentage) > 0 && Number(abTest.testPercentage) <= 100)) {
+    return 'A/B testPercentage must be between 1 and 100';
+  }
+  if (!(abTest.winningCriteria in METRIC_COLUMN)) {
+    return `A/B winningCriteria must be one of ${Object.keys(METRIC_COLUMN).join(', ')}`;
+  }
+  if (!(Number(abTest.testDuration) > 0)) {
+    return 'A/B testDuration (hours) must be positive';
+  }
+  return null;
+}
+
+export class ABTestService {
+  constructor(private app: FastifyInstance) {}
+
+  /**
+   * Split the materialised audience: a random test cohort is divided between
+   * variants by their percentages, the rest is held back for the winner.
+   */
+  async assignVariants(campaign: any): Promise<void> {
+    const abTest = campaign.ab_test;
+    const total = await this.app.db.queryOne(
+      'SELECT COUNT(*) FROM campaign_recipients WHERE campaign_id = $1',
+      [campaign.id]
+    );
+    const audience = parseInt(total?.count || '0');
+    const cohort = Math.max(Math.min(audience, abTest.variants.length), Math.round((audience * abTest.testPercentage) / 100));
+
+    // Cumulative row cut-offs per variant, normalised to the cohort size
+    const weights: number[] = abTest.variants.map((v: any) => Number(v.percentage));
+    const weightSum = weights.reduce((sum, w) => sum + w, 0);
+    let running = 0;
+    const cutoffs = weights.map((w) => {
+      running += w;
+      return Math.round((cohort * running) / weightSum);
+    });
+
+    const variantCase = cutoffs
+      .map((cutoff, index) => `WHEN rn <= ${cutoff} THEN ${index}`)
+      .join(' ');
+
+    await this.app.db.query(
+      `WITH ranked AS (
+         SELECT id, row_number() OVER (ORDER BY random()) AS rn
+         FROM campaign_recipients WHERE campaign_id = $1
+       )
+       UPDATE campaign_recipients cr
+       SET in_test_cohort = ranked.rn <= $2,
+           variant_index = CASE ${variantCase} ELSE NULL END,
+           status = CASE WHEN ranked.rn <= $2 THEN 'pending' ELSE 'held' END
+       FROM ranked
+       WHERE cr.id = ranked.id`,
+      [campaign.id, cohort]
+    );
+
+    const testEndsAt = new Date(Date.now() + Number(abTest.testDuration) * 3600000);
+    await this.app.db.query(
+      `UPDATE campaigns SET ab_test = ab_test || $2::jsonb WHERE id = $1`,
+      [campaign.id, JSON.stringify({ testEndsAt: testEndsAt.toISOString() })]
+    );
+
+    // Nothing is held back when the whole audience is in the test
+    if (cohort < audience) {
+      await this.app.addJob(
+        'messages',
+        'select-ab-winner',
+        { campaignId: campaign.id, tenantId: campaign.tenant_id } as SelectWinnerJob,
+        { delay: testEndsAt.getTime() - Date.now() }
+      );
+    }
+
+    campaignLogger.info({ campaignId: campaign.id, audience, cohort }, 'A/B test cohort assigned');
+  }
+
+  async getResults(campaign: any): Promise<ABTestResults | null> {
+    const abTest = campaign.ab_test;
+    if (!isABTestEnabled(abTest)) return null;
+
+    const rows = await this.app.db.queryMany(
+      `SELECT variant_index,
+              COUNT(*) AS recipients,
+              COUNT(sent_at) AS sent,
+              COUNT(delivered_at) AS delivered,
+              COUNT(read_at) AS read,
+              COUNT(replied_at) AS replied,
+              COUNT(clicked_at) AS clicked,
+              COUNT(*) FILTER (WHERE status = 'failed') AS failed
+       FROM campaign_recipients
+       WHERE campaign_id = $1 AND in_test_cohort = true
+       GROUP BY variant_index`,
+      [campaign.id]
+    );
+
+    const criteria: WinningCriteria = abTest.winningCriteria in METRIC_COLUMN ? abTest.winningCriteria : 'reply_rate';
+    const metric = METRIC_COLUMN[criteria];
+
+    const variants: VariantResult[] = abTest.variants.map((variant: any, index: number) => {
+      const row = rows.find((r) => Number(r.variant_index) === index) || {};
+      const count = (key: string) => parseInt(row[key] || '0');
+      const sent = count('sent');
+      return {
+        index,
+        id: variant.id,
+        name: variant.name,
+        templateId: variant.templateId,
+        recipients: count('recipients'),
+        sent,
+        delivered: count('delivered'),
+        read: count('read'),
+        replied: count('replied'),
+        clicked: count('clicked'),
+        failed: count('failed'),
+        rate: sent > 0 ? count(metric) / sent : 0,
+      };
+    });
+
+    // Highest rate leads; ties go to the earlier variant
+    const ranked = [...variants].sort((a, b) => b.rate - a.rate || a.index - b.index);
+    const [leader, runnerUp] = ranked;
+    const pValue = leader.sent > 0
+      ? twoProportionPValue(leader[metric], leader.sent, runnerUp[metric], runnerUp.sent)
+      : null;
+
+    const winner = abTest.winner;
+    return {
+      criteria,
+      status: winner ? 'decided' : 'testing',
+      testEndsAt: abTest.testEndsAt,
+      variants,
+      leader: leader.sent > 0 ? leader.index : null,
+      winner: winner ? winner.index : null,
+      decidedAt: winner?.decidedAt,
+      pValue,
+      significant: pValue !== null && pValue < SIGNIFICANCE_LEVEL,
+    };
+  }
+
+  /**
+   * End of the test window: pick the best variant and release the held
+   * audience to it. A non-significant result still picks the leader.
+   */
+  async selectWinner({ campaignId, tenantId }: SelectWinnerJob): Promise<void> {
+    const campaign = await this.app.db.queryOne(
+      'SELECT * FROM campaigns WHERE id = $1 AND tenant_id = $2',
+      [campaignId, tenantId]
+    );
+
+    if (!campaign || campaign.ab_test?.winner || ['cancelled', 'completed'].includes(campaign.status)) {
+      return;
+    }
+
+    const results = await this.getResults(campaign);
+    if (!results) return;
+
+    const winner = results.leader ?? 0;
+    await this.app.db.query(
+      `UPDATE campaigns SET ab_test = ab_test || $2::jsonb WHERE id = $1`,
+      [
+        campaignId,
+        JSON.stringify({
+          winner: {
+            index: winner,
+            variantId: results.variants[winner].id,
+            decidedAt: new Date().toISOString(),
+            pValue: results.pValue,
+            significant: results.significant,
+          },
+        }),
+      ]
+    );
+
+    const released = await this.app.db.query(
+      `UPDATE campaign_recipients SET status = 'pending', variant_index = $2
+       WHERE campaign_id = $1 AND status = 'held'`,
+      [campaignId, winner]
+    );
+
+    this.app.broadcastToTenant(tenantId, 'campaign:ab_winner', {
+      campaignId,
+      variantIndex: winner,
+      variantId: results.variants[winner].id,
+      significant: results.significant,
+    });
+
+    campaignLogger.info(
+      { campaignId, winner, pValue: results.pValue, released: released.rowCount },
+      'A/B test winner selected'
+    );
+
+    // A paused campaign sends the winner once resumed
+    if (campaign.status === 'running') {
+      await this.app.addJob('messages', 'process-campaign', { campaignId, tenantId } as ProcessCampaignJob);
+    }
+  }
+}
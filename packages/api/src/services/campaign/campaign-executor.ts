@@ -0,0 +1,407 @@
+// ============================================
+// Campaign Executor
+// Resolves campaign audiences and paces sends in batches
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { campaignLogger } from '../../utils/logger.js';
+import { leadTemplateVariables, renderTemplate } from '../../utils/template.js';
+import { buildLeadFilter } from '../../utils/lead-filter.js';
+import { jitteredDelays, seededRandom, spinContent } from '../../utils/humanize.js';
+import { ABTestService, isABTestEnabled } from './ab-testing.js';
+import { renderEmailTemplate } from '../channels/email.js';
+import { QuietHours, fromWallClock, isValidTimezone, nextSendWindow, toWallClock } from '../../utils/timezone.js';
+
+// Recipients claimed per process-campaign run
+const BATCH_SIZE = 100;
+
+// A lead is only a recipient if the campaign channel can reach it
+const CHANNEL_REACHABLE_SQL: Record<string, string> = {
+  whatsapp: '(whatsapp_number IS NOT NULL OR phone IS NOT NULL)',
+  sms: 'phone IS NOT NULL',
+  email: 'email IS NOT NULL',
+  telegram: 'telegram_chat_id IS NOT NULL',
+};
+
+export interface ProcessCampaignJob {
+  campaignId: string;
+  tenantId: string;
+}
+
+export interface SendCampaignMessageJob {
+  campaignId: string;
+  tenantId: string;
+  recipientId: string;
+}
+
+// Tenant-wide send window; lead timezones take precedence when known
+export interface SendWindow {
+  timezone: string;
+  quietHours?: QuietHours | null;
+}
+
+export class CampaignExecutor {
+  private abTests: ABTestService;
+
+  constructor(private app: FastifyInstance) {
+    this.abTests = new ABTestService(app);
+  }
+
+  /**
+   * Run one batch: materialise recipients on the first run, claim the next
+   * pending recipients within the daily limit, enqueue their sends with
+   * randomised spacing and schedule the following batch.
+   */
+  async process({ campaignId, tenantId }: ProcessCampaignJob): Promise<void> {
+    const campaign = await this.app.db.queryOne(
+      'SELECT * FROM campaigns WHERE id = $1 AND tenant_id = $2',
+      [campaignId, tenantId]
+    );
+
+    if (!campaign || campaign.status !== 'running') {
+      campaignLogger.debug({ campaignId, status: campaign?.status }, 'Campaign not running, batch skipped');
+      return;
+    }
+
+    const templates = await this.loadTemplates(campaign);
+    if (!templates) {
+      throw new Error(`Campaign ${campaignId} has no usable template`);
+    }
+
+    // Only one batch chain per campaign: a run that arrives before the
+    // scheduled batch (e.g. resume while a continuation is pending) yields.
+    // The lease is replaced by the next batch time or released below.
+    const lease = await this.app.db.queryOne(
+      `UPDATE campaigns SET next_batch_at = NOW() + INTERVAL '5 minutes'
+       WHERE id = $1 AND status = 'running'
+         AND (next_batch_at IS NULL OR next_batch_at <= NOW() + INTERVAL '5 seconds')
+       RETURNING id`,
+      [campaignId]
+    );
+
+    if (!lease) {
+      campaignLogger.debug({ campaignId }, 'Campaign batch already scheduled');
+      return;
+    }
+
+    try {
+      await this.runBatch(campaign, templates);
+    } catch (error) {
+      await this.releaseLease(campaignId);
+      throw error;
+    }
+  }
+
+  private async runBatch(campaign: any, templates: Record<string, any>): Promise<void> {
+    const campaignId = campaign.id;
+    const tenantId = campaign.tenant_id;
+
+    await this.materializeRecipients(campaign);
+
+    const sentToday = await this.app.db.queryOne(
+      `SELECT COUNT(*) FROM campaign_recipients
+       WHERE campaign_id = $1 AND queued_at >= date_trunc('day', NOW())`,
+      [campaignId]
+    );
+    const remainingToday = campaign.daily_limit
+      ? campaign.daily_limit - parseInt(sentToday?.count || '0')
+      : BATCH_SIZE;
+
+    if (remainingToday <= 0) {
+      const tomorrow = await this.app.db.queryOne(
+        `SELECT date_trunc('day', NOW()) + INTERVAL '1 day' AS at`
+      );
+      await this.scheduleNextBatch(campaign, new Date(tomorrow.at).getTime() - Date.now());
+      campaignLogger.info({ campaignId, dailyLimit: campaign.daily_limit }, 'Daily limit reached, campaign deferred');
+      return;
+    }
+
+    const recipients = await this.claimRecipients(campaignId, Math.min(BATCH_SIZE, remainingToday));
+
+    // Nothing claimable: wait for the earliest deferred recipient, otherwise
+    // the chain ends here and the last send completes the campaign
+    if (recipients.length === 0) {
+      const deferred = await this.app.db.queryOne(
+        `SELECT MIN(send_after) AS at FROM campaign_recipients WHERE campaign_id = $1 AND status = 'pending'`,
+        [campaignId]
+      );
+
+      if (deferred?.at) {
+        await this.scheduleNextBatch(campaign, Math.max(0, new Date(deferred.at).getTime() - Date.now()));
+        return;
+      }
+
+      await this.releaseLease(campaignId);
+      await this.completeIfDone(campaignId);
+      return;
+    }
+
+    const window = await this.getSendWindow(tenantId);
+    const { due, deferred } = this.splitByQuietHours(recipients, window);
+
+    if (deferred.length > 0) {
+      await this.deferRecipients(deferred.map((d) => d.recipient.recipient_id), deferred.map((d) => d.until));
+      campaignLogger.info({ campaignId, deferred: deferred.length }, 'Recipients in quiet hours deferred');
+    }
+
+    if (due.length === 0) {
+      await this.scheduleNextBatch(campaign, 0);
+      return;
+    }
+
+    // Spintax is resolved per recipient, seeded so a retried batch renders the same text
+    const personalized = due.map((recipient) => {
+      const template = templates[recipient.variant_index ?? 'default'] || templates.default;
+      const content = campaign.content_variation
+        ? spinContent(template.content, seededRandom(`${campaignId}:${recipient.recipient_id}`))
+        : template.content;
+      // Lead data is escaped inside HTML emails
+      return campaign.channel === 'email'
+        ? renderEmailTemplate(content, leadTemplateVariables(recipient))
+        : renderTemplate(content, leadTemplateVariables(recipient));
+    });
+
+    await this.app.db.query(
+      `UPDATE campaign_recipients cr SET personalized_message = p.message
+       FROM unnest($1::uuid[], $2::text[]) AS p(id, message)
+       WHERE cr.id = p.id`,
+      [due.map((r) => r.recipient_id), personalized]
+    );
+
+    // Spread sends out so a batch never hits the provider as a burst
+    const minDelay = Math.max(0, campaign.min_delay_seconds ?? 1) * 1000;
+    const maxDelay = Math.max(minDelay, (campaign.max_delay_seconds ?? 5) * 1000);
+    const delays = jitteredDelays(due.length, minDelay, maxDelay);
+
+    const jobs = due.map((recipient, i) => ({
+      name: 'send-campaign-message',
+      data: { campaignId, tenantId, recipientId: recipient.recipient_id } as SendCampaignMessageJob,
+      opts: { delay: delays[i] },
+    }));
+
+    await this.app.addBulkJobs('messages', jobs);
+    await this.scheduleNextBatch(campaign, delays[delays.length - 1] + minDelay);
+
+    campaignLogger.info({ campaignId, queued: due.length }, 'Campaign batch queued');
+  }
+
+  async getSendWindow(tenantId: string): Promise<SendWindow> {
+    const tenant = await this.app.db.queryOne('SELECT settings FROM tenants WHERE id = $1', [tenantId]);
+    const settings = tenant?.settings || {};
+
+    return {
+      timezone: isValidTimezone(settings.timezone) ? settings.timezone : 'UTC',
+      quietHours: settings.quietHours,
+    };
+  }
+
+  /**
+   * When a lead may next be messaged, or null if it can be sent now
+   */
+  quietUntil(window: SendWindow, leadTimezone?: string | null, at: Date = new Date()): Date | null {
+    const timezone = isValidTimezone(leadTimezone) ? leadTimezone : window.timezone;
+    const next = nextSendWindow(at, timezone, window.quietHours);
+    return next.getTime() > at.getTime() ? next : null;
+  }
+
+  /**
+   * Return queued recipients to the pool until their next send window
+   */
+  async deferRecipients(recipientIds: string[], until: Date[]): Promise<void> {
+    await this.app.db.query(
+      `UPDATE campaign_recipients cr SET status = 'pending', queued_at = NULL, send_after = d.until
+       FROM unnest($1::uuid[], $2::timestamptz[]) AS d(id, until)
+       WHERE cr.id = d.id`,
+      [recipientIds, until]
+    );
+  }
+
+  private splitByQuietHours(recipients: any[], window: SendWindow) {
+    const due: any[] = [];
+    const deferred: Array<{ recipient: any; until: Date }> = [];
+
+    for (const recipient of recipients) {
+      const until = this.quietUntil(window, recipient.timezone);
+      if (until) deferred.push({ recipient, until });
+      else due.push(recipient);
+    }
+
+    return { due, deferred };
+  }
+
+  /**
+   * Mark the campaign completed once no recipient is waiting to be sent
+   */
+  async completeIfDone(campaignId: string): Promise<boolean> {
+    const campaign = await this.app.db.queryOne(
+      `UPDATE campaigns SET status = 'completed', completed_at = NOW(), next_batch_at = NULL
+       WHERE id = $1 AND status = 'running'
+         AND NOT EXISTS (
+           SELECT 1 FROM campaign_recipients
+           WHERE campaign_id = $1 AND status IN ('pending', 'queued', 'held')
+         )
+       RETURNING id, tenant_id, name, channel, stats`,
+      [campaignId]
+    );
+
+    if (!campaign) return false;
+
+    this.app.broadcastToTenant(campaign.tenant_id, 'campaign:completed', {
+      campaignId,
+      stats: campaign.stats,
+    });
+
+    await this.app.eventBus.publish('campaign_completed', {
+      tenantId: campaign.tenant_id,
+      data: { campaignId, name: campaign.name, channel: campaign.channel, stats: campaign.stats },
+    });
+
+    campaignLogger.info({ campaignId }, 'Campaign completed');
+    return true;
+  }
+
+  private async releaseLease(campaignId: string): Promise<void> {
+    await this.app.db.query('UPDATE campaigns SET next_batch_at = NULL WHERE id = $1', [campaignId]);
+  }
+
+  private async scheduleNextBatch(campaign: any, delay: number): Promise<void> {
+    await this.app.db.query(
+      `UPDATE campaigns SET next_batch_at = NOW() + ($2::text || ' milliseconds')::interval WHERE id = $1`,
+      [campaign.id, String(delay)]
+    );
+
+    await this.app.addJob(
+      'messages',
+      'process-campaign',
+      { campaignId: campaign.id, tenantId: campaign.tenant_id } as ProcessCampaignJob,
+      { delay }
+    );
+  }
+
+  // Campaign template plus one per A/B variant, keyed by variant index
+  private async loadTemplates(campaign: any): Promise<Record<string, any> | null> {
+    const variants: any[] = isABTestEnabled(campaign.ab_test) ? campaign.ab_test.variants : [];
+    const ids = [campaign.template_id, ...variants.map((v) => v.templateId)].filter(Boolean);
+    if (ids.length === 0) return null;
+
+    const rows = await this.app.db.queryMany(
+      'SELECT id, content FROM message_templates WHERE id = ANY($1::uuid[]) AND (tenant_id = $2 OR is_public = true)',
+      [ids, campaign.tenant_id]
+    );
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    const templates: Record<string, any> = {};
+    if (byId.has(campaign.template_id)) templates.default = byId.get(campaign.template_id);
+
+    for (const [index, variant] of variants.entries()) {
+      const template = byId.get(variant.templateId);
+      if (!template) return null;
+      templates[index] = template;
+    }
+
+    templates.default = templates.default || templates[0];
+    return templates.default ? templates : null;
+  }
+
+  // Snapshot the audience into campaign_recipients on the first run only,
+  // so leads created mid-campaign do not join it
+  private async materializeRecipients(campaign: any): Promise<void> {
+    const existing = await this.app.db.queryOne(
+      'SELECT 1 FROM campaign_recipients WHERE campaign_id = $1 LIMIT 1',
+      [campaign.id]
+    );
+    if (existing) return;
+
+    const { where, params } = this.buildAudienceFilter(campaign);
+
+    await this.app.db.query(
+      `INSERT INTO campaign_recipients (tenant_id, campaign_id, lead_id)
+       SELECT tenant_id, $${params.length + 1}, id FROM leads
+       WHERE ${where}
+       ON CONFLICT (campaign_id, lead_id) DO NOTHING`,
+      [...params, campaign.id]
+    );
+
+    if (campaign.schedule?.sendInLocalTime && campaign.scheduled_at) {
+      await this.assignLocalSendTimes(campaign);
+    }
+
+    if (isABTestEnabled(campaign.ab_test)) {
+      await this.abTests.assignVariants(campaign);
+    }
+
+    const total = await this.app.db.queryOne(
+      'SELECT COUNT(*) FROM campaign_recipients WHERE campaign_id = $1',
+      [campaign.id]
+    );
+
+    await this.app.db.query(
+      `UPDATE campaigns SET stats = jsonb_set(COALESCE(stats, '{}'::jsonb), '{total}', to_jsonb($2::int)) WHERE id = $1`,
+      [campaign.id, parseInt(total?.count || '0')]
+    );
+
+    campaignLogger.info({ campaignId: campaign.id, total: total?.count }, 'Campaign audience resolved');
+  }
+
+  // Each recipient becomes due at the scheduled wall-clock time in its own timezone
+  private async assignLocalSendTimes(campaign: any): Promise<void> {
+    const window = await this.getSendWindow(campaign.tenant_id);
+    const scheduleTimezone = isValidTimezone(campaign.schedule.timezone) ? campaign.schedule.timezone : window.timezone;
+    const wall = toWallClock(new Date(campaign.scheduled_at), scheduleTimezone);
+
+    const zones = await this.app.db.queryMany(
+      `SELECT DISTINCT l.timezone FROM campaign_recipients cr
+       JOIN leads l ON cr.lead_id = l.id
+       WHERE cr.campaign_id = $1`,
+      [campaign.id]
+    );
+
+    for (const { timezone } of zones) {
+      const zone = isValidTimezone(timezone) ? timezone : window.timezone;
+      await this.app.db.query(
+        `UPDATE campaign_recipients cr SET send_after = $2
+         FROM leads l
+         WHERE cr.lead_id = l.id AND cr.campaign_id = $1 AND l.timezone IS NOT DISTINCT FROM $3`,
+        [campaign.id, fromWallClock(wall, zone), timezone]
+      );
+    }
+  }
+
+  // Translate CampaignAudience/LeadFilter into a WHERE clause over leads
+  private buildAudienceFilter(campaign: any): { where: string; params: any[] } {
+    const audience = campaign.audience || {};
+
+    if (audience.segmentId) {
+      campaignLogger.warn({ campaignId: campaign.id, segmentId: audience.segmentId }, 'Audience segments are not supported, using filter');
+    }
+
+    const { conditions, params } = buildLeadFilter(campaign.tenant_id, audience.filter, audience.leadIds);
+
+    const reachable = CHANNEL_REACHABLE_SQL[campaign.channel];
+    if (reachable) conditions.push(reachable);
+
+    return { where: conditions.join(' AND '), params };
+  }
+
+  // SKIP LOCKED lets concurrent runs claim disjoint recipients
+  private async claimRecipients(campaignId: string, limit: number): Promise<any[]> {
+    return this.app.db.queryMany(
+      `WITH claimed AS (
+         UPDATE campaign_recipients SET status = 'queued', queued_at = NOW()
+         WHERE id IN (
+           SELECT id FROM campaign_recipients
+           WHERE campaign_id = $1 AND status = 'pending'
+             AND (send_after IS NULL OR send_after <= NOW())
+           ORDER BY created_at
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING id, lead_id, variant_index
+       )
+       SELECT claimed.id AS recipient_id, claimed.variant_index, l.*
+       FROM claimed
+       JOIN leads l ON claimed.lead_id = l.id`,
+      [campaignId, limit]
+    );
+  }
+}
@@ -0,0 +1,60 @@
+// ============================================
+// Campaign Scheduler
+// Launches scheduled campaigns when they become due
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { campaignLogger } from '../../utils/logger.js';
+import { ProcessCampaignJob } from './campaign-executor.js';
+
+/**
+ * Local-time campaigns start early enough for the first timezone to reach
+ * the scheduled wall-clock time (UTC-12 to UTC+14); recipients in later
+ * timezones stay deferred until their own send time.
+ */
+const LOCAL_TIME_LEAD = "INTERVAL '26 hours'";
+
+export class CampaignScheduler {
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  constructor(private app: FastifyInstance) {}
+
+  async initialize(): Promise<void> {
+    this.checkInterval = setInterval(() => {
+      this.launchDueCampaigns().catch((error) => {
+        campaignLogger.error({ error }, 'Scheduled campaign check failed');
+      });
+    }, 60000); // Check every minute
+
+    campaignLogger.info('Campaign scheduler initialized');
+  }
+
+  async launchDueCampaigns(): Promise<number> {
+    // Status transition is the claim, so concurrent API instances launch each campaign once
+    const campaigns = await this.app.db.queryMany(
+      `UPDATE campaigns SET status = 'running', started_at = NOW(), updated_at = NOW()
+       WHERE status = 'scheduled'
+         AND scheduled_at - CASE WHEN (schedule->>'sendInLocalTime')::boolean THEN ${LOCAL_TIME_LEAD} ELSE INTERVAL '0' END <= NOW()
+       RETURNING id, tenant_id`
+    );
+
+    for (const campaign of campaigns) {
+      await this.app.addJob('messages', 'process-campaign', {
+        campaignId: campaign.id,
+        tenantId: campaign.tenant_id,
+      } as ProcessCampaignJob);
+
+      this.app.broadcastToTenant(campaign.tenant_id, 'campaign:started', { campaignId: campaign.id });
+      campaignLogger.info({ campaignId: campaign.id }, 'Scheduled campaign launched');
+    }
+
+    return campaigns.length;
+  }
+
+  async close(): Promise<void> {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+    }
+    campaignLogger.info('Campaign scheduler closed');
+  }
+}
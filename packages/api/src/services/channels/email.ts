@@ -0,0 +1,522 @@
+// ============================================
+// Email Providers
+// SMTP, SendGrid and Mailgun adapters
+// ============================================
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import axios, { AxiosInstance, LookupAddress } from 'axios';
+import FormData from 'form-data';
+import mime from 'mime-types';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../../config/index.js';
+import { messageLogger } from '../../utils/logger.js';
+import { renderTemplate } from '../../utils/template.js';
+import type { UserIntegration } from '../integrations.service.js';
+import type { ProviderReceipt } from './status.js';
+import type { ChannelSendResult } from './types.js';
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export interface EmailSendRequest {
+  to: string;
+  toName?: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachmentUrl?: string;
+  // Extra URL for the List-Unsubscribe header; mailto is always included
+  unsubscribeUrl?: string;
+}
+
+export interface EmailProvider {
+  readonly name: 'smtp' | 'sendgrid' | 'mailgun';
+  send(request: EmailSendRequest): Promise<ChannelSendResult>;
+}
+
+interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+interface Sender {
+  email: string;
+  name: string;
+}
+
+// ============================================
+// Content helpers
+// ============================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Content with markup is sent as HTML, anything else as plain text
+export function isHtmlContent(content: string): boolean {
+  return /<[a-z][\s\S]*>/i.test(content || '');
+}
+
+/**
+ * Render a template for an email. Inside HTML the values are escaped, so
+ * lead data shows as text instead of adding markup.
+ */
+export function renderEmailTemplate(source: string, variables: Record<string, any> = {}): string {
+  return isHtmlContent(source) ? renderTemplate(source, variables, escapeHtml) : renderTemplate(source, variables);
+}
+
+/**
+ * Build HTML and plaintext alternatives from message content.
+ * HTML content gets a stripped text part, plain content gets a minimal HTML part.
+ * Pass asHtml when the content was rendered from a template, so markup in the
+ * rendered values cannot switch a plain email to HTML.
+ */
+export function buildEmailBodies(content: string, asHtml = isHtmlContent(content)): { html: string; text: string } {
+  if (asHtml) {
+    const text = content
+      .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+      .replace(/<a [^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    return { html: content, text };
+  }
+
+  const html = escapeHtml(content)
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+  return { html, text: content };
+}
+
+function listUnsubscribeHeader(sender: Sender, unsubscribeUrl?: string): string {
+  const mailto = `<mailto:${sender.email}?subject=unsubscribe>`;
+  return unsubscribeUrl ? `<${unsubscribeUrl}>, ${mailto}` : mailto;
+}
+
+// Loopback, private, link-local, shared and multicast ranges an attachment URL may not reach
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return !NON_PUBLIC_ADDRESSES.check(mapped[1], 'ipv4');
+  return !NON_PUBLIC_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Files this API serves itself are trusted even when it runs on a private address
+function isOwnStorageUrl(url: URL): boolean {
+  return url.origin === new URL(config.apiUrl).origin;
+}
+
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Attachment URL must use http or https, got ${url.protocol}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`Attachment host ${host} is not a public address`);
+  }
+}
+
+// Resolve at connect time so a host name cannot point at an internal address
+async function publicLookup(hostname: string): Promise<LookupAddress> {
+  const addresses = await lookup(hostname, { all: true });
+  const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+  if (addresses.length === 0 || blocked) {
+    throw new Error(`Attachment host ${hostname} does not resolve to a public address`);
+  }
+  return { address: addresses[0].address, family: addresses[0].family as 4 | 6 };
+}
+
+// Download a mediaUrl so every provider can attach it the same way. Media
+// URLs come from tenants, so only public http(s) hosts are fetched.
+async function fetchAttachment(url: string): Promise<EmailAttachment> {
+  const parsed = new URL(url);
+  const trusted = isOwnStorageUrl(parsed);
+  if (!trusted) assertPublicUrl(parsed);
+
+  const response = await axios.get(url, {
+    responseType: 'arraybuffer',
+    timeout: 30000,
+    maxContentLength: MAX_ATTACHMENT_BYTES,
+    ...(trusted
+      ? {}
+      : {
+        lookup: publicLookup,
+        // Redirects are held to the same rules as the original URL
+        beforeRedirect: (options: Record<string, any>) => {
+          assertPublicUrl(new URL(`${options.protocol}//${options.hostname}`));
+        },
+      }),
+  });
+
+  const filename = decodeURIComponent(url.split('?')[0].split('/').pop() || 'attachment');
+  const contentType =
+    (response.headers['content-type'] as string | undefined)?.split(';')[0] ||
+    mime.lookup(filename) ||
+    'application/octet-stream';
+
+  return { filename, contentType, content: Buffer.from(response.data) };
+}
+
+function resolveSender(credentials: Record<string, string>): Sender {
+  const fallback = credentials.username?.includes('@') ? credentials.username : config.email.from;
+  return {
+    email: credentials.fromEmail || fallback,
+    name: credentials.fromName || config.email.fromName,
+  };
+}
+
+function providerErrorMessage(provider: string, error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as any;
+    const detail =
+      data?.errors?.map((e: any) => e.message).join(', ') ||
+      data?.message ||
+      error.message;
+    return `${provider} error${error.response?.status ? ` (${error.response.status})` : ''}: ${detail}`;
+  }
+  return `${provider} error: ${(error as Error).message}`;
+}
+
+// ============================================
+// SMTP (nodemailer)
+// ============================================
+
+export class SmtpEmailProvider implements EmailProvider {
+  readonly name = 'smtp' as const;
+  private transporter: Transporter;
+  private sender: Sender;
+
+  constructor(credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.host || !credentials.username || !credentials.password) {
+      throw new Error('SMTP integration is missing host, username or password');
+    }
+
+    const port = parseInt(credentials.port || '587');
+    this.sender = resolveSender(credentials);
+    this.transporter = nodemailer.createTransport({
+      host: credentials.host,
+      port,
+      secure: String(credentials.secure) === 'true' || port === 465,
+      auth: { user: credentials.username, pass: credentials.password },
+      connectionTimeout: options.timeoutMs || 15000,
+    });
+  }
+
+  async send(request: EmailSendRequest): Promise<ChannelSendResult> {
+    const attachment = request.attachmentUrl ? await fetchAttachment(request.attachmentUrl) : undefined;
+
+    try {
+      const info = await this.transporter.sendMail({
+        from: { name: this.sender.name, address: this.sender.email },
+        to: request.toName ? { name: request.toName, address: request.to } : request.to,
+        subject: request.subject,
+        text: request.text,
+        html: request.html,
+        headers: { 'List-Unsubscribe': listUnsubscribeHeader(this.sender, request.unsubscribeUrl) },
+        ...(attachment && { attachments: [attachment] }),
+      });
+
+      return {
+        provider: this.name,
+        providerMessageId: info.messageId.replace(/^<|>$/g, ''),
+        raw: { accepted: info.accepted, rejected: info.rejected, response: info.response },
+      };
+    } catch (error) {
+      throw new Error(`SMTP error: ${(error as Error).message}`);
+    } finally {
+      this.transporter.close();
+    }
+  }
+}
+
+// ============================================
+// SendGrid
+// ============================================
+
+export class SendGridEmailProvider implements EmailProvider {
+  readonly name = 'sendgrid' as const;
+  private http: AxiosInstance;
+  private sender: Sender;
+
+  constructor(credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.apiKey || !credentials.fromEmail) {
+      throw new Error('SendGrid integration is missing apiKey or fromEmail');
+    }
+
+    this.sender = resolveSender(credentials);
+    this.http = axios.create({
+      baseURL: (options.baseUrl || 'https://api.sendgrid.com').replace(/\/$/, ''),
+      timeout: options.timeoutMs || 15000,
+      headers: {
+        Authorization: `Bearer ${credentials.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async send(request: EmailSendRequest): Promise<ChannelSendResult> {
+    const attachment = request.attachmentUrl ? await fetchAttachment(request.attachmentUrl) : undefined;
+
+    try {
+      const response = await this.http.post('/v3/mail/send', {
+        personalizations: [{ to: [{ email: request.to, ...(request.toName && { name: request.toName }) }] }],
+        from: { email: this.sender.email, name: this.sender.name },
+        subject: request.subject,
+        // SendGrid requires text/plain before text/html
+        content: [
+          { type: 'text/plain', value: request.text },
+          { type: 'text/html', value: request.html },
+        ],
+        headers: { 'List-Unsubscribe': listUnsubscribeHeader(this.sender, request.unsubscribeUrl) },
+        ...(attachment && {
+          attachments: [{
+            content: attachment.content.toString('base64'),
+            filename: attachment.filename,
+            type: attachment.contentType,
+            disposition: 'attachment',
+          }],
+        }),
+      });
+
+      const providerMessageId = response.headers['x-message-id'];
+      if (!providerMessageId) {
+        throw new Error('SendGrid response did not include a message id');
+      }
+
+      return { provider: this.name, providerMessageId: String(providerMessageId) };
+    } catch (error) {
+      throw new Error(providerErrorMessage('SendGrid', error));
+    }
+  }
+}
+
+// ============================================
+// Mailgun
+// ============================================
+
+export class MailgunEmailProvider implements EmailProvider {
+  readonly name = 'mailgun' as const;
+  private http: AxiosInstance;
+  private domain: string;
+  private sender: Sender;
+
+  constructor(credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.apiKey || !credentials.domain) {
+      throw new Error('Mailgun integration is missing apiKey or domain');
+    }
+
+    const region = credentials.region === 'eu' ? 'https://api.eu.mailgun.net' : 'https://api.mailgun.net';
+
+    this.domain = credentials.domain;
+    this.sender = resolveSender({ fromEmail: `noreply@${credentials.domain}`, ...credentials });
+    this.http = axios.create({
+      baseURL: (options.baseUrl || region).replace(/\/$/, ''),
+      timeout: options.timeoutMs || 15000,
+      auth: { username: 'api', password: credentials.apiKey },
+    });
+  }
+
+  async send(request: EmailSendRequest): Promise<ChannelSendResult> {
+    const attachment = request.attachmentUrl ? await fetchAttachment(request.attachmentUrl) : undefined;
+
+    const form = new FormData();
+    form.append('from', `${this.sender.name} <${this.sender.email}>`);
+    form.append('to', request.toName ? `${request.toName} <${request.to}>` : request.to);
+    form.append('subject', request.subject);
+    form.append('text', request.text);
+    form.append('html', request.html);
+    form.append('h:List-Unsubscribe', listUnsubscribeHeader(this.sender, request.unsubscribeUrl));
+    if (attachment) {
+      form.append('attachment', attachment.content, {
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+      });
+    }
+
+    try {
+      const response = await this.http.post(`/v3/${this.domain}/messages`, form, {
+        headers: form.getHeaders(),
+      });
+
+      const providerMessageId = response.data?.id;
+      if (!providerMessageId) {
+        throw new Error('Mailgun response did not include a message id');
+      }
+
+      return {
+        provider: this.name,
+        providerMessageId: String(providerMessageId).replace(/^<|>$/g, ''),
+        raw: response.data,
+      };
+    } catch (error) {
+      throw new Error(providerErrorMessage('Mailgun', error));
+    }
+  }
+}
+
+// ============================================
+// Inbound parse webhooks
+// ============================================
+
+export interface EmailInboundMessage {
+  from: string;
+  fromName?: string;
+  to: string;
+  subject: string;
+  text: string;
+  providerMessageId?: string;
+  attachmentCount: number;
+}
+
+// Split "Jane Doe <jane@example.com>" into name and address
+export function parseEmailAddress(value: string): { email: string; name?: string } {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (match) {
+    return { email: match[2].trim().toLowerCase(), name: match[1].trim() || undefined };
+  }
+  return { email: value.trim().toLowerCase() };
+}
+
+// Mailgun route forward() fields
+export function parseMailgunInbound(fields: Record<string, any>): EmailInboundMessage | null {
+  const sender = fields.from || fields.sender;
+  if (!sender) return null;
+
+  const { email, name } = parseEmailAddress(String(sender));
+  const text = fields['stripped-text'] || fields['body-plain']
+    || (fields['body-html'] ? buildEmailBodies(String(fields['body-html'])).text : '');
+
+  return {
+    from: email,
+    fromName: name,
+    to: String(fields.recipient || fields.To || ''),
+    subject: String(fields.subject || ''),
+    text: String(text),
+    providerMessageId: fields['Message-Id'] ? String(fields['Message-Id']).replace(/^<|>$/g, '') : undefined,
+    attachmentCount: parseInt(fields['attachment-count'] || '0'),
+  };
+}
+
+// SendGrid Inbound Parse fields (default, non-raw mode)
+export function parseSendGridInbound(fields: Record<string, any>): EmailInboundMessage | null {
+  if (!fields.from) return null;
+
+  const { email, name } = parseEmailAddress(String(fields.from));
+  const messageId = String(fields.headers || '').match(/^Message-ID:\s*<?([^>\r\n]+)>?/im)?.[1];
+  const text = fields.text || (fields.html ? buildEmailBodies(String(fields.html)).text : '');
+
+  return {
+    from: email,
+    fromName: name,
+    to: String(fields.to || ''),
+    subject: String(fields.subject || ''),
+    text: String(text),
+    providerMessageId: messageId?.trim(),
+    attachmentCount: parseInt(fields.attachments || '0'),
+  };
+}
+
+// ============================================
+// Event webhooks (delivery receipts)
+// ============================================
+
+// Mailgun event-data; opens count as read, temporary failures are retried by Mailgun
+export function parseMailgunEvent(eventData: any): ProviderReceipt | null {
+  const providerMessageId = eventData?.message?.headers?.['message-id'];
+  if (!providerMessageId) return null;
+
+  const occurredAt = eventData.timestamp ? new Date(Number(eventData.timestamp) * 1000) : undefined;
+
+  switch (eventData.event) {
+    case 'delivered':
+      return { providerMessageId, status: 'delivered', occurredAt };
+    case 'opened':
+      return { providerMessageId, status: 'read', occurredAt };
+    case 'clicked':
+      return { providerMessageId, status: 'read', occurredAt, clicked: true };
+    case 'failed':
+      if (eventData.severity !== 'permanent') return null;
+      return {
+        providerMessageId,
+        status: 'failed',
+        occurredAt,
+        failReason: `Mailgun: ${eventData['delivery-status']?.description || eventData['delivery-status']?.message || eventData.reason || 'delivery failed'}`,
+      };
+    default:
+      return null;
+  }
+}
+
+// SendGrid event webhook batch; sg_message_id is the X-Message-Id plus a filter suffix
+export function parseSendGridEvents(events: any[]): ProviderReceipt[] {
+  const receipts: ProviderReceipt[] = [];
+
+  for (const event of events) {
+    const providerMessageId = String(event?.sg_message_id || '').split('.')[0];
+    if (!providerMessageId) continue;
+
+    const occurredAt = event.timestamp ? new Date(Number(event.timestamp) * 1000) : undefined;
+
+    if (event.event === 'delivered') {
+      receipts.push({ providerMessageId, status: 'delivered', occurredAt });
+    } else if (event.event === 'open') {
+      receipts.push({ providerMessageId, status: 'read', occurredAt });
+    } else if (event.event === 'click') {
+      receipts.push({ providerMessageId, status: 'read', occurredAt, clicked: true });
+    } else if (event.event === 'bounce' || event.event === 'dropped') {
+      receipts.push({
+        providerMessageId,
+        status: 'failed',
+        occurredAt,
+        failReason: `SendGrid ${event.event}: ${event.reason || 'delivery failed'}`,
+        reputationEvent: 'bounce',
+      });
+    } else if (event.event === 'spamreport') {
+      // Reported as spam, so it was delivered
+      receipts.push({ providerMessageId, status: 'delivered', occurredAt, reputationEvent: 'spam_report' });
+    }
+  }
+
+  return receipts;
+}
+
+// Build the adapter for a tenant's email integration
+export function createEmailProvider(integration: UserIntegration): EmailProvider {
+  switch (integration.provider) {
+    case 'smtp':
+      return new SmtpEmailProvider(integration.credentials, integration.config);
+    case 'sendgrid':
+      return new SendGridEmailProvider(integration.credentials, integration.config);
+    case 'mailgun':
+      return new MailgunEmailProvider(integration.credentials, integration.config);
+    default:
+      messageLogger.warn({ provider: integration.provider }, 'Unsupported email provider');
+      throw new Error(`Unsupported email provider: ${integration.provider}`);
+  }
+}
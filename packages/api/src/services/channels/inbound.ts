@@ -0,0 +1,341 @@
+// ============================================
+// Inbound Message Service
+// Turns provider webhooks into leads, conversations and messages
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import type { PoolClient } from 'pg';
+import { webhookLogger } from '../../utils/logger.js';
+import { WorkflowWaitStates } from '../workflow/wait-states.js';
+
+// Lead columns that can identify an inbound sender
+export type LeadIdentityColumn =
+  | 'telegram_chat_id'
+  | 'telegram_username'
+  | 'whatsapp_number'
+  | 'phone'
+  | 'email';
+
+export interface InboundContact {
+  // Tried in order; the first column with a matching lead wins
+  identities: Partial<Record<LeadIdentityColumn, string>>;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface InboundMessageInput {
+  tenantId: string;
+  channel: 'whatsapp' | 'sms' | 'email' | 'telegram';
+  contact: InboundContact;
+  content: string;
+  contentType?: string;
+  mediaUrl?: string;
+  providerMessageId?: string;
+  // External thread id, e.g. the Telegram chat id
+  channelId?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface InboundMessageResult {
+  leadId: string;
+  conversationId: string;
+  // Null for a duplicate whose first delivery is still being stored
+  messageId: string | null;
+  duplicate: boolean;
+}
+
+const IDENTITY_ORDER: LeadIdentityColumn[] = [
+  'telegram_chat_id',
+  'whatsapp_number',
+  'phone',
+  'email',
+  'telegram_username',
+];
+
+// Phone numbers arrive in different formats per provider, so compare digits only
+function identityMatch(column: LeadIdentityColumn): string {
+  switch (column) {
+    case 'phone':
+    case 'whatsapp_number':
+      return `regexp_replace(${column}, '\\D', '', 'g') = regexp_replace($2, '\\D', '', 'g')`;
+    case 'email':
+    case 'telegram_username':
+      return `LOWER(${column}) = LOWER($2)`;
+    default:
+      return `${column} = $2`;
+  }
+}
+
+export class InboundMessageService {
+  private waitStates: WorkflowWaitStates;
+
+  constructor(private app: FastifyInstance) {
+    this.waitStates = new WorkflowWaitStates(app);
+  }
+
+  async receive(input: InboundMessageInput): Promise<InboundMessageResult> {
+    // Providers retry webhooks, so the provider id makes ingestion idempotent
+    if (input.providerMessageId) {
+      const existing = await this.findReceived(input);
+      if (existing) return existing;
+    }
+
+    const leadId = await this.resolveLead(input);
+    const conversationId = await this.resolveConversation(input, leadId);
+
+    // Claiming the provider id settles concurrent deliveries of the same webhook
+    if (input.providerMessageId) {
+      const claimed = await this.app.db.queryOne(
+        `INSERT INTO inbound_message_keys (tenant_id, channel, provider_message_id, lead_id, conversation_id)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT DO NOTHING
+         RETURNING provider_message_id`,
+        [input.tenantId, input.channel, input.providerMessageId, leadId, conversationId]
+      );
+      if (!claimed) {
+        const duplicate = await this.findReceived(input);
+        // Released by a failed first delivery; the provider retries the webhook
+        if (!duplicate) throw new Error(`Inbound message ${input.providerMessageId} is being retried`);
+        return duplicate;
+      }
+    }
+
+    const row: Record<string, any> = {
+      tenant_id: input.tenantId,
+      conversation_id: conversationId,
+      channel: input.channel,
+      direction: 'inbound',
+      content: input.content,
+      content_type: input.contentType || 'text',
+      media_url: input.mediaUrl,
+      status: 'delivered',
+      delivered_at: new Date(),
+      provider_message_id: input.providerMessageId,
+      metadata: JSON.stringify(input.metadata || {}),
+    };
+
+    let message;
+    try {
+      // The reply is counted together with the row that stops it being counted again
+      message = await this.app.db.transaction(async (client) => {
+        await this.recordCampaignReply(client, conversationId);
+
+        const columns = Object.keys(row);
+        const { rows: [created] } = await client.query(
+          `INSERT INTO messages (${columns.join(', ')})
+           VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+           RETURNING *`,
+          columns.map((column) => row[column])
+        );
+
+        if (input.providerMessageId) {
+          await client.query(
+            `UPDATE inbound_message_keys SET message_id = $4
+             WHERE tenant_id = $1 AND channel = $2 AND provider_message_id = $3`,
+            [input.tenantId, input.channel, input.providerMessageId, created.id]
+          );
+        }
+
+        return created;
+      });
+    } catch (error) {
+      // Release the claim so the provider's retry can store the message
+      if (input.providerMessageId) await this.releaseClaim(input);
+      throw error;
+    }
+
+    await this.app.db.query(
+      `UPDATE conversations
+       SET last_message_at = NOW(), last_message_preview = $1, unread_count = unread_count + 1, updated_at = NOW()
+       WHERE id = $2`,
+      [(input.content || `[${input.contentType || 'message'}]`).substring(0, 100), conversationId]
+    );
+
+    await this.app.db.query(
+      'UPDATE leads SET last_activity_at = NOW() WHERE id = $1',
+      [leadId]
+    );
+
+    const event = {
+      messageId: message.id,
+      conversationId,
+      leadId,
+      channel: input.channel,
+      content: input.content,
+      contentType: input.contentType || 'text',
+      mediaUrl: input.mediaUrl,
+      createdAt: message.created_at,
+    };
+
+    this.app.broadcastToTenant(input.tenantId, 'message:received', event);
+    this.app.broadcastToConversation(conversationId, 'message:received', event);
+
+    // Wake workflows waiting on this lead's reply
+    await this.waitStates.resumeOnReply({
+      tenantId: input.tenantId,
+      leadId,
+      channel: input.channel,
+      messageId: message.id,
+      content: input.content,
+    });
+
+    await this.app.eventBus.publish('message_received', {
+      tenantId: input.tenantId,
+      leadId,
+      data: {
+        messageId: message.id,
+        conversationId,
+        channel: input.channel,
+        content: input.content,
+        contentType: input.contentType || 'text',
+      },
+    });
+
+    webhookLogger.debug(
+      { tenantId: input.tenantId, channel: input.channel, messageId: message.id },
+      'Inbound message stored'
+    );
+
+    return { leadId, conversationId, messageId: message.id, duplicate: false };
+  }
+
+  private async findReceived(input: InboundMessageInput): Promise<InboundMessageResult | null> {
+    const existing = await this.app.db.queryOne(
+      `SELECT lead_id, conversation_id, message_id FROM inbound_message_keys
+       WHERE tenant_id = $1 AND channel = $2 AND provider_message_id = $3`,
+      [input.tenantId, input.channel, input.providerMessageId]
+    );
+    if (!existing) return null;
+
+    return {
+      leadId: existing.lead_id,
+      conversationId: existing.conversation_id,
+      messageId: existing.message_id,
+      duplicate: true,
+    };
+  }
+
+  private async releaseClaim(input: InboundMessageInput): Promise<void> {
+    await this.app.db.query(
+      'DELETE FROM inbound_message_keys WHERE tenant_id = $1 AND channel = $2 AND provider_message_id = $3',
+      [input.tenantId, input.channel, input.providerMessageId]
+    );
+  }
+
+  // Count the first reply to the latest campaign message in this conversation
+  private async recordCampaignReply(client: PoolClient, conversationId: string): Promise<void> {
+    const { rows: [last] } = await client.query(
+      `SELECT m.id, m.campaign_id FROM messages m
+       WHERE m.conversation_id = $1 AND m.direction = 'outbound' AND m.campaign_id IS NOT NULL
+         AND m.created_at > NOW() - INTERVAL '7 days'
+         AND NOT EXISTS (
+           SELECT 1 FROM messages r
+           WHERE r.conversation_id = m.conversation_id AND r.direction = 'inbound' AND r.created_at > m.created_at
+         )
+       ORDER BY m.created_at DESC
+       LIMIT 1`,
+      [conversationId]
+    );
+
+    if (!last) return;
+
+    await client.query(
+      `UPDATE campaigns
+       SET stats = jsonb_set(COALESCE(stats, '{}'::jsonb), '{replied}', to_jsonb(COALESCE((stats->>'replied')::int, 0) + 1))
+       WHERE id = $1`,
+      [last.campaign_id]
+    );
+
+    await client.query(
+      `UPDATE campaign_recipients SET status = 'replied', replied_at = NOW()
+       WHERE campaign_id = $1 AND message_id = $2 AND status <> 'converted'`,
+      [last.campaign_id, last.id]
+    );
+  }
+
+  // Find the lead by its channel identities, or create one for a new sender
+  private async resolveLead(input: InboundMessageInput): Promise<string> {
+    const { identities } = input.contact;
+
+    for (const column of IDENTITY_ORDER) {
+      const value = identities[column];
+      if (!value) continue;
+
+      const lead = await this.app.db.queryOne(
+        `SELECT id FROM leads WHERE tenant_id = $1 AND ${identityMatch(column)} AND deleted_at IS NULL
+         ORDER BY created_at LIMIT 1`,
+        [input.tenantId, value]
+      );
+
+      if (lead) {
+        await this.fillIdentities(lead.id, identities);
+        return lead.id;
+      }
+    }
+
+    const lead = await this.app.db.insert('leads', {
+      tenant_id: input.tenantId,
+      first_name: input.contact.firstName || identities.telegram_username || identities.phone || identities.email || 'Unknown',
+      last_name: input.contact.lastName || '',
+      ...identities,
+      source: input.channel,
+      status: 'new',
+      score_total: 0,
+    });
+
+    webhookLogger.info({ tenantId: input.tenantId, leadId: lead.id, channel: input.channel }, 'Lead created from inbound message');
+
+    await this.app.eventBus.publish('lead_created', {
+      tenantId: input.tenantId,
+      leadId: lead.id,
+      data: { source: input.channel },
+    });
+
+    return lead.id;
+  }
+
+  // Record identities learned from the message without overwriting existing values
+  private async fillIdentities(
+    leadId: string,
+    identities: Partial<Record<LeadIdentityColumn, string>>
+  ): Promise<void> {
+    const columns = IDENTITY_ORDER.filter((column) => identities[column]);
+    if (columns.length === 0) return;
+
+    const assignments = columns.map((column, i) => `${column} = COALESCE(${column}, $${i + 2})`);
+    await this.app.db.query(
+      `UPDATE leads SET ${assignments.join(', ')} WHERE id = $1`,
+      [leadId, ...columns.map((column) => identities[column])]
+    );
+  }
+
+  private async resolveConversation(input: InboundMessageInput, leadId: string): Promise<string> {
+    const conversation = await this.app.db.queryOne(
+      `SELECT id FROM conversations
+       WHERE tenant_id = $1 AND lead_id = $2 AND channel = $3 AND status = 'active'
+       ORDER BY last_message_at DESC NULLS LAST
+       LIMIT 1`,
+      [input.tenantId, leadId, input.channel]
+    );
+
+    if (conversation) return conversation.id;
+
+    const created = await this.app.db.insert('conversations', {
+      tenant_id: input.tenantId,
+      lead_id: leadId,
+      channel: input.channel,
+      channel_id: input.channelId,
+      status: 'active',
+      ai_enabled: true,
+      unread_count: 0,
+    });
+
+    await this.app.eventBus.publish('conversation_started', {
+      tenantId: input.tenantId,
+      leadId,
+      data: { conversationId: created.id, channel: input.channel },
+    });
+
+    return created.id;
+  }
+}
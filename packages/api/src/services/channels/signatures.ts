@@ -0,0 +1,69 @@
+// ============================================
+// Webhook Signatures
+// Verification for inbound provider webhooks
+// ============================================
+
+import { createHmac } from 'crypto';
+import { safeCompare, signToken } from '../../utils/encryption.js';
+
+// Mailgun signatures older than this are treated as replays
+const MAILGUN_MAX_AGE_SECONDS = 15 * 60;
+
+/**
+ * Token embedded in webhook URLs for providers that cannot sign requests
+ * (Evolution API, SendGrid Inbound Parse) and used as the Meta verify token.
+ */
+export function inboundWebhookToken(integrationId: string): string {
+  return signToken(`inbound:${integrationId}`);
+}
+
+export function verifyInboundToken(integrationId: string, token: unknown): boolean {
+  return typeof token === 'string' && safeCompare(token, inboundWebhookToken(integrationId));
+}
+
+/**
+ * Meta (WhatsApp Cloud API): X-Hub-Signature-256 is "sha256=" + HMAC of the raw body
+ */
+export function verifyMetaSignature(rawBody: string, header: unknown, appSecret: string): boolean {
+  if (typeof header !== 'string' || !appSecret) return false;
+
+  const expected = `sha256=${createHmac('sha256', appSecret).update(rawBody, 'utf8').digest('hex')}`;
+  return safeCompare(header, expected);
+}
+
+/**
+ * Twilio: X-Twilio-Signature is a base64 HMAC-SHA1 of the full URL
+ * followed by every POST parameter name and value, sorted by name
+ */
+export function verifyTwilioSignature(
+  url: string,
+  params: Record<string, any>,
+  header: unknown,
+  authToken: string
+): boolean {
+  if (typeof header !== 'string' || !authToken) return false;
+
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + (params[key] ?? ''), url);
+
+  const expected = createHmac('sha1', authToken).update(data, 'utf8').digest('base64');
+  return safeCompare(header, expected);
+}
+
+/**
+ * Mailgun: signature is HMAC-SHA256 of timestamp + token with the webhook signing key
+ */
+export function verifyMailgunSignature(
+  fields: { timestamp?: string; token?: string; signature?: string },
+  signingKey: string
+): boolean {
+  const { timestamp, token, signature } = fields;
+  if (!timestamp || !token || !signature || !signingKey) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > MAILGUN_MAX_AGE_SECONDS) return false;
+
+  const expected = createHmac('sha256', signingKey).update(timestamp + token).digest('hex');
+  return safeCompare(signature, expected);
+}
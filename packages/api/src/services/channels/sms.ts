@@ -0,0 +1,541 @@
+// ============================================
+// SMS Providers
+// Twilio, MSG91, Vonage, Fast2SMS and TextLocal adapters
+// ============================================
+
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../../config/index.js';
+import { messageLogger } from '../../utils/logger.js';
+import type { UserIntegration } from '../integrations.service.js';
+import type { ProviderReceipt } from './status.js';
+import type { ChannelSendResult } from './types.js';
+
+export interface SmsSendRequest {
+  to: string;
+  content: string;
+  mediaUrl?: string;
+}
+
+export interface SmsProvider {
+  readonly name: 'twilio' | 'msg91' | 'vonage' | 'fast2sms' | 'textlocal';
+  send(request: SmsSendRequest): Promise<ChannelSendResult>;
+}
+
+// ============================================
+// Segment counting
+// ============================================
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  characters: number;
+  segments: number;
+}
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+/**
+ * Count SMS segments for a body.
+ * GSM-7 bodies fit 160 chars (153 per part when concatenated), extended
+ * characters take two septets. Anything else is sent as UCS-2: 70 chars
+ * (67 per part), with astral characters taking two code units.
+ */
+export function countSmsSegments(body: string): SmsSegmentInfo {
+  let septets = 0;
+  let isGsm = true;
+
+  for (const char of body) {
+    if (GSM_BASIC.includes(char)) {
+      septets += 1;
+    } else if (GSM_EXTENDED.includes(char)) {
+      septets += 2;
+    } else {
+      isGsm = false;
+      break;
+    }
+  }
+
+  if (isGsm) {
+    return {
+      encoding: 'GSM-7',
+      characters: septets,
+      segments: septets <= 160 ? 1 : Math.ceil(septets / 153),
+    };
+  }
+
+  // UTF-16 code units, so emoji count as two
+  const units = body.length;
+  return {
+    encoding: 'UCS-2',
+    characters: units,
+    segments: units <= 70 ? 1 : Math.ceil(units / 67),
+  };
+}
+
+// ============================================
+// Error mapping
+// ============================================
+
+// Build a fail_reason string from a provider error code
+function smsFailReason(
+  provider: string,
+  code: string | number | undefined,
+  codeMap: Record<string, string>,
+  fallback?: string
+): string {
+  const mapped = code !== undefined ? codeMap[String(code)] : undefined;
+  const reason = mapped || fallback || 'Unknown provider error';
+  return code !== undefined ? `${provider} ${code}: ${reason}` : `${provider}: ${reason}`;
+}
+
+function assertSegmentLimit(provider: string, info: SmsSegmentInfo, maxSegments: number): void {
+  if (info.segments > maxSegments) {
+    throw new Error(
+      `${provider}: Message too long (${info.segments} ${info.encoding} segments, max ${maxSegments})`
+    );
+  }
+}
+
+function createHttpClient(baseURL: string, options: Record<string, any>, headers: Record<string, string> = {}): AxiosInstance {
+  return axios.create({
+    baseURL: (options.baseUrl || baseURL).replace(/\/$/, ''),
+    timeout: options.timeoutMs || 15000,
+    headers,
+  });
+}
+
+// Numbers in E.164 with leading '+'
+function toE164(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return phone.trim().startsWith('+') || digits.length > 10 ? `+${digits}` : digits;
+}
+
+// Indian gateways expect the 10-digit national number
+function toIndianNational(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length > 10 && digits.startsWith('91') ? digits.slice(-10) : digits;
+}
+
+// ============================================
+// Twilio
+// ============================================
+
+const TWILIO_ERRORS: Record<string, string> = {
+  '20003': 'Authentication failed, check Account SID and Auth Token',
+  '21211': 'Invalid destination phone number',
+  '21408': 'Destination region not enabled on the Twilio account',
+  '21606': 'From number is not a valid SMS-capable Twilio number',
+  '21610': 'Recipient has unsubscribed (replied STOP)',
+  '21612': 'Destination cannot be reached from this From number',
+  '21614': 'Destination is not a mobile number',
+  '21617': 'Message body exceeds the 1600 character limit',
+  '30003': 'Destination handset unreachable',
+  '30005': 'Unknown destination handset',
+  '30006': 'Destination is a landline or unreachable carrier',
+  '30007': 'Message filtered by carrier',
+};
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio' as const;
+  private http: AxiosInstance;
+  private statusCallbackUrl?: string;
+
+  constructor(private credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.accountSid || !credentials.authToken) {
+      throw new Error('Twilio integration is missing accountSid or authToken');
+    }
+    if (!credentials.fromNumber && !credentials.messagingServiceSid) {
+      throw new Error('Twilio integration needs a fromNumber or messagingServiceSid');
+    }
+
+    this.statusCallbackUrl = options.statusCallbackUrl;
+    this.http = createHttpClient('https://api.twilio.com', options);
+  }
+
+  async send(request: SmsSendRequest): Promise<ChannelSendResult> {
+    const info = countSmsSegments(request.content);
+    assertSegmentLimit(this.name, info, 10);
+
+    const form = new URLSearchParams({ To: toE164(request.to), Body: request.content });
+    if (this.credentials.messagingServiceSid) {
+      form.set('MessagingServiceSid', this.credentials.messagingServiceSid);
+    } else {
+      form.set('From', this.credentials.fromNumber);
+    }
+    if (request.mediaUrl) {
+      form.set('MediaUrl', request.mediaUrl);
+    }
+    if (this.statusCallbackUrl) {
+      form.set('StatusCallback', this.statusCallbackUrl);
+    }
+
+    try {
+      const response = await this.http.post(
+        `/2010-04-01/Accounts/${this.credentials.accountSid}/Messages.json`,
+        form.toString(),
+        {
+          auth: { username: this.credentials.accountSid, password: this.credentials.authToken },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        }
+      );
+
+      return {
+        provider: this.name,
+        providerMessageId: response.data.sid,
+        segments: Number(response.data.num_segments) || info.segments,
+        raw: response.data,
+      };
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? (error.response?.data as any) : undefined;
+      throw new Error(smsFailReason(this.name, data?.code, TWILIO_ERRORS, data?.message || (error as Error).message));
+    }
+  }
+}
+
+// ============================================
+// MSG91
+// ============================================
+
+const MSG91_ERRORS: Record<string, string> = {
+  '101': 'Missing mobile number',
+  '102': 'Missing message',
+  '201': 'Invalid auth key',
+  '202': 'Invalid mobile number',
+  '203': 'Invalid sender ID',
+  '207': 'Invalid auth key',
+  '208': 'IP address is blacklisted',
+  '301': 'Insufficient balance',
+  '302': 'Expired user account',
+  '303': 'Banned user account',
+  '306': 'Route not available',
+  '418': 'IP address not whitelisted',
+};
+
+export class Msg91SmsProvider implements SmsProvider {
+  readonly name = 'msg91' as const;
+  private http: AxiosInstance;
+
+  constructor(private credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.authKey || !credentials.senderId) {
+      throw new Error('MSG91 integration is missing authKey or senderId');
+    }
+
+    this.http = createHttpClient('https://api.msg91.com', options, {
+      authkey: credentials.authKey,
+      'Content-Type': 'application/json',
+    });
+  }
+
+  async send(request: SmsSendRequest): Promise<ChannelSendResult> {
+    const info = countSmsSegments(request.content);
+    assertSegmentLimit(this.name, info, 10);
+
+    const digits = request.to.replace(/\D/g, '');
+    const country = digits.length > 10 ? digits.slice(0, digits.length - 10) : '91';
+
+    try {
+      const response = await this.http.post('/api/v2/sendsms', {
+        sender: this.credentials.senderId,
+        route: this.credentials.route || '4',
+        country,
+        unicode: info.encoding === 'UCS-2' ? 1 : 0,
+        sms: [{ message: request.content, to: [digits.slice(-10)] }],
+      });
+
+      if (response.data?.type !== 'success') {
+        throw Object.assign(new Error(response.data?.message), { providerCode: response.data?.code });
+      }
+
+      return {
+        provider: this.name,
+        providerMessageId: String(response.data.message),
+        segments: info.segments,
+        raw: response.data,
+      };
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? (error.response?.data as any) : undefined;
+      const code = data?.code ?? (error as any).providerCode;
+      throw new Error(smsFailReason(this.name, code, MSG91_ERRORS, data?.message || (error as Error).message));
+    }
+  }
+}
+
+// ============================================
+// Vonage (Nexmo)
+// ============================================
+
+const VONAGE_ERRORS: Record<string, string> = {
+  '1': 'Throttled, sending rate exceeded',
+  '2': 'Missing parameters',
+  '3': 'Invalid parameters',
+  '4': 'Invalid credentials',
+  '5': 'Internal Vonage error',
+  '6': 'Invalid message, could not be routed',
+  '7': 'Destination number is barred',
+  '8': 'Partner account is barred',
+  '9': 'Insufficient account balance',
+  '12': 'Message too long',
+  '15': 'Invalid sender address',
+  '29': 'Destination not whitelisted for trial account',
+  '33': 'Destination number de-activated',
+};
+
+export class VonageSmsProvider implements SmsProvider {
+  readonly name = 'vonage' as const;
+  private http: AxiosInstance;
+
+  constructor(private credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.apiKey || !credentials.apiSecret || !credentials.fromName) {
+      throw new Error('Vonage integration is missing apiKey, apiSecret or fromName');
+    }
+
+    this.http = createHttpClient('https://rest.nexmo.com', options, {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    });
+  }
+
+  async send(request: SmsSendRequest): Promise<ChannelSendResult> {
+    const info = countSmsSegments(request.content);
+    assertSegmentLimit(this.name, info, 6);
+
+    const form = new URLSearchParams({
+      api_key: this.credentials.apiKey,
+      api_secret: this.credentials.apiSecret,
+      from: this.credentials.fromName,
+      to: request.to.replace(/\D/g, ''),
+      text: request.content,
+      type: info.encoding === 'UCS-2' ? 'unicode' : 'text',
+    });
+
+    try {
+      const response = await this.http.post('/sms/json', form.toString());
+      const parts: any[] = response.data?.messages || [];
+      const failed = parts.find((part) => part.status !== '0');
+
+      if (failed || parts.length === 0) {
+        throw Object.assign(new Error(failed?.['error-text'] || 'No message parts returned'), {
+          providerCode: failed?.status,
+        });
+      }
+
+      return {
+        provider: this.name,
+        providerMessageId: parts[0]['message-id'],
+        segments: parts.length,
+        raw: response.data,
+      };
+    } catch (error) {
+      throw new Error(smsFailReason(this.name, (error as any).providerCode, VONAGE_ERRORS, (error as Error).message));
+    }
+  }
+}
+
+// ============================================
+// Fast2SMS
+// ============================================
+
+const FAST2SMS_ERRORS: Record<string, string> = {
+  '400': 'Sender ID or route missing',
+  '401': 'Invalid sender ID',
+  '402': 'Message text missing',
+  '405': 'Numbers missing',
+  '406': 'Invalid numbers',
+  '411': 'Invalid route',
+  '412': 'Invalid API key',
+  '413': 'Account disabled',
+  '416': 'Insufficient wallet balance',
+  '424': 'Invalid DLT template',
+  '996': 'KYC pending on Fast2SMS account',
+};
+
+export class Fast2SmsProvider implements SmsProvider {
+  readonly name = 'fast2sms' as const;
+  private http: AxiosInstance;
+
+  constructor(private credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.apiKey) {
+      throw new Error('Fast2SMS integration is missing apiKey');
+    }
+
+    this.http = createHttpClient('https://www.fast2sms.com', options, {
+      authorization: credentials.apiKey,
+      'Content-Type': 'application/json',
+    });
+  }
+
+  async send(request: SmsSendRequest): Promise<ChannelSendResult> {
+    const info = countSmsSegments(request.content);
+    assertSegmentLimit(this.name, info, 6);
+
+    try {
+      const response = await this.http.post('/dev/bulkV2', {
+        route: this.credentials.senderId ? 'v3' : 'q',
+        ...(this.credentials.senderId && { sender_id: this.credentials.senderId }),
+        message: request.content,
+        language: info.encoding === 'UCS-2' ? 'unicode' : 'english',
+        flash: 0,
+        numbers: toIndianNational(request.to),
+      });
+
+      if (!response.data?.return) {
+        throw Object.assign(new Error(response.data?.message), { providerCode: response.data?.status_code });
+      }
+
+      return {
+        provider: this.name,
+        providerMessageId: response.data.request_id,
+        segments: info.segments,
+        raw: response.data,
+      };
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? (error.response?.data as any) : undefined;
+      const code = data?.status_code ?? (error as any).providerCode;
+      throw new Error(smsFailReason(this.name, code, FAST2SMS_ERRORS, data?.message || (error as Error).message));
+    }
+  }
+}
+
+// ============================================
+// TextLocal
+// ============================================
+
+const TEXTLOCAL_ERRORS: Record<string, string> = {
+  '3': 'Invalid login details',
+  '4': 'No recipients specified',
+  '5': 'No message content',
+  '6': 'Message too long',
+  '7': 'Insufficient credits',
+  '32': 'Invalid number format',
+  '33': 'Too many recipients',
+  '43': 'Invalid sender name',
+  '44': 'No sender name specified',
+  '51': 'No valid numbers specified',
+  '80': 'Message does not match an approved template',
+  '192': 'Cannot send outside permitted hours',
+};
+
+export class TextLocalSmsProvider implements SmsProvider {
+  readonly name = 'textlocal' as const;
+  private http: AxiosInstance;
+
+  constructor(private credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.apiKey || !credentials.sender) {
+      throw new Error('TextLocal integration is missing apiKey or sender');
+    }
+
+    // UK accounts live on api.txtlocal.com, Indian accounts on api.textlocal.in
+    const region = options.region === 'in' ? 'https://api.textlocal.in' : 'https://api.txtlocal.com';
+    this.http = createHttpClient(region, options, {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    });
+  }
+
+  async send(request: SmsSendRequest): Promise<ChannelSendResult> {
+    const info = countSmsSegments(request.content);
+    assertSegmentLimit(this.name, info, 6);
+
+    const form = new URLSearchParams({
+      apikey: this.credentials.apiKey,
+      sender: this.credentials.sender,
+      numbers: request.to.replace(/\D/g, ''),
+      message: request.content,
+      ...(info.encoding === 'UCS-2' && { unicode: 'true' }),
+    });
+
+    try {
+      const response = await this.http.post('/send/', form.toString());
+
+      if (response.data?.status !== 'success') {
+        const first = response.data?.errors?.[0];
+        throw Object.assign(new Error(first?.message), { providerCode: first?.code });
+      }
+
+      return {
+        provider: this.name,
+        providerMessageId: String(response.data.messages?.[0]?.id ?? response.data.batch_id),
+        segments: Number(response.data.message?.num_parts) || info.segments,
+        raw: response.data,
+      };
+    } catch (error) {
+      throw new Error(smsFailReason(this.name, (error as any).providerCode, TEXTLOCAL_ERRORS, (error as Error).message));
+    }
+  }
+}
+
+// ============================================
+// Inbound webhook parsing
+// ============================================
+
+export interface SmsInboundMessage {
+  from: string;
+  to: string;
+  providerMessageId: string;
+  text: string;
+  mediaUrls: string[];
+}
+
+// Twilio posts form fields for incoming SMS/MMS (SmsStatus "received")
+export function parseTwilioInbound(params: Record<string, string>): SmsInboundMessage | null {
+  if (!params.MessageSid || !params.From || params.Body === undefined) {
+    return null;
+  }
+
+  const mediaCount = parseInt(params.NumMedia || '0');
+  const mediaUrls = Array.from({ length: mediaCount }, (_, i) => params[`MediaUrl${i}`]).filter(Boolean);
+
+  return {
+    from: params.From,
+    to: params.To,
+    providerMessageId: params.MessageSid,
+    text: params.Body,
+    mediaUrls,
+  };
+}
+
+const TWILIO_STATUSES: Record<string, ProviderReceipt['status']> = {
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  undelivered: 'failed',
+  failed: 'failed',
+};
+
+// Twilio StatusCallback posts (no Body, MessageStatus set)
+export function parseTwilioStatus(params: Record<string, string>): ProviderReceipt | null {
+  const status = TWILIO_STATUSES[params.MessageStatus];
+  if (!params.MessageSid || !status) return null;
+
+  return {
+    providerMessageId: params.MessageSid,
+    status,
+    ...(status === 'failed' && {
+      failReason: smsFailReason('twilio', params.ErrorCode || undefined, TWILIO_ERRORS, `Message ${params.MessageStatus}`),
+    }),
+  };
+}
+
+// Build the adapter for a tenant's SMS integration
+export function createSmsProvider(integration: UserIntegration): SmsProvider {
+  switch (integration.provider) {
+    case 'twilio':
+      return new TwilioSmsProvider(integration.credentials, {
+        statusCallbackUrl: `${config.apiUrl}/api/v1/inbound/sms/twilio/${integration.id}`,
+        ...integration.config,
+      });
+    case 'msg91':
+      return new Msg91SmsProvider(integration.credentials, integration.config);
+    case 'vonage':
+      return new VonageSmsProvider(integration.credentials, integration.config);
+    case 'fast2sms':
+      return new Fast2SmsProvider(integration.credentials, integration.config);
+    case 'textlocal':
+      return new TextLocalSmsProvider(integration.credentials, integration.config);
+    default:
+      messageLogger.warn({ provider: integration.provider }, 'Unsupported SMS provider');
+      throw new Error(`Unsupported SMS provider: ${integration.provider}`);
+  }
+}
@@ -0,0 +1,270 @@
+// ============================================
+// Message Status Service
+// Applies provider delivery/read receipts to outbound messages
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { webhookLogger } from '../../utils/logger.js';
+import { ReputationEventType, classifyFailure } from '../anti-ban/reputation.js';
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface StatusUpdate {
+  tenantId: string;
+  providerMessageId: string;
+  status: ReceiptStatus;
+  occurredAt?: Date;
+  failReason?: string;
+  // Link click; implies the message was read
+  clicked?: boolean;
+  // Spam report or similar signal; failures are also classified from failReason
+  reputationEvent?: ReputationEventType;
+}
+
+// Normalized receipt parsed from a provider callback
+export interface ProviderReceipt {
+  providerMessageId: string;
+  status: ReceiptStatus;
+  occurredAt?: Date;
+  failReason?: string;
+  clicked?: boolean;
+  reputationEvent?: ReputationEventType;
+}
+
+/**
+ * Lifecycle rank used to order receipts. A receipt only applies when it
+ * moves the message forward, so retries and late callbacks are no-ops.
+ * failed shares a rank with delivered: it can replace sent, never read.
+ */
+const STATUS_RANK_SQL = `CASE status
+  WHEN 'pending' THEN 0 WHEN 'queued' THEN 1 WHEN 'sending' THEN 2 WHEN 'sent' THEN 3
+  WHEN 'delivered' THEN 4 WHEN 'failed' THEN 4 WHEN 'read' THEN 5 ELSE 0 END`;
+
+const STATUS_RANK: Record<ReceiptStatus, number> = {
+  sent: 3,
+  delivered: 4,
+  failed: 4,
+  read: 5,
+};
+
+// Receipts for ids no send ever records, e.g. messages sent from the phone, are dropped after this
+const PENDING_RECEIPT_TTL_HOURS = 24;
+
+export class MessageStatusService {
+  constructor(private app: FastifyInstance) {}
+
+  async apply(update: StatusUpdate): Promise<boolean> {
+    const occurredAt = update.occurredAt || new Date();
+
+    // Clicks are counted even when the read receipt itself is stale
+    const clicked = update.clicked ? await this.recordClick(update.tenantId, update.providerMessageId, occurredAt) : false;
+
+    // Like clicks, reputation signals count even when the status is stale
+    const reputationEvent = update.reputationEvent || (update.status === 'failed' ? classifyFailure(update.failReason) : null);
+    if (reputationEvent) {
+      await this.app.antiBanService.recordForMessage(
+        update.tenantId,
+        { providerMessageId: update.providerMessageId },
+        reputationEvent,
+        { reason: update.failReason }
+      );
+    }
+
+    // Row lock + rank check in one statement keeps concurrent callbacks ordered
+    const row = await this.app.db.queryOne(
+      `WITH current AS (
+         SELECT id, created_at, status AS previous_status
+         FROM messages
+         WHERE tenant_id = $1 AND provider_message_id = $2 AND direction = 'outbound'
+           AND (${STATUS_RANK_SQL}) < $4
+         ORDER BY created_at DESC
+         LIMIT 1
+         FOR UPDATE
+       )
+       UPDATE messages m
+       SET status = $3,
+           sent_at = COALESCE(m.sent_at, $5),
+           delivered_at = CASE WHEN $3 IN ('delivered', 'read') THEN COALESCE(m.delivered_at, $5) ELSE m.delivered_at END,
+           read_at = CASE WHEN $3 = 'read' THEN COALESCE(m.read_at, $5) ELSE m.read_at END,
+           failed_at = CASE WHEN $3 = 'failed' THEN $5 ELSE m.failed_at END,
+           fail_reason = CASE WHEN $3 = 'failed' THEN $6 ELSE m.fail_reason END
+       FROM current
+       WHERE m.id = current.id AND m.created_at = current.created_at
+       RETURNING m.id, m.conversation_id, m.campaign_id, current.previous_status`,
+      [
+        update.tenantId,
+        update.providerMessageId,
+        update.status,
+        STATUS_RANK[update.status],
+        occurredAt,
+        update.failReason || null,
+      ]
+    );
+
+    if (!row) {
+      // A fast provider can report back before the send has stored its id
+      if (!(await this.isKnown(update.tenantId, update.providerMessageId))) {
+        await this.hold(update, occurredAt);
+        return clicked;
+      }
+
+      webhookLogger.debug(
+        { providerMessageId: update.providerMessageId, status: update.status },
+        'Receipt ignored (stale status)'
+      );
+      return clicked;
+    }
+
+    const event = {
+      messageId: row.id,
+      conversationId: row.conversation_id,
+      status: update.status,
+      previousStatus: row.previous_status,
+      timestamp: occurredAt.toISOString(),
+      ...(update.failReason && { failReason: update.failReason }),
+    };
+
+    this.app.broadcastToTenant(update.tenantId, 'message:status', event);
+    this.app.broadcastToConversation(row.conversation_id, 'message:status', event);
+
+    if (row.campaign_id) {
+      await this.rollUpCampaign(row.campaign_id, row.id, row.previous_status, update.status, occurredAt, update.failReason);
+    }
+
+    return true;
+  }
+
+  async applyAll(tenantId: string, receipts: ProviderReceipt[]): Promise<number> {
+    let applied = 0;
+    for (const receipt of receipts) {
+      if (await this.apply({ tenantId, ...receipt })) applied++;
+    }
+    return applied;
+  }
+
+  /**
+   * Apply receipts held for a provider id, once the send has stored it
+   */
+  async applyPending(tenantId: string, providerMessageId: string): Promise<number> {
+    const held = await this.app.db.queryMany(
+      `DELETE FROM pending_receipts WHERE tenant_id = $1 AND provider_message_id = $2
+       RETURNING status, occurred_at, fail_reason, clicked, reputation_event`,
+      [tenantId, providerMessageId]
+    );
+
+    held.sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+
+    let applied = 0;
+    for (const receipt of held) {
+      const updated = await this.apply({
+        tenantId,
+        providerMessageId,
+        status: receipt.status,
+        occurredAt: new Date(receipt.occurred_at),
+        failReason: receipt.fail_reason || undefined,
+        clicked: receipt.clicked,
+        reputationEvent: receipt.reputation_event || undefined,
+      });
+      if (updated) applied++;
+    }
+    return applied;
+  }
+
+  private async isKnown(tenantId: string, providerMessageId: string): Promise<boolean> {
+    const message = await this.app.db.queryOne(
+      `SELECT 1 FROM messages WHERE tenant_id = $1 AND provider_message_id = $2 AND direction = 'outbound' LIMIT 1`,
+      [tenantId, providerMessageId]
+    );
+    return Boolean(message);
+  }
+
+  // Keep an early receipt until the send stores its provider id
+  private async hold(update: StatusUpdate, occurredAt: Date): Promise<void> {
+    await this.app.db.query(
+      `DELETE FROM pending_receipts WHERE created_at < NOW() - make_interval(hours => $1)`,
+      [PENDING_RECEIPT_TTL_HOURS]
+    );
+    await this.app.db.insert('pending_receipts', {
+      tenant_id: update.tenantId,
+      provider_message_id: update.providerMessageId,
+      status: update.status,
+      occurred_at: occurredAt,
+      fail_reason: update.failReason || null,
+      clicked: Boolean(update.clicked),
+      reputation_event: update.reputationEvent || null,
+    });
+
+    webhookLogger.debug(
+      { providerMessageId: update.providerMessageId, status: update.status },
+      'Receipt held until its message is known'
+    );
+
+    // The id may have landed between the lookup and the insert
+    if (await this.isKnown(update.tenantId, update.providerMessageId)) {
+      await this.applyPending(update.tenantId, update.providerMessageId);
+    }
+  }
+
+  // First click per campaign recipient feeds stats.clicked and A/B click rates
+  private async recordClick(tenantId: string, providerMessageId: string, occurredAt: Date): Promise<boolean> {
+    const recipient = await this.app.db.queryOne(
+      `UPDATE campaign_recipients cr SET clicked_at = $3
+       FROM messages m
+       WHERE m.tenant_id = $1 AND m.provider_message_id = $2 AND m.direction = 'outbound'
+         AND cr.campaign_id = m.campaign_id AND cr.message_id = m.id AND cr.clicked_at IS NULL
+       RETURNING cr.campaign_id`,
+      [tenantId, providerMessageId, occurredAt]
+    );
+
+    if (!recipient) return false;
+
+    await this.app.db.query(
+      `UPDATE campaigns
+       SET stats = jsonb_set(COALESCE(stats, '{}'::jsonb), '{clicked}', to_jsonb(COALESCE((stats->>'clicked')::int, 0) + 1))
+       WHERE id = $1`,
+      [recipient.campaign_id]
+    );
+
+    return true;
+  }
+
+  private async rollUpCampaign(
+    campaignId: string,
+    messageId: string,
+    previous: string,
+    status: ReceiptStatus,
+    occurredAt: Date,
+    failReason?: string
+  ): Promise<void> {
+    const wasDelivered = previous === 'delivered' || previous === 'read';
+
+    // Funnel counters: a message read without a delivered receipt still counts as delivered
+    const increments: Record<string, number> = {};
+    if ((status === 'delivered' || status === 'read') && !wasDelivered) increments.delivered = 1;
+    if (status === 'read') increments.read = 1;
+    if (status === 'failed') increments.failed = 1;
+
+    const keys = Object.keys(increments);
+    if (keys.length > 0) {
+      const stats = keys.reduce(
+        (expr, key) =>
+          `jsonb_set(${expr}, '{${key}}', to_jsonb(COALESCE((stats->>'${key}')::int, 0) + ${increments[key]}))`,
+        `COALESCE(stats, '{}'::jsonb)`
+      );
+      await this.app.db.query(`UPDATE campaigns SET stats = ${stats} WHERE id = $1`, [campaignId]);
+    }
+
+    // Replied/converted recipients keep their later status
+    await this.app.db.query(
+      `UPDATE campaign_recipients
+       SET status = $2,
+           sent_at = COALESCE(sent_at, $3),
+           delivered_at = CASE WHEN $2 IN ('delivered', 'read') THEN COALESCE(delivered_at, $3) ELSE delivered_at END,
+           read_at = CASE WHEN $2 = 'read' THEN COALESCE(read_at, $3) ELSE read_at END,
+           failed_at = CASE WHEN $2 = 'failed' THEN $3 ELSE failed_at END,
+           fail_reason = CASE WHEN $2 = 'failed' THEN $4 ELSE fail_reason END
+       WHERE campaign_id = $1 AND message_id = $5 AND status NOT IN ('replied', 'converted')`,
+      [campaignId, status, occurredAt, failReason || null, messageId]
+    );
+  }
+}
@@ -0,0 +1,198 @@
+// ============================================
+// Telegram Provider
+// Telegram Bot API adapter and update parsing
+// ============================================
+
+import axios, { AxiosInstance } from 'axios';
+import { createHash } from 'crypto';
+import { messageLogger } from '../../utils/logger.js';
+import type { UserIntegration } from '../integrations.service.js';
+import type { ChannelSendResult, ResolvedTemplate } from './types.js';
+
+type TemplateButton = NonNullable<ResolvedTemplate['buttons']>[number];
+
+export interface TelegramSendRequest {
+  chatId: string;
+  content?: string;
+  mediaUrl?: string;
+  buttons?: TemplateButton[] | null;
+}
+
+// Normalized view of an incoming Telegram update
+export interface TelegramInboundMessage {
+  updateId: number;
+  chatId: string;
+  messageId: string;
+  username?: string;
+  firstName?: string;
+  lastName?: string;
+  text: string;
+  contentType: 'text' | 'image' | 'video' | 'audio' | 'document' | 'button';
+  fileId?: string;
+}
+
+/**
+ * Secret token Telegram echoes back in X-Telegram-Bot-Api-Secret-Token.
+ * Derived from the bot token so it rotates with the bot credentials.
+ */
+export function telegramWebhookSecret(botToken: string): string {
+  return createHash('sha256').update(`telegram-webhook:${botToken}`).digest('hex');
+}
+
+// Map template buttons to an inline keyboard, one button per row
+export function buildInlineKeyboard(buttons: TemplateButton[]): Array<Array<Record<string, string>>> {
+  const rows: Array<Array<Record<string, string>>> = [];
+
+  for (const button of buttons) {
+    if (button.type === 'url' && button.value) {
+      rows.push([{ text: button.text, url: button.value }]);
+    } else if (button.type === 'quick_reply') {
+      // callback_data is limited to 64 bytes
+      const data = Buffer.from(button.value || button.text).subarray(0, 64).toString();
+      rows.push([{ text: button.text, callback_data: data }]);
+    }
+    // Inline keyboards cannot dial numbers, so phone buttons are dropped
+  }
+
+  return rows;
+}
+
+/**
+ * Extract the sender and content from a Telegram update.
+ * Returns null for updates we do not ingest (edits, channel posts, bot chats).
+ */
+export function parseTelegramUpdate(update: any): TelegramInboundMessage | null {
+  if (update?.callback_query) {
+    const query = update.callback_query;
+    if (!query.message?.chat) return null;
+
+    return {
+      updateId: update.update_id,
+      chatId: String(query.message.chat.id),
+      messageId: `cb:${query.id}`,
+      username: query.from?.username,
+      firstName: query.from?.first_name,
+      lastName: query.from?.last_name,
+      text: query.data || '',
+      contentType: 'button',
+    };
+  }
+
+  const message = update?.message;
+  if (!message?.chat || message.chat.type !== 'private' || message.from?.is_bot) {
+    return null;
+  }
+
+  const base = {
+    updateId: update.update_id,
+    chatId: String(message.chat.id),
+    messageId: String(message.message_id),
+    username: message.from?.username,
+    firstName: message.from?.first_name,
+    lastName: message.from?.last_name,
+  };
+
+  if (message.photo?.length) {
+    // Photos arrive in several sizes; the last one is the largest
+    const largest = message.photo[message.photo.length - 1];
+    return { ...base, text: message.caption || '', contentType: 'image', fileId: largest.file_id };
+  }
+  if (message.video) {
+    return { ...base, text: message.caption || '', contentType: 'video', fileId: message.video.file_id };
+  }
+  if (message.voice || message.audio) {
+    const file = message.voice || message.audio;
+    return { ...base, text: message.caption || '', contentType: 'audio', fileId: file.file_id };
+  }
+  if (message.document) {
+    return { ...base, text: message.caption || '', contentType: 'document', fileId: message.document.file_id };
+  }
+  if (typeof message.text === 'string') {
+    return { ...base, text: message.text, contentType: 'text' };
+  }
+
+  return null;
+}
+
+// ============================================
+// Telegram Bot API
+// ============================================
+
+export class TelegramBotProvider {
+  readonly name = 'telegram_bot' as const;
+  private http: AxiosInstance;
+
+  constructor(private credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.botToken) {
+      throw new Error('Telegram integration is missing botToken');
+    }
+
+    const baseUrl = (options.baseUrl || 'https://api.telegram.org').replace(/\/$/, '');
+    this.http = axios.create({
+      baseURL: `${baseUrl}/bot${credentials.botToken}`,
+      timeout: options.timeoutMs || 15000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async send(request: TelegramSendRequest): Promise<ChannelSendResult> {
+    const keyboard = request.buttons?.length ? buildInlineKeyboard(request.buttons) : [];
+    const replyMarkup = keyboard.length > 0 ? { inline_keyboard: keyboard } : undefined;
+
+    const result = request.mediaUrl
+      ? await this.call('sendPhoto', {
+          chat_id: request.chatId,
+          photo: request.mediaUrl,
+          // Captions are capped at 1024 characters
+          ...(request.content && { caption: request.content.slice(0, 1024) }),
+          ...(replyMarkup && { reply_markup: replyMarkup }),
+        })
+      : await this.call('sendMessage', {
+          chat_id: request.chatId,
+          text: request.content || '',
+          ...(replyMarkup && { reply_markup: replyMarkup }),
+        });
+
+    // message_id is only unique within a chat
+    return {
+      provider: this.name,
+      providerMessageId: `${result.chat.id}:${result.message_id}`,
+      raw: result,
+    };
+  }
+
+  async setWebhook(url: string): Promise<void> {
+    await this.call('setWebhook', {
+      url,
+      secret_token: telegramWebhookSecret(this.credentials.botToken),
+      allowed_updates: ['message', 'callback_query'],
+    });
+  }
+
+  async answerCallbackQuery(callbackQueryId: string): Promise<void> {
+    await this.call('answerCallbackQuery', { callback_query_id: callbackQueryId });
+  }
+
+  private async call(method: string, payload: Record<string, any>): Promise<any> {
+    try {
+      const response = await this.http.post(`/${method}`, payload);
+      return response.data.result;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const data = error.response?.data as any;
+        throw new Error(`Telegram error${data?.error_code ? ` (${data.error_code})` : ''}: ${data?.description || error.message}`);
+      }
+      throw new Error(`Telegram error: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Build the adapter for a tenant's Telegram integration
+export function createTelegramProvider(integration: UserIntegration): TelegramBotProvider {
+  if (integration.provider !== 'telegram_bot') {
+    messageLogger.warn({ provider: integration.provider }, 'Unsupported Telegram provider');
+    throw new Error(`Unsupported Telegram provider: ${integration.provider}`);
+  }
+
+  return new TelegramBotProvider(integration.credentials, integration.config);
+}
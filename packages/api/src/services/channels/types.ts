@@ -0,0 +1,26 @@
+// ============================================
+// Channel Provider Types
+// Shared contracts for outbound channel adapters
+// ============================================
+
+// Result of a successful provider send
+export interface ChannelSendResult {
+  provider: string;
+  providerMessageId: string;
+  // Billable parts for segmented channels such as SMS
+  segments?: number;
+  raw?: any;
+}
+
+// Template reference resolved from message_templates
+export interface ResolvedTemplate {
+  id: string;
+  name: string;
+  language: string;
+  content: string;
+  variableNames: string[];
+  header?: { type: 'text' | 'image' | 'video' | 'document'; content: string } | null;
+  buttons?: Array<{ type: 'quick_reply' | 'url' | 'phone'; text: string; value?: string }> | null;
+  footer?: string | null;
+  whatsappTemplateId?: string | null;
+}
@@ -0,0 +1,438 @@
+// ============================================
+// WhatsApp Providers
+// WhatsApp Cloud API and Evolution API adapters
+// ============================================
+
+import axios, { AxiosInstance } from 'axios';
+import mime from 'mime-types';
+import { config } from '../../config/index.js';
+import { messageLogger } from '../../utils/logger.js';
+import { typingDelayMs } from '../../utils/humanize.js';
+import type { UserIntegration } from '../integrations.service.js';
+import type { ProviderReceipt } from './status.js';
+import type { ChannelSendResult, ResolvedTemplate } from './types.js';
+
+export interface WhatsAppSendRequest {
+  to: string;
+  content?: string;
+  mediaUrl?: string;
+  template?: ResolvedTemplate;
+  templateVariables?: Record<string, string>;
+}
+
+export interface WhatsAppProvider {
+  readonly name: 'cloud_api' | 'evolution_api';
+  send(request: WhatsAppSendRequest): Promise<ChannelSendResult>;
+}
+
+type WhatsAppMediaType = 'image' | 'video' | 'audio' | 'document';
+
+// Resolve WhatsApp media type from a URL's extension
+export function detectMediaType(mediaUrl: string): WhatsAppMediaType {
+  const path = mediaUrl.split('?')[0];
+  const mimeType = mime.lookup(path) || '';
+
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+// WhatsApp expects international numbers without '+' or formatting
+export function normalizeWhatsAppNumber(phone: string): string {
+  return phone.replace(/\D/g, '');
+}
+
+// Order template variables to match the template's positional parameters
+function orderedTemplateValues(
+  template: ResolvedTemplate,
+  variables: Record<string, string> = {}
+): string[] {
+  if (template.variableNames.length > 0) {
+    return template.variableNames.map((name) => variables[name] ?? '');
+  }
+
+  return Object.keys(variables)
+    .sort((a, b) => Number(a) - Number(b))
+    .map((key) => variables[key]);
+}
+
+function providerErrorMessage(provider: string, error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as any;
+    const detail =
+      data?.error?.message ||
+      data?.response?.message ||
+      data?.message ||
+      error.message;
+    const code = data?.error?.code ?? error.response?.status;
+    return `${provider} error${code ? ` (${code})` : ''}: ${Array.isArray(detail) ? detail.join(', ') : detail}`;
+  }
+  return `${provider} error: ${(error as Error).message}`;
+}
+
+// ============================================
+// WhatsApp Cloud API (Meta)
+// ============================================
+
+export class CloudApiProvider implements WhatsAppProvider {
+  readonly name = 'cloud_api' as const;
+  private http: AxiosInstance;
+  private phoneNumberId: string;
+
+  constructor(credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.accessToken || !credentials.phoneNumberId) {
+      throw new Error('WhatsApp Cloud API integration is missing accessToken or phoneNumberId');
+    }
+
+    const apiVersion = options.apiVersion || config.whatsapp.apiVersion;
+    const baseUrl = options.baseUrl || 'https://graph.facebook.com';
+
+    this.phoneNumberId = credentials.phoneNumberId;
+    this.http = axios.create({
+      baseURL: `${baseUrl.replace(/\/$/, '')}/${apiVersion}`,
+      timeout: options.timeoutMs || 15000,
+      headers: {
+        Authorization: `Bearer ${credentials.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async send(request: WhatsAppSendRequest): Promise<ChannelSendResult> {
+    const payload: Record<string, any> = {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: normalizeWhatsAppNumber(request.to),
+    };
+
+    if (request.template) {
+      payload.type = 'template';
+      payload.template = this.buildTemplate(request);
+    } else if (request.mediaUrl) {
+      const mediaType = detectMediaType(request.mediaUrl);
+      payload.type = mediaType;
+      payload[mediaType] = {
+        link: request.mediaUrl,
+        // Audio messages do not accept captions
+        ...(mediaType !== 'audio' && request.content && { caption: request.content }),
+      };
+    } else {
+      payload.type = 'text';
+      payload.text = { body: request.content || '', preview_url: true };
+    }
+
+    try {
+      const response = await this.http.post(`/${this.phoneNumberId}/messages`, payload);
+      const providerMessageId = response.data?.messages?.[0]?.id;
+
+      if (!providerMessageId) {
+        throw new Error('WhatsApp Cloud API response did not include a message id');
+      }
+
+      return { provider: this.name, providerMessageId, raw: response.data };
+    } catch (error) {
+      throw new Error(providerErrorMessage('WhatsApp Cloud API', error));
+    }
+  }
+
+  private buildTemplate(request: WhatsAppSendRequest): Record<string, any> {
+    const template = request.template!;
+
+    if (!template.whatsappTemplateId) {
+      throw new Error(`Template ${template.id} has no approved WhatsApp template`);
+    }
+
+    const components: any[] = [];
+
+    if (template.header && template.header.type !== 'text' && request.mediaUrl) {
+      components.push({
+        type: 'header',
+        parameters: [{ type: template.header.type, [template.header.type]: { link: request.mediaUrl } }],
+      });
+    }
+
+    const values = orderedTemplateValues(template, request.templateVariables);
+    if (values.length > 0) {
+      components.push({
+        type: 'body',
+        parameters: values.map((text) => ({ type: 'text', text })),
+      });
+    }
+
+    return {
+      name: template.whatsappTemplateId,
+      language: { code: template.language || 'en' },
+      ...(components.length > 0 && { components }),
+    };
+  }
+}
+
+// ============================================
+// Evolution API (self-hosted WhatsApp Web)
+// ============================================
+
+export class EvolutionApiProvider implements WhatsAppProvider {
+  readonly name = 'evolution_api' as const;
+  private http: AxiosInstance;
+  private instanceName: string;
+  // Show "typing..." for a human-like time before each message; on unless the integration turns it off
+  private simulateTyping: boolean;
+
+  constructor(credentials: Record<string, string>, options: Record<string, any> = {}) {
+    if (!credentials.apiUrl || !credentials.apiKey || !credentials.instanceName) {
+      throw new Error('Evolution API integration is missing apiUrl, apiKey or instanceName');
+    }
+
+    this.instanceName = encodeURIComponent(credentials.instanceName);
+    this.simulateTyping = options.simulateTyping !== false;
+    this.http = axios.create({
+      baseURL: credentials.apiUrl.replace(/\/$/, ''),
+      timeout: options.timeoutMs || 15000,
+      headers: {
+        apikey: credentials.apiKey,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async send(request: WhatsAppSendRequest): Promise<ChannelSendResult> {
+    const number = normalizeWhatsAppNumber(request.to);
+
+    // Evolution API has no Meta template approval flow: the content arrives already rendered
+    const text = request.content || '';
+    // Evolution holds the presence for `delay` ms before delivering
+    const delay = this.simulateTyping ? typingDelayMs(text) : undefined;
+
+    try {
+      let response;
+      if (request.mediaUrl) {
+        response = await this.http.post(`/message/sendMedia/${this.instanceName}`, {
+          number,
+          mediatype: detectMediaType(request.mediaUrl),
+          media: request.mediaUrl,
+          fileName: request.mediaUrl.split('?')[0].split('/').pop(),
+          caption: text,
+          delay,
+        });
+      } else {
+        response = await this.http.post(`/message/sendText/${this.instanceName}`, {
+          number,
+          text,
+          delay,
+        });
+      }
+
+      const providerMessageId = response.data?.key?.id;
+      if (!providerMessageId) {
+        throw new Error('Evolution API response did not include a message id');
+      }
+
+      return { provider: this.name, providerMessageId, raw: response.data };
+    } catch (error) {
+      throw new Error(providerErrorMessage('Evolution API', error));
+    }
+  }
+}
+
+// ============================================
+// Inbound webhook parsing
+// ============================================
+
+// Normalized view of an incoming WhatsApp message
+export interface WhatsAppInboundMessage {
+  from: string;
+  name?: string;
+  providerMessageId: string;
+  text: string;
+  contentType: 'text' | 'image' | 'video' | 'audio' | 'document' | 'location' | 'button';
+  // Cloud API media id, downloadable with the integration's access token
+  mediaId?: string;
+}
+
+export interface WhatsAppWebhookEvents {
+  messages: WhatsAppInboundMessage[];
+  statuses: ProviderReceipt[];
+}
+
+const CLOUD_API_STATUSES: Record<string, ProviderReceipt['status']> = {
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  failed: 'failed',
+};
+
+// Evolution reports Baileys ack levels, as names (v2) or numbers (v1)
+const EVOLUTION_STATUSES: Record<string, ProviderReceipt['status']> = {
+  ERROR: 'failed',
+  SERVER_ACK: 'sent',
+  DELIVERY_ACK: 'delivered',
+  READ: 'read',
+  PLAYED: 'read',
+  '0': 'failed',
+  '2': 'sent',
+  '3': 'delivered',
+  '4': 'read',
+  '5': 'read',
+};
+
+function cloudApiMessage(message: any, name?: string): WhatsAppInboundMessage | null {
+  const base = { from: message.from, name, providerMessageId: message.id };
+
+  switch (message.type) {
+    case 'text':
+      return { ...base, text: message.text?.body || '', contentType: 'text' };
+    case 'image':
+    case 'video':
+    case 'audio':
+    case 'document': {
+      const media = message[message.type] || {};
+      return { ...base, text: media.caption || media.filename || '', contentType: message.type, mediaId: media.id };
+    }
+    case 'voice':
+      return { ...base, text: '', contentType: 'audio', mediaId: message.voice?.id };
+    case 'location':
+      return {
+        ...base,
+        text: [message.location?.name, `${message.location?.latitude},${message.location?.longitude}`]
+          .filter(Boolean)
+          .join(' '),
+        contentType: 'location',
+      };
+    case 'button':
+      return { ...base, text: message.button?.text || '', contentType: 'button' };
+    case 'interactive': {
+      const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+      return { ...base, text: reply?.title || '', contentType: 'button' };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Extract messages and receipts from a Cloud API webhook.
+ * Changes for other phone numbers on the same app are skipped.
+ */
+export function parseCloudApiWebhook(body: any, phoneNumberId: string): WhatsAppWebhookEvents {
+  const events: WhatsAppWebhookEvents = { messages: [], statuses: [] };
+
+  for (const entry of body?.entry || []) {
+    for (const change of entry.changes || []) {
+      const value = change.value;
+      if (change.field !== 'messages' || value?.metadata?.phone_number_id !== phoneNumberId) {
+        continue;
+      }
+
+      const names = new Map<string, string>(
+        (value.contacts || []).map((contact: any) => [contact.wa_id, contact.profile?.name])
+      );
+
+      for (const message of value.messages || []) {
+        const parsed = cloudApiMessage(message, names.get(message.from));
+        if (parsed) events.messages.push(parsed);
+      }
+
+      for (const receipt of value.statuses || []) {
+        const status = CLOUD_API_STATUSES[receipt.status];
+        if (!status) continue;
+
+        const error = receipt.errors?.[0];
+        events.statuses.push({
+          providerMessageId: receipt.id,
+          status,
+          occurredAt: receipt.timestamp ? new Date(Number(receipt.timestamp) * 1000) : undefined,
+          ...(error && {
+            failReason: `WhatsApp ${error.code}: ${error.error_data?.details || error.message || error.title}`,
+          }),
+        });
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Extract messages (messages.upsert) and receipts (messages.update) from an
+ * Evolution API webhook. Our own outbound echoes and group chats are skipped.
+ */
+export function parseEvolutionWebhook(body: any): WhatsAppWebhookEvents {
+  const events: WhatsAppWebhookEvents = { messages: [], statuses: [] };
+  const event = String(body?.event || '').toLowerCase().replace(/_/g, '.');
+
+  if (event === 'messages.upsert') {
+    const items = Array.isArray(body.data) ? body.data : [body.data];
+
+    for (const item of items) {
+      const jid: string = item?.key?.remoteJid || '';
+      if (!item?.message || item.key.fromMe || !jid.endsWith('@s.whatsapp.net')) continue;
+
+      const message = item.message;
+      const base = {
+        from: jid.split('@')[0],
+        name: item.pushName,
+        providerMessageId: item.key.id,
+      };
+
+      if (message.conversation || message.extendedTextMessage) {
+        events.messages.push({
+          ...base,
+          text: message.conversation || message.extendedTextMessage.text || '',
+          contentType: 'text',
+        });
+      } else if (message.imageMessage || message.videoMessage || message.audioMessage || message.documentMessage) {
+        const type = message.imageMessage ? 'image'
+          : message.videoMessage ? 'video'
+          : message.audioMessage ? 'audio'
+          : 'document';
+        const media = message[`${type}Message`];
+        events.messages.push({
+          ...base,
+          text: media.caption || media.fileName || '',
+          contentType: type,
+        });
+      } else if (message.buttonsResponseMessage || message.listResponseMessage || message.templateButtonReplyMessage) {
+        events.messages.push({
+          ...base,
+          text: message.buttonsResponseMessage?.selectedDisplayText
+            || message.listResponseMessage?.title
+            || message.templateButtonReplyMessage?.selectedDisplayText
+            || '',
+          contentType: 'button',
+        });
+      }
+    }
+  }
+
+  if (event === 'messages.update') {
+    const items = Array.isArray(body.data) ? body.data : [body.data];
+
+    for (const item of items) {
+      const providerMessageId = item?.keyId || item?.key?.id;
+      const status = EVOLUTION_STATUSES[String(item?.status ?? item?.update?.status)];
+      if (!providerMessageId || !status) continue;
+
+      events.statuses.push({
+        providerMessageId,
+        status,
+        ...(status === 'failed' && { failReason: 'Evolution API: message delivery failed' }),
+      });
+    }
+  }
+
+  return events;
+}
+
+// Build the adapter for a tenant's WhatsApp integration
+export function createWhatsAppProvider(integration: UserIntegration): WhatsAppProvider {
+  switch (integration.provider) {
+    case 'cloud_api':
+      return new CloudApiProvider(integration.credentials, integration.config);
+    case 'evolution_api':
+      return new EvolutionApiProvider(integration.credentials, integration.config);
+    default:
+      messageLogger.warn({ provider: integration.provider }, 'Unsupported WhatsApp provider');
+      throw new Error(`Unsupported WhatsApp provider: ${integration.provider}`);
+  }
+}
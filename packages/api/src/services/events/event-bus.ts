@@ -0,0 +1,124 @@
+// ============================================
+// Domain Event Bus
+// Publishes lead, message, conversation, campaign and form events
+// ============================================
+
+import { randomUUID } from 'crypto';
+import { Worker, Job } from 'bullmq';
+import { FastifyInstance } from 'fastify';
+import { config } from '../../config/index.js';
+import { eventLogger } from '../../utils/logger.js';
+
+export type DomainEventType =
+  | 'lead_created'
+  | 'lead_updated'
+  | 'lead_scored_high'
+  | 'tag_added'
+  | 'tag_removed'
+  | 'message_received'
+  | 'message_sent'
+  | 'conversation_started'
+  | 'conversation_closed'
+  | 'campaign_completed'
+  | 'form_submitted';
+
+export interface DomainEvent {
+  id: string;
+  type: DomainEventType;
+  tenantId: string;
+  leadId?: string | null;
+  data: Record<string, any>;
+  occurredAt: string;
+}
+
+export interface PublishInput {
+  tenantId: string;
+  leadId?: string | null;
+  data?: Record<string, any>;
+}
+
+export type DomainEventHandler = (event: DomainEvent) => Promise<void>;
+
+export class DomainEventBus {
+  private worker: Worker | null = null;
+  private handlers: DomainEventHandler[] = [];
+
+  constructor(private app: FastifyInstance) {}
+
+  async initialize(): Promise<void> {
+    this.worker = new Worker(
+      'events',
+      async (job: Job) => this.deliver(job.data),
+      { concurrency: config.queue.concurrency.events }
+    );
+
+    this.worker.on('failed', (job, error) => {
+      eventLogger.error({ jobId: job?.id, event: job?.name, error }, 'Domain event delivery failed');
+    });
+
+    eventLogger.info('Domain event bus initialized');
+  }
+
+  subscribe(handler: DomainEventHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Queue an event for delivery to subscribers. Never throws, so a Redis
+   * hiccup cannot fail the request that produced the event.
+   */
+  async publish(type: DomainEventType, input: PublishInput): Promise<void> {
+    const event: DomainEvent = {
+      id: randomUUID(),
+      type,
+      tenantId: input.tenantId,
+      leadId: input.leadId || null,
+      data: input.data || {},
+      occurredAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.app.addJob('events', type, event);
+    } catch (error) {
+      eventLogger.error({ error, type, tenantId: input.tenantId }, 'Failed to publish domain event');
+    }
+  }
+
+  /**
+   * lead_updated, plus tag_added/tag_removed for each tag that changed when
+   * the previous tags are known
+   */
+  async publishLeadChanges(
+    tenantId: string,
+    lead: any,
+    changedFields: string[],
+    previousTags?: string[] | null
+  ): Promise<void> {
+    await this.publish('lead_updated', { tenantId, leadId: lead.id, data: { changedFields } });
+
+    if (!previousTags) return;
+
+    const tags: string[] = lead.tags || [];
+    for (const tag of tags.filter((t) => !previousTags.includes(t))) {
+      await this.publish('tag_added', { tenantId, leadId: lead.id, data: { tag } });
+    }
+    for (const tag of previousTags.filter((t) => !tags.includes(t))) {
+      await this.publish('tag_removed', { tenantId, leadId: lead.id, data: { tag } });
+    }
+  }
+
+  private async deliver(event: DomainEvent): Promise<void> {
+    eventLogger.debug({ eventId: event.id, type: event.type, tenantId: event.tenantId }, 'Delivering domain event');
+
+    for (const handler of this.handlers) {
+      await handler(event);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.worker) {
+      await this.worker.close();
+    }
+    eventLogger.info('Domain event bus closed');
+  }
+}
@@ -222,6 +222,21 @@ export class IntegrationsService {
     return this.mapToUserIntegration(result);
   }
 
+  /**
+   * Get an active integration by ID for provider webhooks.
+   * Not tenant-scoped: callers must verify the request signature first.
+   */
+  async getForWebhook(id: string, channel: IntegrationChannel): Promise<UserIntegration | null> {
+    const result = await this.app.db.queryOne<any>(
+      `SELECT * FROM user_integrations WHERE id = $1 AND channel = $2 AND status = 'active'`,
+      [id, channel]
+    );
+
+    if (!result) return null;
+
+    return this.mapToUserIntegration(result);
+  }
+
   /**
    * Get default integration for a channel
    */
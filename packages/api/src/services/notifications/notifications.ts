@@ -0,0 +1,83 @@
+// ============================================
+// Notifications
+// In-app notifications, stored per user and pushed over the socket
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+
+export interface NotificationInput {
+  type: string;
+  title: string;
+  message?: string;
+  data?: Record<string, any>;
+}
+
+// Who receives a notification: one user, everyone with a role, or a lead's assignee
+export interface NotificationRecipient {
+  userId?: string;
+  role?: string;
+  assigneeOf?: string;
+}
+
+export class NotificationService {
+  constructor(private app: FastifyInstance) {}
+
+  /**
+   * Active users of the tenant matching the recipient
+   */
+  async resolveRecipients(tenantId: string, recipient: NotificationRecipient): Promise<string[]> {
+    let users: any[] = [];
+
+    if (recipient.userId) {
+      users = await this.app.db.queryMany(
+        "SELECT id FROM users WHERE id = $1 AND tenant_id = $2 AND status = 'active' AND deleted_at IS NULL",
+        [recipient.userId, tenantId]
+      );
+    } else if (recipient.role) {
+      users = await this.app.db.queryMany(
+        "SELECT id FROM users WHERE role = $1 AND tenant_id = $2 AND status = 'active' AND deleted_at IS NULL",
+        [recipient.role, tenantId]
+      );
+    } else if (recipient.assigneeOf) {
+      users = await this.app.db.queryMany(
+        `SELECT u.id FROM leads l
+         JOIN users u ON u.id = l.assigned_to
+         WHERE l.id = $1 AND l.tenant_id = $2 AND u.status = 'active' AND u.deleted_at IS NULL`,
+        [recipient.assigneeOf, tenantId]
+      );
+    }
+
+    return users.map((user) => user.id);
+  }
+
+  async notify(tenantId: string, userIds: string[], input: NotificationInput): Promise<any[]> {
+    const notifications = [];
+
+    for (const userId of userIds) {
+      const notification = await this.app.db.insert('notifications', {
+        tenant_id: tenantId,
+        user_id: userId,
+        type: input.type,
+        title: input.title,
+        message: input.message || null,
+        data: JSON.stringify(input.data || {}),
+      });
+
+      this.app.broadcastToUser(userId, 'notification:new', {
+        id: notification.id,
+        tenantId,
+        userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        data: input.data || {},
+        read: false,
+        createdAt: notification.created_at,
+      });
+
+      notifications.push(notification);
+    }
+
+    return notifications;
+  }
+}
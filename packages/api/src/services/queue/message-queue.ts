@@ -3,74 +3,66 @@
 // BullMQ workers for message processing
 // ============================================
 
-import { Worker, Job } from 'bullmq';
+import { DelayedError, Worker, Job } from 'bullmq';
 import { FastifyInstance } from 'fastify';
 import { config } from '../../config/index.js';
 import { queueLogger } from '../../utils/logger.js';
+import { extractTemplateVariables, leadTemplateVariables, renderTemplate } from '../../utils/template.js';
+import { IntegrationsService, createIntegrationsService } from '../integrations.service.js';
+import { CampaignExecutor, SendCampaignMessageJob } from '../campaign/campaign-executor.js';
+import { ABTestService } from '../campaign/ab-testing.js';
+import { buildEmailBodies, createEmailProvider, isHtmlContent, renderEmailTemplate } from '../channels/email.js';
+import { createSmsProvider } from '../channels/sms.js';
+import { MessageStatusService } from '../channels/status.js';
+import { createTelegramProvider } from '../channels/telegram.js';
+import { createWhatsAppProvider } from '../channels/whatsapp.js';
+import { classifyFailure } from '../anti-ban/reputation.js';
+import type { ChannelSendResult, ResolvedTemplate } from '../channels/types.js';
+
+// Statuses a message reaches only once the provider accepted it
+const SENT_STATUSES = ['sent', 'delivered', 'read'];
+
+/**
+ * Text for providers without approved templates. Callers store the message
+ * already personalized, and spun when they opted in, so its content wins; a
+ * bare template reference is rendered here as written.
+ */
+function localContent(content: string | undefined, template: ResolvedTemplate | undefined, variables?: Record<string, any>): string {
+  if (content) return content;
+  return template ? renderTemplate(template.content, variables) : '';
+}
 
 export class MessageQueue {
   private workers: Worker[] = [];
+  private integrations: IntegrationsService;
+  private campaigns: CampaignExecutor;
+  private abTests: ABTestService;
+  private statuses: MessageStatusService;
 
-  constructor(private app: FastifyInstance) {}
+  constructor(private app: FastifyInstance) {
+    this.integrations = createIntegrationsService(app);
+    this.campaigns = new CampaignExecutor(app);
+    this.abTests = new ABTestService(app);
+    this.statuses = new MessageStatusService(app);
+  }
 
   async initialize(): Promise<void> {
     // Message sending worker
     const messageWorker = new Worker(
       'messages',
-      async (job: Job) => {
-        const { messageId, tenantId, channel, content, mediaUrl, templateId, templateVariables } = job.data;
-
-        queueLogger.debug({ messageId, channel }, 'Processing message');
-
-        try {
-          // Update message status
-          await this.app.db.query(
-            "UPDATE messages SET status = 'sending' WHERE id = $1",
-            [messageId]
-          );
-
-          // Send based on channel
-          let result;
-          switch (channel) {
-            case 'whatsapp':
-              result = await this.sendWhatsApp(messageId, tenantId, content, mediaUrl, templateId, templateVariables);
-              break;
-            case 'sms':
-              result = await this.sendSMS(messageId, tenantId, content);
-              break;
-            case 'email':
-              result = await this.sendEmail(messageId, tenantId, content, templateId, templateVariables);
-              break;
-            case 'telegram':
-              result = await this.sendTelegram(messageId, tenantId, content);
-              break;
-            default:
-              throw new Error(`Unsupported channel: ${channel}`);
-          }
-
-          // Update message status
-          await this.app.db.query(
-            "UPDATE messages SET status = 'sent', sent_at = NOW() WHERE id = $1",
-            [messageId]
-          );
-
-          // Broadcast status update
-          this.app.broadcastToTenant(tenantId, 'message:status', {
-            messageId,
-            status: 'sent',
-          });
-
-          return result;
-        } catch (error) {
-          queueLogger.error({ error, messageId }, 'Failed to send message');
-
-          // Update message status to failed
-          await this.app.db.query(
-            "UPDATE messages SET status = 'failed', fail_reason = $1 WHERE id = $2",
-            [(error as Error).message, messageId]
-          );
-
-          throw error;
+      async (job: Job, token?: string) => {
+        switch (job.name) {
+          case 'process-campaign':
+            return this.campaigns.process(job.data);
+          case 'send-campaign-message':
+            return this.sendCampaignMessage(job);
+          case 'send-message':
+            await this.holdForSendLimits(job, token);
+            return this.processMessage(job.data);
+          case 'select-ab-winner':
+            return this.abTests.selectWinner(job.data);
+          default:
+            return this.processMessage(job.data);
         }
       },
       { concurrency: config.queue.concurrency.messages }
@@ -88,6 +80,289 @@ export class MessageQueue {
     queueLogger.info('Message queue workers initialized');
   }
 
+  // Push a send back to when the plan, channel and warm-up limits allow it
+  private async holdForSendLimits(job: Job, token?: string): Promise<void> {
+    const { messageId, tenantId, channel } = job.data;
+    const limit = await this.app.antiBanService.checkRateLimit(tenantId, channel, messageId);
+    if (limit.allowed) return;
+
+    queueLogger.info(
+      { messageId, channel, reason: limit.reason, resource: limit.resource, retryAfter: limit.retryAfter },
+      'Send held by channel limits'
+    );
+    await job.moveToDelayed(Date.now() + (limit.retryAfter || 60) * 1000, token);
+    throw new DelayedError();
+  }
+
+  private async processMessage(data: any): Promise<ChannelSendResult | undefined> {
+    const { messageId, tenantId, channel, content, mediaUrl, subject, templateId, templateVariables } = data;
+
+    queueLogger.debug({ messageId, channel }, 'Processing message');
+
+    // A retry after the provider accepted the message must not send it again
+    const current = await this.app.db.queryOne('SELECT status FROM messages WHERE id = $1', [messageId]);
+    if (current && SENT_STATUSES.includes(current.status)) {
+      queueLogger.debug({ messageId, status: current.status }, 'Message already sent, skipping');
+      return undefined;
+    }
+
+    let result: ChannelSendResult | undefined;
+    try {
+      // Update message status
+      await this.app.db.query(
+        "UPDATE messages SET status = 'sending' WHERE id = $1",
+        [messageId]
+      );
+
+      // Send based on channel
+      switch (channel) {
+        case 'whatsapp':
+          result = await this.sendWhatsApp(messageId, tenantId, content, mediaUrl, templateId, templateVariables);
+          break;
+        case 'sms':
+          result = await this.sendSMS(messageId, tenantId, content, mediaUrl);
+          break;
+        case 'email':
+          result = await this.sendEmail(messageId, tenantId, content, mediaUrl, subject, templateId, templateVariables);
+          break;
+        case 'telegram':
+          result = await this.sendTelegram(messageId, tenantId, content, mediaUrl, templateId, templateVariables);
+          break;
+        default:
+          throw new Error(`Unsupported channel: ${channel}`);
+      }
+    } catch (error) {
+      queueLogger.error({ error, messageId }, 'Failed to send message');
+
+      // Update message status to failed
+      await this.app.db.query(
+        "UPDATE messages SET status = 'failed', fail_reason = $1 WHERE id = $2",
+        [(error as Error).message, messageId]
+      );
+
+      // Blocks, opt-outs and bounces reported at send time count against the channel
+      const reputationEvent = classifyFailure((error as Error).message);
+      if (reputationEvent && messageId) {
+        await this.app.antiBanService.recordForMessage(tenantId, { messageId }, reputationEvent, {
+          reason: (error as Error).message,
+        });
+      }
+
+      throw error;
+    }
+
+    // The provider has the message now: a bookkeeping error is logged, never
+    // retried, since a retry that found the message unsent would send it again
+    try {
+      // Update message status and keep the provider id for status callbacks,
+      // and the billable segment count for SMS
+      await this.app.db.query(
+        `UPDATE messages SET status = 'sent', sent_at = NOW(), provider_message_id = $1,
+           metadata = CASE WHEN $3::int IS NULL THEN metadata
+             ELSE COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('smsSegments', $3::int) END
+         WHERE id = $2`,
+        [result?.providerMessageId || null, messageId, result?.segments ?? null]
+      );
+
+      // Broadcast status update
+      this.app.broadcastToTenant(tenantId, 'message:status', {
+        messageId,
+        status: 'sent',
+      });
+
+      await this.publishMessageSent(messageId, tenantId);
+
+      // Receipts that beat the write above were held for it
+      if (result?.providerMessageId) {
+        await this.statuses.applyPending(tenantId, result.providerMessageId);
+      }
+    } catch (error) {
+      queueLogger.error({ error, messageId, providerMessageId: result?.providerMessageId }, 'Failed to record sent message');
+    }
+
+    return result;
+  }
+
+  // Send one campaign recipient, re-checking the campaign so pause/cancel apply to queued sends
+  private async sendCampaignMessage(job: Job): Promise<ChannelSendResult | undefined> {
+    const { campaignId, tenantId, recipientId } = job.data as SendCampaignMessageJob;
+
+    const recipient = await this.app.db.queryOne(
+      `SELECT cr.id, cr.status, cr.lead_id, cr.message_id, cr.personalized_message,
+              c.status AS campaign_status, c.channel, c.sent_by,
+              COALESCE(
+                CASE WHEN (c.ab_test->>'enabled')::boolean
+                  THEN (c.ab_test->'variants'->cr.variant_index->>'templateId')::uuid END,
+                c.template_id
+              ) AS template_id,
+              l.first_name, l.last_name, l.email, l.phone, l.company, l.job_title, l.custom_fields, l.timezone
+       FROM campaign_recipients cr
+       JOIN campaigns c ON cr.campaign_id = c.id
+       JOIN leads l ON cr.lead_id = l.id
+       WHERE cr.id = $1 AND cr.tenant_id = $2`,
+      [recipientId, tenantId]
+    );
+
+    if (!recipient || recipient.status !== 'queued') return undefined;
+
+    // Paused recipients go back to the pool and are reclaimed on resume
+    if (recipient.campaign_status === 'paused') {
+      await this.app.db.query(
+        "UPDATE campaign_recipients SET status = 'pending', queued_at = NULL WHERE id = $1",
+        [recipientId]
+      );
+      return undefined;
+    }
+
+    if (recipient.campaign_status !== 'running') {
+      await this.app.db.query(
+        "UPDATE campaign_recipients SET status = 'cancelled' WHERE id = $1",
+        [recipientId]
+      );
+      return undefined;
+    }
+
+    // Send spacing can push a recipient into quiet hours after it was queued
+    const quietUntil = this.campaigns.quietUntil(await this.campaigns.getSendWindow(tenantId), recipient.timezone);
+    if (quietUntil && !recipient.message_id) {
+      await this.campaigns.deferRecipients([recipientId], [quietUntil]);
+      return undefined;
+    }
+
+    const limit = await this.app.antiBanService.checkRateLimit(tenantId, recipient.channel, recipientId);
+    if (!limit.allowed) {
+      await this.campaigns.deferRecipients([recipientId], [new Date(Date.now() + (limit.retryAfter || 60) * 1000)]);
+      return undefined;
+    }
+
+    // Retries reuse the message created by the first attempt
+    const messageId = recipient.message_id || (await this.createCampaignMessage(campaignId, tenantId, recipient));
+
+    let result: ChannelSendResult | undefined;
+    try {
+      result = await this.processMessage({
+        messageId,
+        tenantId,
+        channel: recipient.channel,
+        content: recipient.personalized_message,
+        templateId: recipient.template_id,
+        templateVariables: leadTemplateVariables(recipient),
+      });
+    } catch (error) {
+      // Only the final attempt counts as a failed recipient
+      if (job.attemptsMade + 1 >= (job.opts.attempts || 1)) {
+        await this.app.db.query(
+          `UPDATE campaign_recipients SET status = 'failed', failed_at = NOW(), fail_reason = $2
+           WHERE id = $1 AND status = 'queued'`,
+          [recipientId, (error as Error).message]
+        );
+        await this.incrementCampaignStat(campaignId, 'failed');
+        await this.campaigns.completeIfDone(campaignId);
+      }
+
+      throw error;
+    }
+
+    // Outside the send's failure path: if this throws, the retry skips the
+    // already-sent message and only repeats the bookkeeping, counted once
+    const marked = await this.app.db.query(
+      "UPDATE campaign_recipients SET status = 'sent', sent_at = NOW() WHERE id = $1 AND status = 'queued'",
+      [recipientId]
+    );
+    if (marked.rowCount) {
+      await this.incrementCampaignStat(campaignId, 'sent');
+    }
+    await this.campaigns.completeIfDone(campaignId);
+
+    return result;
+  }
+
+  private async createCampaignMessage(campaignId: string, tenantId: string, recipient: any): Promise<string> {
+    const conversation = await this.app.db.queryOne(
+      `SELECT id FROM conversations
+       WHERE tenant_id = $1 AND lead_id = $2 AND channel = $3 AND status = 'active'
+       ORDER BY last_message_at DESC NULLS LAST
+       LIMIT 1`,
+      [tenantId, recipient.lead_id, recipient.channel]
+    );
+
+    let conversationId = conversation?.id;
+    if (!conversationId) {
+      const created = await this.app.db.insert('conversations', {
+        tenant_id: tenantId,
+        lead_id: recipient.lead_id,
+        channel: recipient.channel,
+        status: 'active',
+        ai_enabled: true,
+        unread_count: 0,
+      });
+      conversationId = created.id;
+
+      await this.app.eventBus.publish('conversation_started', {
+        tenantId,
+        leadId: recipient.lead_id,
+        data: { conversationId, channel: recipient.channel, campaignId },
+      });
+    }
+
+    const message = await this.app.db.insert('messages', {
+      tenant_id: tenantId,
+      conversation_id: conversationId,
+      channel: recipient.channel,
+      direction: 'outbound',
+      content: recipient.personalized_message,
+      content_type: 'text',
+      status: 'pending',
+      template_id: recipient.template_id,
+      campaign_id: campaignId,
+      created_by: recipient.sent_by,
+    });
+
+    await this.app.db.query(
+      'UPDATE campaign_recipients SET message_id = $1 WHERE id = $2',
+      [message.id, recipient.id]
+    );
+
+    await this.app.db.query(
+      'UPDATE conversations SET last_message_at = NOW(), last_message_preview = $1 WHERE id = $2',
+      [(recipient.personalized_message || '').substring(0, 100), conversationId]
+    );
+
+    return message.id;
+  }
+
+  private async publishMessageSent(messageId: string, tenantId: string): Promise<void> {
+    const message = await this.app.db.queryOne(
+      `SELECT m.conversation_id, m.channel, m.campaign_id, c.lead_id
+       FROM messages m
+       JOIN conversations c ON m.conversation_id = c.id
+       WHERE m.id = $1 AND m.tenant_id = $2`,
+      [messageId, tenantId]
+    );
+
+    if (!message) return;
+
+    await this.app.eventBus.publish('message_sent', {
+      tenantId,
+      leadId: message.lead_id,
+      data: {
+        messageId,
+        conversationId: message.conversation_id,
+        channel: message.channel,
+        campaignId: message.campaign_id || undefined,
+      },
+    });
+  }
+
+  private async incrementCampaignStat(campaignId: string, key: 'sent' | 'failed'): Promise<void> {
+    await this.app.db.query(
+      `UPDATE campaigns
+       SET stats = jsonb_set(COALESCE(stats, '{}'::jsonb), '{${key}}', to_jsonb(COALESCE((stats->>'${key}')::int, 0) + 1))
+       WHERE id = $1`,
+      [campaignId]
+    );
+  }
+
   private async sendWhatsApp(
     messageId: string,
     tenantId: string,
@@ -95,38 +370,213 @@ export class MessageQueue {
     mediaUrl?: string,
     templateId?: string,
     templateVariables?: Record<string, string>
-  ): Promise<any> {
-    // Implementation for WhatsApp Cloud API or Evolution API
+  ): Promise<ChannelSendResult> {
     queueLogger.debug({ messageId }, 'Sending WhatsApp message');
-    // TODO: Implement WhatsApp sending
-    return { success: true };
+
+    const integration = await this.integrations.getActiveForChannel(tenantId, 'whatsapp');
+    if (!integration) {
+      throw new Error('No active WhatsApp integration configured');
+    }
+
+    const recipient = await this.getRecipient(messageId, tenantId);
+    const to = recipient?.whatsapp_number || recipient?.phone;
+    if (!to) {
+      throw new Error('Lead has no WhatsApp number or phone');
+    }
+
+    const template = templateId ? await this.getTemplate(tenantId, templateId) : undefined;
+    if (templateId && !template) {
+      throw new Error(`Template ${templateId} not found`);
+    }
+
+    const provider = createWhatsAppProvider(integration);
+    const result = await provider.send({
+      to,
+      content: localContent(content, template, templateVariables),
+      mediaUrl,
+      template,
+      templateVariables,
+    });
+
+    queueLogger.debug(
+      { messageId, provider: result.provider, providerMessageId: result.providerMessageId },
+      'WhatsApp message accepted by provider'
+    );
+
+    return result;
   }
 
-  private async sendSMS(messageId: string, tenantId: string, content: string): Promise<any> {
-    // Implementation for SMS (Twilio, MSG91, etc.)
+  private async sendSMS(
+    messageId: string,
+    tenantId: string,
+    content: string,
+    mediaUrl?: string
+  ): Promise<ChannelSendResult> {
     queueLogger.debug({ messageId }, 'Sending SMS');
-    // TODO: Implement SMS sending
-    return { success: true };
+
+    // Default integration wins, otherwise the newest active one
+    const integration = await this.integrations.getActiveForChannel(tenantId, 'sms');
+    if (!integration) {
+      throw new Error('No active SMS integration configured');
+    }
+
+    const recipient = await this.getRecipient(messageId, tenantId);
+    if (!recipient?.phone) {
+      throw new Error('Lead has no phone number');
+    }
+
+    const provider = createSmsProvider(integration);
+    const result = await provider.send({ to: recipient.phone, content, mediaUrl });
+
+    queueLogger.debug(
+      { messageId, provider: result.provider, providerMessageId: result.providerMessageId, segments: result.segments },
+      'SMS accepted by provider'
+    );
+
+    return result;
   }
 
   private async sendEmail(
     messageId: string,
     tenantId: string,
     content: string,
+    mediaUrl?: string,
+    subject?: string,
     templateId?: string,
     templateVariables?: Record<string, string>
-  ): Promise<any> {
-    // Implementation for Email
+  ): Promise<ChannelSendResult> {
     queueLogger.debug({ messageId }, 'Sending Email');
-    // TODO: Implement Email sending
-    return { success: true };
+
+    const integration = await this.integrations.getActiveForChannel(tenantId, 'email');
+    if (!integration) {
+      throw new Error('No active email integration configured');
+    }
+
+    const recipient = await this.getRecipient(messageId, tenantId);
+    if (!recipient?.email) {
+      throw new Error('Lead has no email address');
+    }
+
+    const template = templateId ? await this.getTemplate(tenantId, templateId) : undefined;
+    if (templateId && !template) {
+      throw new Error(`Template ${templateId} not found`);
+    }
+
+    // Lead fields are available to templates, explicit variables win
+    const variables = {
+      firstName: recipient.first_name,
+      lastName: recipient.last_name,
+      email: recipient.email,
+      ...templateVariables,
+    };
+
+    const body = content || (template ? renderEmailTemplate(template.content, variables) : '');
+    const templateSubject = template?.header?.type === 'text' ? template.header.content : template?.name;
+    // The template decides HTML or plain text, not markup that lead data put into the rendered body
+    const isHtml = isHtmlContent(template ? template.content : body);
+    const footer = template?.footer && (isHtml ? renderEmailTemplate(template.footer, variables) : renderTemplate(template.footer, variables));
+    const { html, text } = buildEmailBodies(footer ? `${body}\n\n${footer}` : body, isHtml);
+
+    const provider = createEmailProvider(integration);
+    const result = await provider.send({
+      to: recipient.email,
+      toName: [recipient.first_name, recipient.last_name].filter(Boolean).join(' ') || undefined,
+      subject: renderTemplate(subject || templateSubject || config.email.fromName, variables),
+      html,
+      text,
+      attachmentUrl: mediaUrl,
+      unsubscribeUrl: integration.config?.unsubscribeUrl
+        ? renderTemplate(integration.config.unsubscribeUrl, { leadId: recipient.lead_id, email: recipient.email })
+        : undefined,
+    });
+
+    queueLogger.debug(
+      { messageId, provider: result.provider, providerMessageId: result.providerMessageId },
+      'Email accepted by provider'
+    );
+
+    return result;
   }
 
-  private async sendTelegram(messageId: string, tenantId: string, content: string): Promise<any> {
-    // Implementation for Telegram Bot
+  private async sendTelegram(
+    messageId: string,
+    tenantId: string,
+    content: string,
+    mediaUrl?: string,
+    templateId?: string,
+    templateVariables?: Record<string, string>
+  ): Promise<ChannelSendResult> {
     queueLogger.debug({ messageId }, 'Sending Telegram message');
-    // TODO: Implement Telegram sending
-    return { success: true };
+
+    const integration = await this.integrations.getActiveForChannel(tenantId, 'telegram');
+    if (!integration) {
+      throw new Error('No active Telegram integration configured');
+    }
+
+    // Bots can only message private chats that have started the bot, which we learn from inbound updates
+    const recipient = await this.getRecipient(messageId, tenantId);
+    if (!recipient?.telegram_chat_id) {
+      throw new Error('Lead has no Telegram chat id; they must message the bot first');
+    }
+
+    const template = templateId ? await this.getTemplate(tenantId, templateId) : undefined;
+    if (templateId && !template) {
+      throw new Error(`Template ${templateId} not found`);
+    }
+
+    const provider = createTelegramProvider(integration);
+    const result = await provider.send({
+      chatId: recipient.telegram_chat_id,
+      content: localContent(content, template, templateVariables),
+      mediaUrl,
+      buttons: template?.buttons,
+    });
+
+    queueLogger.debug(
+      { messageId, providerMessageId: result.providerMessageId },
+      'Telegram message accepted by provider'
+    );
+
+    return result;
+  }
+
+  // Resolve the lead behind a message via its conversation
+  private async getRecipient(messageId: string, tenantId: string): Promise<any> {
+    return this.app.db.queryOne(
+      `SELECT l.id AS lead_id, l.first_name, l.last_name, l.email, l.phone,
+              l.whatsapp_number, l.telegram_username, l.telegram_chat_id
+       FROM messages m
+       JOIN conversations c ON m.conversation_id = c.id
+       JOIN leads l ON c.lead_id = l.id
+       WHERE m.id = $1 AND m.tenant_id = $2`,
+      [messageId, tenantId]
+    );
+  }
+
+  private async getTemplate(tenantId: string, templateId: string): Promise<ResolvedTemplate | undefined> {
+    const row = await this.app.db.queryOne(
+      `SELECT id, name, language, content, variables, header, buttons, footer, whatsapp_template_id
+       FROM message_templates
+       WHERE id = $1 AND (tenant_id = $2 OR is_public = true)`,
+      [templateId, tenantId]
+    );
+
+    if (!row) return undefined;
+
+    const variables: Array<{ name: string }> = row.variables || [];
+    return {
+      id: row.id,
+      name: row.name,
+      language: row.language,
+      content: row.content,
+      variableNames: variables.length > 0
+        ? variables.map((v) => v.name)
+        : extractTemplateVariables(row.content),
+      header: row.header,
+      buttons: row.buttons,
+      footer: row.footer,
+      whatsappTemplateId: row.whatsapp_template_id,
+    };
   }
 
   async close(): Promise<void> {
@@ -0,0 +1,232 @@
+// ============================================
+// Workflow AI Agent
+// One AI conversation turn run by an ai_agent node
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { workflowLogger } from '../../utils/logger.js';
+
+export interface AiAgentTurnInput {
+  tenantId: string;
+  leadId: string;
+  executionId: string;
+  nodeId: string;
+  // Node data: goal, systemPrompt, channel, historyLimit
+  data: Record<string, any>;
+  context: any;
+  lead: Record<string, any>;
+}
+
+// Messages of history sent to the model when the node does not set historyLimit
+const DEFAULT_HISTORY_LIMIT = 20;
+
+export class WorkflowAiAgent {
+  constructor(private app: FastifyInstance) {}
+
+  /**
+   * Read the conversation, generate a reply and send it on the conversation's
+   * channel. The result's handle is "handoff" when a human should take over,
+   * otherwise "continue".
+   */
+  async runTurn(input: AiAgentTurnInput): Promise<any> {
+    const { tenantId, leadId, executionId, nodeId, data, context, lead } = input;
+
+    if (!leadId) {
+      return { replied: false, reason: 'no_lead', handle: 'continue' };
+    }
+
+    const conversation = await this.findConversation(tenantId, leadId, data.channel || context?.channel, context?.conversationId);
+    if (!conversation) {
+      return { replied: false, reason: 'no_conversation', handle: 'continue' };
+    }
+
+    // A human already took over this conversation
+    if (conversation.ai_enabled === false) {
+      return { replied: false, reason: 'ai_disabled', conversationId: conversation.id, handle: 'handoff' };
+    }
+
+    const history = await this.loadHistory(conversation.id, tenantId, parseInt(data.historyLimit) || DEFAULT_HISTORY_LIMIT);
+    const turn = await this.app.ai.generateConversationResponse(history, lead, data.goal, {
+      systemPrompt: data.systemPrompt,
+    });
+
+    const messageId = await this.sendReply(tenantId, conversation, turn.response, {
+      intent: turn.intent,
+      workflowExecutionId: executionId,
+      nodeId,
+    });
+
+    await this.recordTurn(tenantId, conversation.id, leadId, {
+      goal: data.goal,
+      intent: turn.intent,
+      messageId,
+      executionId,
+      shouldHandoff: turn.shouldHandoff,
+      handoffReason: turn.handoffReason,
+    });
+
+    if (turn.shouldHandoff) {
+      // Stop AI replies until an agent turns them back on
+      await this.app.db.query(
+        'UPDATE conversations SET ai_enabled = false WHERE id = $1',
+        [conversation.id]
+      );
+      workflowLogger.info({ conversationId: conversation.id, reason: turn.handoffReason }, 'AI agent handed off conversation');
+    }
+
+    return {
+      replied: Boolean(messageId),
+      messageId,
+      conversationId: conversation.id,
+      intent: turn.intent || null,
+      shouldHandoff: Boolean(turn.shouldHandoff),
+      handoffReason: turn.handoffReason || null,
+      handle: turn.shouldHandoff ? 'handoff' : 'continue',
+    };
+  }
+
+  // The triggering conversation, else the lead's latest active one, else a new one on the node's channel
+  private async findConversation(
+    tenantId: string,
+    leadId: string,
+    channel?: string,
+    conversationId?: string
+  ): Promise<any | null> {
+    if (conversationId) {
+      const conversation = await this.app.db.queryOne(
+        'SELECT * FROM conversations WHERE id = $1 AND tenant_id = $2 AND lead_id = $3',
+        [conversationId, tenantId, leadId]
+      );
+      if (conversation) return conversation;
+    }
+
+    const existing = await this.app.db.queryOne(
+      `SELECT * FROM conversations
+       WHERE tenant_id = $1 AND lead_id = $2 AND status = 'active' AND ($3::text IS NULL OR channel = $3)
+       ORDER BY last_message_at DESC NULLS LAST
+       LIMIT 1`,
+      [tenantId, leadId, channel || null]
+    );
+    if (existing) return existing;
+    if (!channel) return null;
+
+    const created = await this.app.db.insert('conversations', {
+      tenant_id: tenantId,
+      lead_id: leadId,
+      channel,
+      status: 'active',
+      ai_enabled: true,
+      unread_count: 0,
+    });
+
+    await this.app.eventBus.publish('conversation_started', {
+      tenantId,
+      leadId,
+      data: { conversationId: created.id, channel },
+    });
+
+    return created;
+  }
+
+  private async loadHistory(
+    conversationId: string,
+    tenantId: string,
+    limit: number
+  ): Promise<Array<{ role: 'user' | 'assistant'; content: string }>> {
+    const messages = await this.app.db.queryMany(
+      `SELECT direction, content FROM messages
+       WHERE conversation_id = $1 AND tenant_id = $2 AND content IS NOT NULL AND content <> ''
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [conversationId, tenantId, limit]
+    );
+
+    return messages.reverse().map((message) => ({
+      role: message.direction === 'inbound' ? 'user' : 'assistant',
+      content: message.content,
+    }));
+  }
+
+  private async sendReply(
+    tenantId: string,
+    conversation: any,
+    content: string,
+    metadata: Record<string, any>
+  ): Promise<string | null> {
+    if (!content) return null;
+
+    const message = await this.app.db.insert('messages', {
+      tenant_id: tenantId,
+      conversation_id: conversation.id,
+      channel: conversation.channel,
+      direction: 'outbound',
+      content,
+      content_type: 'text',
+      status: 'pending',
+      ai_processed: true,
+      ai_intent: metadata.intent || null,
+      metadata: JSON.stringify(metadata),
+    });
+
+    await this.app.addJob('messages', 'send-message', {
+      messageId: message.id,
+      tenantId,
+      channel: conversation.channel,
+      content,
+    });
+
+    await this.app.db.query(
+      'UPDATE conversations SET last_message_at = NOW(), last_message_preview = $1 WHERE id = $2',
+      [content.substring(0, 100), conversation.id]
+    );
+
+    this.app.broadcastToConversation(conversation.id, 'message:sent', {
+      messageId: message.id,
+      content,
+      status: 'pending',
+    });
+
+    return message.id;
+  }
+
+  private async recordTurn(
+    tenantId: string,
+    conversationId: string,
+    leadId: string,
+    turn: {
+      goal?: string;
+      intent?: string;
+      messageId: string | null;
+      executionId: string;
+      shouldHandoff: boolean;
+      handoffReason?: string;
+    }
+  ): Promise<void> {
+    const intents = turn.intent
+      ? [{ intent: turn.intent, messageId: turn.messageId, executionId: turn.executionId, detectedAt: new Date().toISOString() }]
+      : [];
+
+    await this.app.db.query(
+      `INSERT INTO ai_conversations
+         (tenant_id, conversation_id, lead_id, goal, detected_intents, turns, handoff_requested, handoff_reason, last_turn_at)
+       VALUES ($1, $2, $3, $4, $5::jsonb, 1, $6, $7, NOW())
+       ON CONFLICT (conversation_id) DO UPDATE SET
+         goal = COALESCE(EXCLUDED.goal, ai_conversations.goal),
+         detected_intents = ai_conversations.detected_intents || EXCLUDED.detected_intents,
+         turns = ai_conversations.turns + 1,
+         handoff_requested = ai_conversations.handoff_requested OR EXCLUDED.handoff_requested,
+         handoff_reason = COALESCE(EXCLUDED.handoff_reason, ai_conversations.handoff_reason),
+         last_turn_at = NOW(),
+         updated_at = NOW()`,
+      [
+        tenantId,
+        conversationId,
+        leadId,
+        turn.goal || null,
+        JSON.stringify(intents),
+        turn.shouldHandoff,
+        turn.shouldHandoff ? turn.handoffReason || null : null,
+      ]
+    );
+  }
+}
@@ -0,0 +1,202 @@
+// ============================================
+// Workflow Enrollment
+// Re-entry, concurrency and goal-exit rules for leads entering a workflow
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { workflowLogger } from '../../utils/logger.js';
+import { DomainEvent } from '../events/event-bus.js';
+import { evaluateExpression, leadExpressionScope, validateExpression } from './expression.js';
+
+export interface EnrollmentSettings {
+  allowReentry: boolean;
+  // Minimum time between two entries of the same lead; 0 for none
+  reentryCooldownMinutes: number;
+  // At most one running or waiting execution per lead
+  singleActive: boolean;
+  // Lead expression; once true the lead leaves the workflow, e.g. lead.status == "won"
+  goal?: string;
+}
+
+export type EnrollmentBlock = 'reentry' | 'cooldown' | 'concurrent' | 'goal_met';
+
+// WorkflowStats counter bumped for each refused entry
+const BLOCK_STATS: Record<EnrollmentBlock, string> = {
+  reentry: 'reentryBlocked',
+  cooldown: 'reentryBlocked',
+  concurrent: 'concurrencyBlocked',
+  goal_met: 'goalMetOnEntry',
+};
+
+/**
+ * Settings with defaults filled in; without any, every entry is allowed
+ */
+export function enrollmentSettings(raw: any): EnrollmentSettings {
+  const settings = (typeof raw === 'string' ? JSON.parse(raw) : raw) || {};
+  return {
+    allowReentry: settings.allowReentry !== false,
+    reentryCooldownMinutes: Math.max(Number(settings.reentryCooldownMinutes) || 0, 0),
+    singleActive: Boolean(settings.singleActive),
+    goal: settings.goal || undefined,
+  };
+}
+
+/**
+ * Validate enrollment settings, returning an error message or null
+ */
+export function validateEnrollment(raw: any): string | null {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw !== 'object' || Array.isArray(raw)) return 'Enrollment settings must be an object';
+
+  if (raw.reentryCooldownMinutes !== undefined && !(Number(raw.reentryCooldownMinutes) >= 0)) {
+    return 'Re-entry cooldown must be zero or more minutes';
+  }
+
+  if (raw.goal) {
+    const error = validateExpression(raw.goal);
+    if (error) return `Invalid goal condition: ${error}`;
+  }
+
+  return null;
+}
+
+export class WorkflowEnrollment {
+  constructor(private app: FastifyInstance) {}
+
+  goalMet(settings: EnrollmentSettings, lead: Record<string, any>): boolean {
+    if (!settings.goal) return false;
+    try {
+      return Boolean(evaluateExpression(settings.goal, { lead }));
+    } catch (error) {
+      workflowLogger.warn({ goal: settings.goal, error: (error as Error).message }, 'Workflow goal failed to evaluate');
+      return false;
+    }
+  }
+
+  /**
+   * Create the execution if the lead may enter. Entries of one lead are
+   * serialized, so concurrent triggers cannot both pass the checks.
+   */
+  async enroll(
+    workflowId: string,
+    leadId: string,
+    settings: EnrollmentSettings,
+    lead: Record<string, any>,
+    execution: Record<string, any>
+  ): Promise<{ execution?: any; blocked?: EnrollmentBlock }> {
+    if (this.goalMet(settings, lead)) {
+      await this.bumpStat(workflowId, BLOCK_STATS.goal_met);
+      return { blocked: 'goal_met' };
+    }
+
+    const result = await this.app.db.transaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`workflow-enrollment:${workflowId}:${leadId}`]);
+
+      // Test runs of the draft carry no version and do not count as entries
+      const { rows: [previous] } = await client.query(
+        `SELECT
+           COUNT(*) AS entries,
+           MAX(started_at) AS last_started_at,
+           COUNT(*) FILTER (WHERE status IN ('running', 'waiting')) AS active
+         FROM workflow_executions
+         WHERE workflow_id = $1 AND lead_id = $2 AND version_id IS NOT NULL`,
+        [workflowId, leadId]
+      );
+
+      let blocked: EnrollmentBlock | undefined;
+      if (!settings.allowReentry && parseInt(previous.entries) > 0) {
+        blocked = 'reentry';
+      } else if (
+        settings.reentryCooldownMinutes > 0 &&
+        previous.last_started_at &&
+        Date.now() - new Date(previous.last_started_at).getTime() < settings.reentryCooldownMinutes * 60000
+      ) {
+        blocked = 'cooldown';
+      } else if (settings.singleActive && parseInt(previous.active) > 0) {
+        blocked = 'concurrent';
+      }
+
+      if (blocked) return { blocked };
+
+      const columns = Object.keys(execution);
+      const { rows: [created] } = await client.query(
+        `INSERT INTO workflow_executions (${columns.join(', ')})
+         VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+         RETURNING *`,
+        columns.map((column) => execution[column])
+      );
+      return { execution: created };
+    });
+
+    if (result.blocked) {
+      await this.bumpStat(workflowId, BLOCK_STATS[result.blocked]);
+      workflowLogger.debug({ workflowId, leadId, reason: result.blocked }, 'Lead not enrolled in workflow');
+    }
+
+    return result;
+  }
+
+  /**
+   * Stop an in-flight execution whose goal was met; its suspended branches
+   * are released so they never resume
+   */
+  async exitOnGoal(executionId: string, workflowId: string): Promise<boolean> {
+    const cancelled = await this.app.db.query(
+      `UPDATE workflow_executions
+       SET status = 'cancelled', error = 'Goal reached', completed_at = NOW()
+       WHERE id = $1 AND status IN ('running', 'waiting')`,
+      [executionId]
+    );
+    if (cancelled.rowCount === 0) return false;
+
+    await this.app.db.query(
+      'UPDATE workflow_wait_states SET resumed = true WHERE execution_id = $1 AND resumed = false',
+      [executionId]
+    );
+    await this.bumpStat(workflowId, 'goalReached');
+
+    workflowLogger.info({ executionId, workflowId }, 'Workflow execution exited on goal');
+    return true;
+  }
+
+  /**
+   * Check the goals of a lead's in-flight executions after a lead event
+   */
+  async handleEvent(event: DomainEvent): Promise<number> {
+    if (!event.leadId) return 0;
+
+    const executions = await this.app.db.queryMany(
+      `SELECT e.id, e.workflow_id, w.enrollment
+       FROM workflow_executions e
+       JOIN workflows w ON w.id = e.workflow_id
+       WHERE e.tenant_id = $1 AND e.lead_id = $2 AND e.status IN ('running', 'waiting')
+         AND COALESCE(w.enrollment->>'goal', '') <> ''`,
+      [event.tenantId, event.leadId]
+    );
+    if (executions.length === 0) return 0;
+
+    const row = await this.app.db.queryOne(
+      'SELECT * FROM leads WHERE id = $1 AND tenant_id = $2',
+      [event.leadId, event.tenantId]
+    );
+    const lead = leadExpressionScope(row);
+
+    let exited = 0;
+    for (const execution of executions) {
+      if (this.goalMet(enrollmentSettings(execution.enrollment), lead)) {
+        if (await this.exitOnGoal(execution.id, execution.workflow_id)) exited++;
+      }
+    }
+
+    return exited;
+  }
+
+  private async bumpStat(workflowId: string, key: string): Promise<void> {
+    await this.app.db.query(
+      `UPDATE workflows
+       SET stats = jsonb_set(COALESCE(stats, '{}'::jsonb), ARRAY[$2::text], to_jsonb(COALESCE((stats->>$2::text)::int, 0) + 1))
+       WHERE id = $1`,
+      [workflowId, key]
+    );
+  }
+}
@@ -0,0 +1,129 @@
+// ============================================
+// Workflow Execution Log
+// Per-node steps persisted into workflow_executions.node_results
+// ============================================
+
+import { randomUUID } from 'crypto';
+import { FastifyInstance } from 'fastify';
+
+export type StepStatus = 'running' | 'success' | 'failed' | 'skipped';
+
+export interface ExecutionStep {
+  stepId: string;
+  nodeId: string;
+  nodeType?: string;
+  status: StepStatus;
+  attempts: number;
+  output?: any;
+  error?: string;
+  // Nodes still queued when this step failed; a retry continues with them
+  pendingNodeIds?: string[];
+  startedAt: string;
+  finishedAt?: string;
+  executedAt: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  delayMs: number;
+  backoff: 'fixed' | 'exponential';
+}
+
+export interface RetryExecutionJob {
+  executionId: string;
+  // Attempt the failed node is on; manual retries start again from 1
+  attempt?: number;
+}
+
+// Retries are delayed jobs, capped so a failing node is not left for days
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+/**
+ * Node retry policy from `data.retry`; without one a node runs once
+ */
+export function nodeRetryPolicy(data: Record<string, any> = {}): RetryPolicy {
+  const retry = data.retry || {};
+  return {
+    maxAttempts: Math.min(Math.max(parseInt(retry.maxAttempts) || 1, 1), MAX_ATTEMPTS),
+    delayMs: Math.max(Number(retry.delayMs) || 1000, 0),
+    backoff: retry.backoff === 'fixed' ? 'fixed' : 'exponential',
+  };
+}
+
+export function retryDelayMs(policy: RetryPolicy, attempt: number): number {
+  const delay = policy.backoff === 'fixed' ? policy.delayMs : policy.delayMs * 2 ** (attempt - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Outputs of completed steps by node id; entries written before the step
+ * log existed carry `result` instead of `output`
+ */
+export function stepOutputs(steps: any[] = []): Record<string, any> {
+  return Object.fromEntries(
+    steps
+      .filter((step) => !step.status || step.status === 'success')
+      .map((step) => [step.nodeId, step.output ?? step.result])
+  );
+}
+
+export function lastFailedStep(steps: any[] = []): ExecutionStep | undefined {
+  return [...steps].reverse().find((step) => step.status === 'failed');
+}
+
+export class ExecutionLog {
+  constructor(private app: FastifyInstance) {}
+
+  async start(executionId: string, node: { id: string; type?: string }): Promise<ExecutionStep> {
+    const now = new Date().toISOString();
+    const step: ExecutionStep = {
+      stepId: randomUUID(),
+      nodeId: node.id,
+      nodeType: node.type,
+      status: 'running',
+      attempts: 0,
+      startedAt: now,
+      executedAt: now,
+    };
+
+    await this.app.db.query(
+      `UPDATE workflow_executions SET node_results = COALESCE(node_results, '[]'::jsonb) || $2::jsonb WHERE id = $1`,
+      [executionId, JSON.stringify([step])]
+    );
+
+    return step;
+  }
+
+  /**
+   * Merge fields into one step. A single statement, so branches of the same
+   * execution updating concurrently do not overwrite each other.
+   */
+  async update(executionId: string, stepId: string, changes: Partial<ExecutionStep>): Promise<void> {
+    await this.app.db.query(
+      `UPDATE workflow_executions
+       SET node_results = (
+         SELECT jsonb_agg(CASE WHEN step->>'stepId' = $2 THEN step || $3::jsonb ELSE step END ORDER BY position)
+         FROM jsonb_array_elements(node_results) WITH ORDINALITY AS steps(step, position)
+       )
+       WHERE id = $1`,
+      [executionId, stepId, JSON.stringify(changes)]
+    );
+  }
+
+  async finish(executionId: string, stepId: string, attempts: number, output: any): Promise<void> {
+    const now = new Date().toISOString();
+    await this.update(executionId, stepId, { status: 'success', attempts, output, finishedAt: now, executedAt: now });
+  }
+
+  async fail(executionId: string, stepId: string, attempts: number, error: string, pendingNodeIds: string[]): Promise<void> {
+    const now = new Date().toISOString();
+    await this.update(executionId, stepId, { status: 'failed', attempts, error, pendingNodeIds, finishedAt: now, executedAt: now });
+  }
+
+  // Completed outside a node run, e.g. a wait state that resumed
+  async record(executionId: string, node: { id: string; type?: string }, output: any): Promise<void> {
+    const step = await this.start(executionId, node);
+    await this.finish(executionId, step.stepId, 1, output);
+  }
+}
@@ -0,0 +1,523 @@
+// ============================================
+// Workflow Expressions
+// Sandboxed condition language for edges and condition nodes
+// ============================================
+
+/**
+ * Examples:
+ *   lead.status == 'qualified' and lead.score >= 50
+ *   'vip' in lead.tags or lead.customFields.plan contains 'pro'
+ *   lead.lastActivityAt < now - 7d
+ *   result.replied and not (trigger.channel in ['sms', 'email'])
+ *
+ * Expressions are parsed into an AST and interpreted; nothing is ever
+ * compiled or passed to eval, and only own properties of plain data are
+ * reachable.
+ */
+
+export interface ExpressionScope {
+  lead?: Record<string, any>;
+  trigger?: Record<string, any>;
+  // Results of nodes already executed in this execution, by node id
+  nodes?: Record<string, any>;
+  // Result of the node the edge leaves from
+  result?: any;
+  reply?: Record<string, any>;
+}
+
+type Node =
+  | { type: 'literal'; value: any }
+  | { type: 'variable'; name: string }
+  | { type: 'member'; object: Node; property: Node }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'list'; items: Node[] }
+  | { type: 'unary'; op: string; arg: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node };
+
+interface Token {
+  type: 'number' | 'string' | 'ident' | 'op' | 'eof';
+  value: any;
+  pos: number;
+}
+
+const MAX_LENGTH = 2000;
+const MAX_DEPTH = 50;
+
+const VARIABLES = ['lead', 'trigger', 'nodes', 'result', 'reply', 'now'];
+
+const DURATION_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60000,
+  h: 3600000,
+  d: 86400000,
+  w: 604800000,
+};
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  now: () => new Date(),
+  date: (value: any) => toDate(value),
+  daysSince: (value: any) => {
+    const date = toDate(value);
+    return date ? Math.floor((Date.now() - date.getTime()) / DURATION_MS.d) : null;
+  },
+  lower: (value: any) => (value == null ? value : String(value).toLowerCase()),
+  upper: (value: any) => (value == null ? value : String(value).toUpperCase()),
+  len: (value: any) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+  exists: (value: any) => value !== null && value !== undefined && value !== '',
+  number: (value: any) => (value == null || value === '' ? null : Number(value)),
+};
+
+const KEYWORD_OPS = ['and', 'or', 'not', 'in', 'contains'];
+
+// Never reachable through member access
+const BLOCKED_PROPERTIES = ['__proto__', 'prototype', 'constructor'];
+
+// ============================================
+// Tokenizer
+// ============================================
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Numbers, optionally with a duration suffix: 30m, 7d, 1.5h
+    if (/[0-9]/.test(ch)) {
+      const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d|w)?(?![A-Za-z0-9_])/.exec(source.slice(i));
+      if (!match) throw new Error(`Invalid number at position ${i}`);
+      const value = parseFloat(match[1]) * (match[2] ? DURATION_MS[match[2]] : 1);
+      tokens.push({ type: 'number', value, pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) throw new Error(`Unterminated string at position ${i}`);
+      tokens.push({ type: 'string', value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      const word = match[0];
+      tokens.push({ type: KEYWORD_OPS.includes(word) ? 'op' : 'ident', value: word, pos: i });
+      i += word.length;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (['==', '!=', '>=', '<=', '&&', '||'].includes(two)) {
+      tokens.push({ type: 'op', value: two, pos: i });
+      i += 2;
+      continue;
+    }
+
+    if (ch === '=') throw new Error(`Unexpected '=' at position ${i}; use '==' to compare`);
+
+    if ('<>!+-*/%()[],.'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character '${ch}' at position ${i}`);
+  }
+
+  tokens.push({ type: 'eof', value: null, pos: source.length });
+  return tokens;
+}
+
+// ============================================
+// Parser (recursive descent, lowest precedence first)
+// ============================================
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') throw new Error(`Unexpected '${next.value}' at position ${next.pos}`);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isOp(...values: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'op' && values.includes(token.value);
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'op' || token.value !== value) {
+      throw new Error(
+        token.type === 'eof'
+          ? `Expected '${value}' but expression ended`
+          : `Expected '${value}' at position ${token.pos}, found '${token.value}'`
+      );
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) throw new Error('Expression is nested too deeply');
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (this.isOp('or', '||')) {
+      this.next();
+      left = { type: 'binary', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseNot();
+    while (this.isOp('and', '&&')) {
+      this.next();
+      left = { type: 'binary', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Node {
+    if (this.isOp('not', '!')) {
+      this.next();
+      return this.nested(() => ({ type: 'unary', op: 'not', arg: this.parseNot() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parseAdditive();
+
+    if (this.isOp('==', '!=', '>', '>=', '<', '<=', 'in', 'contains')) {
+      const op = this.next().value;
+      return { type: 'binary', op, left, right: this.parseAdditive() };
+    }
+
+    // "not in"
+    if (this.isOp('not') && this.tokens[this.index + 1]?.value === 'in') {
+      this.index += 2;
+      return { type: 'unary', op: 'not', arg: { type: 'binary', op: 'in', left, right: this.parseAdditive() } };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): Node {
+    let left = this.parseMultiplicative();
+    while (this.isOp('+', '-')) {
+      const op = this.next().value;
+      left = { type: 'binary', op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Node {
+    let left = this.parseUnary();
+    while (this.isOp('*', '/', '%')) {
+      const op = this.next().value;
+      left = { type: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.isOp('-')) {
+      this.next();
+      return this.nested(() => ({ type: 'unary', op: '-', arg: this.parseUnary() }));
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+
+    while (this.isOp('.', '[')) {
+      if (this.next().value === '.') {
+        const token = this.next();
+        if (token.type !== 'ident' && !(token.type === 'op' && KEYWORD_OPS.includes(token.value))) {
+          throw new Error(`Expected property name at position ${token.pos}`);
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else {
+        const property = this.nested(() => this.parseOr());
+        this.expect(']');
+        node = { type: 'member', object: node, property };
+      }
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'ident': {
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+
+        if (this.isOp('(')) {
+          this.next();
+          if (!(token.value in FUNCTIONS)) throw new Error(`Unknown function '${token.value}' at position ${token.pos}`);
+          const args: Node[] = [];
+          if (!this.isOp(')')) {
+            do {
+              args.push(this.nested(() => this.parseOr()));
+            } while (this.isOp(',') && this.next());
+          }
+          this.expect(')');
+          return { type: 'call', name: token.value, args };
+        }
+
+        if (!VARIABLES.includes(token.value)) {
+          throw new Error(`Unknown variable '${token.value}' at position ${token.pos}; use one of ${VARIABLES.join(', ')}`);
+        }
+        return { type: 'variable', name: token.value };
+      }
+
+      case 'op':
+        if (token.value === '(') {
+          const node = this.nested(() => this.parseOr());
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items: Node[] = [];
+          if (!this.isOp(']')) {
+            do {
+              items.push(this.nested(() => this.parseOr()));
+            } while (this.isOp(',') && this.next());
+          }
+          this.expect(']');
+          return { type: 'list', items };
+        }
+        throw new Error(`Unexpected '${token.value}' at position ${token.pos}`);
+
+      default:
+        throw new Error('Unexpected end of expression');
+    }
+  }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value);
+  if (typeof value === 'string' && value) {
+    const time = Date.parse(value);
+    return isNaN(time) ? null : new Date(time);
+  }
+  return null;
+}
+
+// Align operand types: dates compare by time, numeric strings as numbers
+function comparable(left: any, right: any): [any, any] {
+  if (left instanceof Date || right instanceof Date) {
+    return [toDate(left)?.getTime() ?? null, toDate(right)?.getTime() ?? null];
+  }
+  if (typeof left === 'number' && typeof right === 'string' && right.trim() !== '' && !isNaN(Number(right))) {
+    return [left, Number(right)];
+  }
+  if (typeof right === 'number' && typeof left === 'string' && left.trim() !== '' && !isNaN(Number(left))) {
+    return [Number(left), right];
+  }
+  return [left, right];
+}
+
+function equals(left: any, right: any): boolean {
+  if (left == null || right == null) return left == null && right == null;
+  const [a, b] = comparable(left, right);
+  return a === b;
+}
+
+function contains(container: any, item: any): boolean {
+  if (Array.isArray(container)) return container.some((value) => equals(value, item));
+  if (typeof container === 'string') return item != null && container.includes(String(item));
+  if (container && typeof container === 'object') return Object.prototype.hasOwnProperty.call(container, String(item));
+  return false;
+}
+
+function readProperty(object: any, property: any): any {
+  if (object == null) return undefined;
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.includes(key)) return undefined;
+  if (typeof object === 'string' && key === 'length') return object.length;
+  if (typeof object !== 'object') return undefined;
+  return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+}
+
+function evaluateNode(node: Node, scope: ExpressionScope): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'variable':
+      return node.name === 'now' ? new Date() : (scope as any)[node.name];
+
+    case 'member':
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+
+    case 'list':
+      return node.items.map((item) => evaluateNode(item, scope));
+
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map((arg) => evaluateNode(arg, scope)));
+
+    case 'unary': {
+      const value = evaluateNode(node.arg, scope);
+      return node.op === 'not' ? !value : -Number(value);
+    }
+
+    case 'binary': {
+      if (node.op === 'and') return Boolean(evaluateNode(node.left, scope) && evaluateNode(node.right, scope));
+      if (node.op === 'or') return Boolean(evaluateNode(node.left, scope) || evaluateNode(node.right, scope));
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      switch (node.op) {
+        case '==':
+          return equals(left, right);
+        case '!=':
+          return !equals(left, right);
+        case '>':
+        case '>=':
+        case '<':
+        case '<=': {
+          const [a, b] = comparable(left, right);
+          if (a == null || b == null) return false;
+          if (node.op === '>') return a > b;
+          if (node.op === '>=') return a >= b;
+          if (node.op === '<') return a < b;
+          return a <= b;
+        }
+        case 'in':
+          return contains(right, left);
+        case 'contains':
+          return contains(left, right);
+        case '+':
+          if (left instanceof Date) return new Date(left.getTime() + Number(right));
+          if (typeof left === 'string' || typeof right === 'string') return `${left ?? ''}${right ?? ''}`;
+          return Number(left) + Number(right);
+        case '-':
+          if (left instanceof Date && right instanceof Date) return left.getTime() - right.getTime();
+          if (left instanceof Date) return new Date(left.getTime() - Number(right));
+          return Number(left) - Number(right);
+        case '*':
+          return Number(left) * Number(right);
+        case '/':
+          return Number(right) === 0 ? null : Number(left) / Number(right);
+        case '%':
+          return Number(right) === 0 ? null : Number(left) % Number(right);
+      }
+    }
+  }
+
+  throw new Error('Unsupported expression');
+}
+
+// ============================================
+// Public API
+// ============================================
+
+const cache = new Map<string, Node>();
+
+export function parseExpression(source: string): Node {
+  if (typeof source !== 'string' || source.trim() === '') throw new Error('Expression is empty');
+  if (source.length > MAX_LENGTH) throw new Error(`Expression is longer than ${MAX_LENGTH} characters`);
+
+  let ast = cache.get(source);
+  if (!ast) {
+    ast = new Parser(tokenize(source)).parse();
+    if (cache.size > 1000) cache.clear();
+    cache.set(source, ast);
+  }
+  return ast;
+}
+
+/**
+ * Return a readable error for an invalid expression, or null when valid
+ */
+export function validateExpression(source: string): string | null {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+export function evaluateExpression(source: string, scope: ExpressionScope): any {
+  return evaluateNode(parseExpression(source), scope);
+}
+
+/**
+ * Lead row as seen by expressions: camelCase fields plus derived temperature
+ */
+export function leadExpressionScope(lead: any): Record<string, any> {
+  if (!lead) return {};
+
+  return {
+    id: lead.id,
+    firstName: lead.first_name,
+    lastName: lead.last_name,
+    email: lead.email,
+    phone: lead.phone,
+    whatsappNumber: lead.whatsapp_number,
+    telegramUsername: lead.telegram_username,
+    company: lead.company,
+    jobTitle: lead.job_title,
+    source: lead.source,
+    status: lead.status,
+    score: lead.score_total,
+    temperature: lead.score_total >= 70 ? 'hot' : lead.score_total >= 40 ? 'warm' : 'cold',
+    tags: lead.tags || [],
+    customFields: lead.custom_fields || {},
+    assignedTo: lead.assigned_to,
+    timezone: lead.timezone,
+    lastActivityAt: lead.last_activity_at,
+    createdAt: lead.created_at,
+  };
+}
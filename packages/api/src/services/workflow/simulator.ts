@@ -0,0 +1,251 @@
+// ============================================
+// Workflow Simulator
+// Dry runs that walk a definition without side effects
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { ExpressionScope, evaluateExpression, leadExpressionScope } from './expression.js';
+import { nodeDurationMs } from './wait-states.js';
+import { chooseSplitPath } from './split-path.js';
+import { WorkflowVersions, WorkflowSnapshot } from './versions.js';
+import { WorkflowValidationIssue, validateWorkflowDefinition } from './validator.js';
+
+export interface SimulationOptions {
+  // Version number or "draft" (default)
+  version?: string;
+  leadId?: string;
+  // Synthetic lead, in the camelCase shape conditions see
+  lead?: Record<string, any>;
+  // What-if values layered over the lead, e.g. { score: 85 }
+  overrides?: Record<string, any>;
+  triggerData?: Record<string, any>;
+  // Branch taken by wait_for_reply nodes
+  waitOutcome?: 'replied' | 'timeout';
+  // Whether ai_agent nodes hand off to a human
+  aiHandoff?: boolean;
+}
+
+export interface SimulatedStep {
+  nodeId: string;
+  nodeType: string;
+  // What the node would do in a real execution
+  action: string;
+  details?: Record<string, any>;
+  result: any;
+  // Nodes reached from this one
+  next: string[];
+  error?: string;
+}
+
+export interface SimulationResult {
+  version: string;
+  steps: SimulatedStep[];
+  // Nodes the run did not reach
+  notReached: string[];
+  lead: Record<string, any>;
+  issues: WorkflowValidationIssue[];
+}
+
+export class WorkflowSimulator {
+  private versions: WorkflowVersions;
+
+  constructor(private app: FastifyInstance) {
+    this.versions = new WorkflowVersions(app);
+  }
+
+  /**
+   * Walk the workflow the way the engine would. Only reads the definition
+   * and lead; nothing is written, queued or sent.
+   */
+  async simulate(workflowId: string, tenantId: string, options: SimulationOptions = {}): Promise<SimulationResult | null> {
+    const version = options.version || 'draft';
+    const snapshot = await this.versions.resolve(workflowId, tenantId, version);
+    if (!snapshot) return null;
+
+    let lead: Record<string, any> = { ...(options.lead || {}) };
+    if (options.leadId) {
+      const row = await this.app.db.queryOne(
+        'SELECT * FROM leads WHERE id = $1 AND tenant_id = $2',
+        [options.leadId, tenantId]
+      );
+      if (!row) throw new Error('Lead not found');
+      lead = leadExpressionScope(row);
+    }
+
+    const scope: ExpressionScope = {
+      lead: { ...lead, ...(options.overrides || {}) },
+      trigger: options.triggerData || {},
+      nodes: {},
+    };
+
+    const steps = this.walk(snapshot, scope, options);
+    const reached = new Set(steps.map((step) => step.nodeId));
+
+    return {
+      version,
+      steps,
+      notReached: snapshot.nodes.map((node) => node.id).filter((id) => !reached.has(id)),
+      lead: scope.lead!,
+      issues: validateWorkflowDefinition(snapshot),
+    };
+  }
+
+  private walk(snapshot: WorkflowSnapshot, scope: ExpressionScope, options: SimulationOptions): SimulatedStep[] {
+    const { nodes, edges } = snapshot;
+    const trigger = nodes.find((node) => node.type === 'trigger');
+    if (!trigger) return [];
+
+    const steps: SimulatedStep[] = [];
+    const visited = new Set<string>();
+    const queue: string[] = [trigger.id];
+
+    // Same BFS as the engine, except waits are passed through instead of suspending
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (visited.has(nodeId)) continue;
+      visited.add(nodeId);
+
+      const node = nodes.find((n) => n.id === nodeId);
+      if (!node) continue;
+
+      const step = this.simulateNode(node, scope, options);
+      scope.nodes![nodeId] = step.result;
+
+      if (!step.error) {
+        step.next = this.nextNodes(edges, nodeId, step.result, scope);
+        queue.push(...step.next);
+      }
+      steps.push(step);
+    }
+
+    return steps;
+  }
+
+  private simulateNode(node: any, scope: ExpressionScope, options: SimulationOptions): SimulatedStep {
+    const data = node.data || {};
+    const step = (action: string, result: any, details?: Record<string, any>): SimulatedStep => ({
+      nodeId: node.id,
+      nodeType: node.type,
+      action,
+      details,
+      result,
+      next: [],
+    });
+    const lead = scope.lead!;
+
+    switch (node.type) {
+      case 'trigger':
+        return step('Start workflow', { triggered: true });
+
+      case 'send_message':
+        return step(`Send ${data.channel} message`, { sent: true }, { channel: data.channel, content: data.content });
+
+      case 'send_email':
+        return step('Send email', { sent: true }, { subject: data.subject, content: data.content });
+
+      case 'make_call':
+        return lead.phone
+          ? step('Place AI call', { called: true }, { scriptId: data.scriptId, to: lead.phone })
+          : step('Skip call: lead has no phone number', { called: false, reason: 'no_phone' });
+
+      case 'notify_user':
+        return step(`Notify ${data.recipient || (data.userId ? 'user' : 'assignee')}`, { notified: true }, {
+          title: data.title,
+          message: data.message,
+          userId: data.userId,
+          role: data.role,
+        });
+
+      case 'add_tag':
+        // Later conditions see the tag, as they would after the real update
+        lead.tags = [...(lead.tags || []), data.tag];
+        return step(`Add tag "${data.tag}"`, { tagged: true }, { tag: data.tag });
+
+      case 'remove_tag':
+        lead.tags = (lead.tags || []).filter((tag: string) => tag !== data.tag);
+        return step(`Remove tag "${data.tag}"`, { untagged: true }, { tag: data.tag });
+
+      case 'update_lead': {
+        // Updates use column names; map them onto the expression fields they change
+        const before = leadExpressionScope({ id: lead.id });
+        const after = leadExpressionScope({ id: lead.id, ...data.updates });
+        for (const key of Object.keys(after)) {
+          if (JSON.stringify(after[key]) !== JSON.stringify(before[key])) lead[key] = after[key];
+        }
+        if (data.updates && 'score_total' in data.updates) lead.temperature = after.temperature;
+        return step('Update lead', { updated: true }, { updates: data.updates });
+      }
+
+      case 'create_task':
+        return step(`Create task "${data.title}"`, { created: true }, {
+          title: data.title,
+          assignedTo: data.assignedTo,
+          priority: data.priority || 'medium',
+        });
+
+      case 'delay': {
+        const delayMs = nodeDurationMs(data, 'delay') || 1000;
+        return step(`Wait ${delayMs}ms`, { waited: true, delayMs }, { delayMs });
+      }
+
+      case 'wait_for_reply': {
+        const replied = (options.waitOutcome || 'replied') === 'replied';
+        return step(
+          replied ? 'Wait for reply (assumed: replied)' : 'Wait for reply (assumed: timed out)',
+          { resumed: true, replied, handle: replied ? 'replied' : 'timeout' },
+          { timeoutMs: nodeDurationMs(data, 'timeout') }
+        );
+      }
+
+      case 'condition': {
+        try {
+          const passed = Boolean(evaluateExpression(data.condition, scope));
+          return step(`Evaluate condition: ${passed}`, { condition: data.condition, result: passed, handle: passed ? 'true' : 'false' });
+        } catch (error) {
+          return { ...step('Evaluate condition', null), error: (error as Error).message };
+        }
+      }
+
+      case 'split_path': {
+        const path = chooseSplitPath(data, node.id, lead.id);
+        return step(`Split to path "${path?.handle}"`, { path: path?.handle || null, handle: path?.handle }, {
+          mode: data.mode || 'random',
+          paths: data.paths,
+        });
+      }
+
+      case 'webhook':
+        return step('Call webhook', { webhookSent: true }, { url: data.url });
+
+      case 'ai_agent': {
+        const handoff = Boolean(options.aiHandoff);
+        return step(
+          handoff ? 'AI agent reply (assumed: hand off)' : 'AI agent reply (assumed: continue)',
+          { replied: true, shouldHandoff: handoff, handle: handoff ? 'handoff' : 'continue' },
+          { goal: data.goal, channel: data.channel }
+        );
+      }
+
+      case 'end':
+        return step('End workflow', { ended: true });
+
+      default:
+        return step('Unknown node type; the engine would skip it', { unknown: true });
+    }
+  }
+
+  private nextNodes(edges: any[], nodeId: string, result: any, scope: ExpressionScope): string[] {
+    return edges
+      .filter((e) => e.source === nodeId)
+      .filter((e) => !result?.handle || !e.sourceHandle || e.sourceHandle === result.handle)
+      .filter((e) => {
+        if (!e.condition) return true;
+        try {
+          return Boolean(evaluateExpression(e.condition, { ...scope, result }));
+        } catch {
+          return false;
+        }
+      })
+      .map((e) => e.target);
+  }
+}
@@ -0,0 +1,70 @@
+// ============================================
+// Split Path
+// Weighted branching for experiments inside workflows
+// ============================================
+
+import { createHash } from 'crypto';
+
+export interface SplitPath {
+  // Matched against the sourceHandle of outgoing edges
+  handle: string;
+  weight: number;
+}
+
+/**
+ * "random" draws per execution by relative weight; "percentage" buckets the
+ * lead by hash, so a lead entering the workflow again takes the same path
+ */
+export type SplitMode = 'random' | 'percentage';
+
+export function splitPaths(data: Record<string, any> = {}): SplitPath[] {
+  if (!Array.isArray(data.paths)) return [];
+  return data.paths
+    .filter((path: any) => path?.handle)
+    .map((path: any) => ({ handle: String(path.handle), weight: Math.max(Number(path.weight) || 0, 0) }));
+}
+
+/**
+ * Validate split configuration, returning an error message or null
+ */
+export function validateSplitPaths(data: Record<string, any> = {}): string | null {
+  const paths = splitPaths(data);
+  if (paths.length < 2) return 'needs at least two paths';
+
+  const handles = new Set(paths.map((path) => path.handle));
+  if (handles.size !== paths.length) return 'path handles must be unique';
+
+  const total = paths.reduce((sum, path) => sum + path.weight, 0);
+  if (total <= 0) return 'path weights must add up to more than 0';
+  if (data.mode === 'percentage' && Math.abs(total - 100) > 0.001) {
+    return `path percentages add up to ${total}, not 100`;
+  }
+
+  return null;
+}
+
+// Stable value in [0, 1) for a lead at a node
+function bucket(nodeId: string, leadId: string): number {
+  const digest = createHash('sha256').update(`${nodeId}:${leadId}`).digest();
+  return digest.readUInt32BE(0) / 0x100000000;
+}
+
+export function chooseSplitPath(
+  data: Record<string, any>,
+  nodeId: string,
+  leadId?: string | null
+): SplitPath | null {
+  const paths = splitPaths(data).filter((path) => path.weight > 0);
+  if (paths.length === 0) return null;
+
+  const total = paths.reduce((sum, path) => sum + path.weight, 0);
+  // Lead-less executions have nothing to bucket by
+  const roll = (data.mode === 'percentage' && leadId ? bucket(nodeId, leadId) : Math.random()) * total;
+
+  let cumulative = 0;
+  for (const path of paths) {
+    cumulative += path.weight;
+    if (roll < cumulative) return path;
+  }
+  return paths[paths.length - 1];
+}
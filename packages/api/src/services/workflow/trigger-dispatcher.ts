@@ -0,0 +1,135 @@
+// ============================================
+// Workflow Trigger Dispatcher
+// Matches domain events against active workflow triggers
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { workflowLogger } from '../../utils/logger.js';
+import { DomainEvent, DomainEventType } from '../events/event-bus.js';
+import { evaluateExpression, leadExpressionScope } from './expression.js';
+
+function asList(value: any): any[] {
+  if (value === undefined || value === null || value === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// An empty filter matches everything
+function matchesAny(filter: any, value: any): boolean {
+  const allowed = asList(filter);
+  return allowed.length === 0 || allowed.includes(value);
+}
+
+// Trigger config keys filtering on each event data field
+const FIELD_FILTERS: Record<string, string[]> = {
+  channel: ['channel', 'channels'],
+  tag: ['tag', 'tags'],
+  formId: ['formId'],
+  campaignId: ['campaignId'],
+  source: ['source'],
+};
+
+// Filterable fields per event; filters for other fields are ignored
+const EVENT_FIELDS: Record<DomainEventType, string[]> = {
+  lead_created: ['source'],
+  lead_updated: [],
+  lead_scored_high: [],
+  tag_added: ['tag'],
+  tag_removed: ['tag'],
+  message_received: ['channel'],
+  message_sent: ['channel', 'campaignId'],
+  conversation_started: ['channel', 'campaignId'],
+  conversation_closed: ['channel'],
+  campaign_completed: ['campaignId', 'channel'],
+  form_submitted: ['formId'],
+};
+
+/**
+ * Static trigger filters; every configured filter must match
+ */
+export function matchesTriggerConfig(config: Record<string, any> = {}, event: DomainEvent): boolean {
+  const data = event.data;
+
+  for (const field of EVENT_FIELDS[event.type] || []) {
+    const filter = FIELD_FILTERS[field].map((key) => config[key]).find((value) => value !== undefined);
+    if (!matchesAny(filter, data[field])) return false;
+  }
+
+  // Lead updates can be narrowed to the fields that changed
+  const fields = asList(config.fields);
+  if (event.type === 'lead_updated' && fields.length > 0) {
+    const changed: string[] = data.changedFields || [];
+    if (!fields.some((field) => changed.includes(field))) return false;
+  }
+
+  // Messages can be narrowed to keywords, matched case-insensitively
+  const keywords = asList(config.keywords ?? config.keyword);
+  if (event.type === 'message_received' && keywords.length > 0) {
+    const content = String(data.content || '').toLowerCase();
+    if (!keywords.some((keyword) => content.includes(String(keyword).toLowerCase()))) return false;
+  }
+
+  return true;
+}
+
+export class WorkflowTriggerDispatcher {
+  constructor(private app: FastifyInstance) {}
+
+  async dispatch(event: DomainEvent): Promise<number> {
+    const workflows = await this.app.db.queryMany(
+      `SELECT w.id, COALESCE(v.trigger, w.trigger) AS trigger
+       FROM workflows w
+       LEFT JOIN workflow_versions v ON v.id = w.published_version_id
+       WHERE w.tenant_id = $1 AND w.status = 'active' AND COALESCE(v.trigger, w.trigger)->>'type' = $2`,
+      [event.tenantId, event.type]
+    );
+
+    if (workflows.length === 0) return 0;
+
+    const triggerData = { event: event.type, eventId: event.id, ...event.data };
+    let lead: Record<string, any> | undefined;
+    let started = 0;
+
+    for (const workflow of workflows) {
+      const trigger = typeof workflow.trigger === 'string' ? JSON.parse(workflow.trigger) : workflow.trigger;
+      const triggerConfig = trigger?.config || {};
+
+      if (!matchesTriggerConfig(triggerConfig, event)) continue;
+
+      if (triggerConfig.condition) {
+        // Loaded once per event, and only when some trigger needs it
+        if (lead === undefined) {
+          const row = event.leadId
+            ? await this.app.db.queryOne('SELECT * FROM leads WHERE id = $1 AND tenant_id = $2', [event.leadId, event.tenantId])
+            : null;
+          lead = leadExpressionScope(row);
+        }
+
+        if (!this.evaluateFilter(workflow.id, triggerConfig.condition, { lead, trigger: triggerData })) continue;
+      }
+
+      // Job id keyed on the event keeps redelivered events from starting a workflow twice
+      await this.app.addJob(
+        'workflows',
+        'execute-workflow',
+        { workflowId: workflow.id, tenantId: event.tenantId, leadId: event.leadId, triggerData },
+        { jobId: `${event.id}-${workflow.id}` }
+      );
+      started++;
+    }
+
+    if (started > 0) {
+      workflowLogger.debug({ eventId: event.id, type: event.type, started }, 'Workflows triggered by event');
+    }
+
+    return started;
+  }
+
+  private evaluateFilter(workflowId: string, condition: string, scope: Record<string, any>): boolean {
+    try {
+      return Boolean(evaluateExpression(condition, scope));
+    } catch (error) {
+      workflowLogger.warn({ workflowId, condition, error: (error as Error).message }, 'Workflow trigger condition failed to evaluate');
+      return false;
+    }
+  }
+}
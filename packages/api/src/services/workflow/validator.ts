@@ -0,0 +1,277 @@
+// ============================================
+// Workflow Validator
+// Static checks on workflow definitions before they are saved or activated
+// ============================================
+
+import { validateExpression } from './expression.js';
+import { nodeDurationMs } from './wait-states.js';
+import { validateTriggerSchedule } from './workflow-scheduler.js';
+import { validateSplitPaths } from './split-path.js';
+import { validateEnrollment } from './enrollment.js';
+
+export type WorkflowIssueCode =
+  | 'invalid_definition'
+  | 'missing_trigger'
+  | 'multiple_triggers'
+  | 'duplicate_node'
+  | 'unknown_node_type'
+  | 'missing_node_data'
+  | 'invalid_expression'
+  | 'invalid_schedule'
+  | 'invalid_retry'
+  | 'invalid_split'
+  | 'invalid_enrollment'
+  | 'dangling_edge'
+  | 'unreachable_node'
+  | 'unbounded_cycle';
+
+export interface WorkflowValidationIssue {
+  code: WorkflowIssueCode;
+  message: string;
+  // Builder elements to highlight
+  nodeIds?: string[];
+  edgeId?: string;
+}
+
+export interface WorkflowDefinition {
+  trigger?: any;
+  nodes?: any[];
+  edges?: any[];
+  enrollment?: any;
+}
+
+const present = (value: any) => value !== undefined && value !== null && value !== '';
+
+// Node types the engine executes, with the data each one requires
+const NODE_REQUIREMENTS: Record<string, (data: Record<string, any>) => string[]> = {
+  trigger: () => [],
+  send_message: (data) => ['channel', 'content'].filter((key) => !present(data[key])),
+  send_email: (data) => (present(data.content) ? [] : ['content']),
+  make_call: (data) => (present(data.scriptId) ? [] : ['scriptId']),
+  notify_user: (data) => [
+    ...(present(data.title) ? [] : ['title']),
+    ...(data.recipient === 'role' && !present(data.role) ? ['role'] : []),
+    ...(data.recipient === 'user' && !present(data.userId) ? ['userId'] : []),
+  ],
+  add_tag: (data) => (present(data.tag) ? [] : ['tag']),
+  remove_tag: (data) => (present(data.tag) ? [] : ['tag']),
+  update_lead: (data) => (data.updates && Object.keys(data.updates).length > 0 ? [] : ['updates']),
+  create_task: (data) => (present(data.title) ? [] : ['title']),
+  delay: (data) => (nodeDurationMs(data, 'delay') ? [] : ['delay']),
+  wait_for_reply: () => [],
+  condition: (data) => (present(data.condition) ? [] : ['condition']),
+  split_path: (data) => (Array.isArray(data.paths) ? [] : ['paths']),
+  webhook: (data) => (present(data.url) ? [] : ['url']),
+  ai_agent: () => [],
+  end: () => [],
+};
+
+// Nodes that suspend the execution, which makes a loop through them safe
+const WAITING_NODE_TYPES = new Set(['delay', 'wait_for_reply']);
+
+// Stored definitions may come back as JSON text
+function parseJson(value: any): any {
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+function edgeLabel(edge: any): string {
+  return edge.id || `${edge.source}->${edge.target}`;
+}
+
+/**
+ * Strongly connected components (Tarjan) that form a cycle: more than one
+ * node, or a single node with an edge to itself
+ */
+function findCycles(nodeIds: string[], adjacency: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (nodeId: string) => {
+    index.set(nodeId, counter);
+    lowLink.set(nodeId, counter);
+    counter++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const next of adjacency.get(nodeId) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(nodeId) === index.get(nodeId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== nodeId);
+
+      if (component.length > 1 || (adjacency.get(nodeId) || []).includes(nodeId)) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const nodeId of nodeIds) {
+    if (!index.has(nodeId)) visit(nodeId);
+  }
+
+  return cycles;
+}
+
+/**
+ * Check a workflow definition, returning every issue found (empty when valid)
+ */
+export function validateWorkflowDefinition(definition: WorkflowDefinition): WorkflowValidationIssue[] {
+  const issues: WorkflowValidationIssue[] = [];
+  const trigger = parseJson(definition.trigger);
+  const nodes = parseJson(definition.nodes) ?? [];
+  const edges = parseJson(definition.edges) ?? [];
+
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+    return [{ code: 'invalid_definition', message: 'Workflow nodes and edges must be arrays' }];
+  }
+
+  const scheduleError = validateTriggerSchedule(trigger);
+  if (scheduleError) {
+    issues.push({ code: 'invalid_schedule', message: scheduleError });
+  }
+  if (trigger?.config?.condition) {
+    const error = validateExpression(trigger.config.condition);
+    if (error) issues.push({ code: 'invalid_expression', message: `Invalid trigger condition: ${error}` });
+  }
+
+  const enrollmentError = validateEnrollment(parseJson(definition.enrollment));
+  if (enrollmentError) {
+    issues.push({ code: 'invalid_enrollment', message: enrollmentError });
+  }
+
+  // Nodes
+  const nodeById = new Map<string, any>();
+  for (const node of nodes) {
+    if (nodeById.has(node?.id)) {
+      issues.push({ code: 'duplicate_node', message: `Duplicate node id ${node.id}`, nodeIds: [node.id] });
+      continue;
+    }
+    nodeById.set(node?.id, node);
+
+    const requirements = NODE_REQUIREMENTS[node?.type];
+    if (!requirements) {
+      issues.push({ code: 'unknown_node_type', message: `Unknown node type "${node?.type}"`, nodeIds: [node?.id] });
+      continue;
+    }
+
+    const missing = requirements(node.data || {});
+    if (missing.length > 0) {
+      issues.push({
+        code: 'missing_node_data',
+        message: `Node ${node.id} (${node.type}) is missing ${missing.join(', ')}`,
+        nodeIds: [node.id],
+      });
+    }
+
+    const retry = node.data?.retry;
+    if (retry !== undefined && (typeof retry !== 'object' || !(parseInt(retry.maxAttempts) >= 1))) {
+      issues.push({ code: 'invalid_retry', message: `Node ${node.id} retry needs maxAttempts of at least 1`, nodeIds: [node.id] });
+    }
+
+    if (node.type === 'split_path' && Array.isArray(node.data?.paths)) {
+      const error = validateSplitPaths(node.data);
+      if (error) {
+        issues.push({ code: 'invalid_split', message: `Split on node ${node.id} ${error}`, nodeIds: [node.id] });
+      }
+    }
+
+    if (node.type === 'condition' && present(node.data?.condition)) {
+      const error = validateExpression(node.data.condition);
+      if (error) {
+        issues.push({ code: 'invalid_expression', message: `Invalid condition on node ${node.id}: ${error}`, nodeIds: [node.id] });
+      }
+    }
+  }
+
+  const triggers = nodes.filter((node) => node?.type === 'trigger');
+  if (triggers.length === 0) {
+    issues.push({ code: 'missing_trigger', message: 'Workflow needs a trigger node' });
+  } else if (triggers.length > 1) {
+    issues.push({
+      code: 'multiple_triggers',
+      message: 'Workflow must have exactly one trigger node',
+      nodeIds: triggers.map((node) => node.id),
+    });
+  }
+
+  // Edges
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    const missing = [edge?.source, edge?.target].filter((id) => !nodeById.has(id));
+    if (missing.length > 0) {
+      issues.push({
+        code: 'dangling_edge',
+        message: `Edge ${edgeLabel(edge)} points to missing node ${missing.join(', ')}`,
+        edgeId: edge?.id,
+      });
+      continue;
+    }
+
+    if (edge.condition) {
+      const error = validateExpression(edge.condition);
+      if (error) {
+        issues.push({ code: 'invalid_expression', message: `Invalid condition on edge ${edgeLabel(edge)}: ${error}`, edgeId: edge.id });
+      }
+    }
+
+    adjacency.set(edge.source, [...(adjacency.get(edge.source) || []), edge.target]);
+  }
+
+  // Reachability from the trigger
+  if (triggers.length === 1) {
+    const reached = new Set<string>([triggers[0].id]);
+    const queue = [triggers[0].id];
+    while (queue.length > 0) {
+      for (const next of adjacency.get(queue.shift()!) || []) {
+        if (!reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    const unreachable = [...nodeById.keys()].filter((id) => !reached.has(id));
+    if (unreachable.length > 0) {
+      issues.push({
+        code: 'unreachable_node',
+        message: `Nodes not reachable from the trigger: ${unreachable.join(', ')}`,
+        nodeIds: unreachable,
+      });
+    }
+  }
+
+  // Loops must pass through a delay or wait, otherwise they spin without pause
+  const isWaiting = (id: string) => WAITING_NODE_TYPES.has(nodeById.get(id)?.type);
+  const instantAdjacency = new Map<string, string[]>();
+  for (const [source, targets] of adjacency) {
+    if (!isWaiting(source)) {
+      instantAdjacency.set(source, targets.filter((target) => !isWaiting(target)));
+    }
+  }
+
+  for (const cycle of findCycles([...instantAdjacency.keys()], instantAdjacency)) {
+    issues.push({
+      code: 'unbounded_cycle',
+      message: `Loop without a delay or wait: ${cycle.join(' -> ')}`,
+      nodeIds: cycle,
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,203 @@
+// ============================================
+// Workflow Versions
+// Immutable published snapshots, rollback and diffs
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { workflowLogger } from '../../utils/logger.js';
+
+export interface WorkflowSnapshot {
+  trigger: any;
+  nodes: any[];
+  edges: any[];
+}
+
+export interface ElementChange {
+  id: string;
+  // Top-level keys that differ, e.g. "data" or "target"
+  fields: string[];
+  from: any;
+  to: any;
+}
+
+export interface CollectionDiff {
+  added: any[];
+  removed: any[];
+  changed: ElementChange[];
+}
+
+export interface WorkflowDiff {
+  trigger: { changed: boolean; from: any; to: any };
+  nodes: CollectionDiff;
+  edges: CollectionDiff;
+}
+
+function parseJson(value: any, fallback: any): any {
+  if (typeof value === 'string') return JSON.parse(value);
+  return value ?? fallback;
+}
+
+export function toSnapshot(row: any): WorkflowSnapshot {
+  return {
+    trigger: parseJson(row.trigger, null),
+    nodes: parseJson(row.nodes, []),
+    edges: parseJson(row.edges, []),
+  };
+}
+
+// Key order differs between JSON text and JSONB, so compare canonically
+function canonical(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function diffCollection(from: any[], to: any[], key: (item: any) => string): CollectionDiff {
+  const before = new Map(from.map((item) => [key(item), item]));
+  const after = new Map(to.map((item) => [key(item), item]));
+
+  const changed: ElementChange[] = [];
+  for (const [id, item] of after) {
+    const previous = before.get(id);
+    if (!previous) continue;
+
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(item)])]
+      .filter((field) => canonical(previous[field]) !== canonical(item[field]));
+    if (fields.length > 0) changed.push({ id, fields, from: previous, to: item });
+  }
+
+  return {
+    added: [...after.keys()].filter((id) => !before.has(id)).map((id) => after.get(id)),
+    removed: [...before.keys()].filter((id) => !after.has(id)).map((id) => before.get(id)),
+    changed,
+  };
+}
+
+/**
+ * Structural diff of two workflow definitions; nodes match by id, edges by
+ * id or source->target
+ */
+export function diffSnapshots(from: WorkflowSnapshot, to: WorkflowSnapshot): WorkflowDiff {
+  return {
+    trigger: { changed: canonical(from.trigger) !== canonical(to.trigger), from: from.trigger, to: to.trigger },
+    nodes: diffCollection(from.nodes, to.nodes, (node) => node.id),
+    edges: diffCollection(from.edges, to.edges, (edge) => edge.id || `${edge.source}->${edge.target}:${edge.sourceHandle || ''}`),
+  };
+}
+
+export function sameSnapshot(a: WorkflowSnapshot, b: WorkflowSnapshot): boolean {
+  return canonical(a) === canonical(b);
+}
+
+export class WorkflowVersions {
+  constructor(private app: FastifyInstance) {}
+
+  /**
+   * Snapshot the draft as the published version. Re-activating an unchanged
+   * draft keeps the latest version instead of minting an identical one.
+   */
+  async publish(workflowId: string, tenantId: string, publishedBy?: string): Promise<any> {
+    return this.app.db.transaction(async (client) => {
+      const { rows: [workflow] } = await client.query(
+        'SELECT id, trigger, nodes, edges FROM workflows WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+        [workflowId, tenantId]
+      );
+      if (!workflow) throw new Error('Workflow not found');
+
+      const draft = toSnapshot(workflow);
+      const { rows: [latest] } = await client.query(
+        'SELECT * FROM workflow_versions WHERE workflow_id = $1 ORDER BY version DESC LIMIT 1',
+        [workflowId]
+      );
+
+      let version = latest;
+      if (!latest || !sameSnapshot(toSnapshot(latest), draft)) {
+        const { rows: [created] } = await client.query(
+          `INSERT INTO workflow_versions (tenant_id, workflow_id, version, trigger, nodes, edges, published_by)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [
+            tenantId,
+            workflowId,
+            (latest?.version || 0) + 1,
+            JSON.stringify(draft.trigger),
+            JSON.stringify(draft.nodes),
+            JSON.stringify(draft.edges),
+            publishedBy || null,
+          ]
+        );
+        version = created;
+      }
+
+      await client.query(
+        "UPDATE workflows SET status = 'active', published_version_id = $2, updated_at = NOW() WHERE id = $1",
+        [workflowId, version.id]
+      );
+
+      workflowLogger.info({ workflowId, version: version.version }, 'Workflow version published');
+      return version;
+    });
+  }
+
+  async list(workflowId: string, tenantId: string): Promise<any[]> {
+    return this.app.db.queryMany(
+      `SELECT v.id, v.version, v.published_by, v.created_at, v.id = w.published_version_id AS published
+       FROM workflow_versions v
+       JOIN workflows w ON v.workflow_id = w.id
+       WHERE v.workflow_id = $1 AND v.tenant_id = $2
+       ORDER BY v.version DESC`,
+      [workflowId, tenantId]
+    );
+  }
+
+  async get(workflowId: string, tenantId: string, version: number): Promise<any | null> {
+    return this.app.db.queryOne(
+      'SELECT * FROM workflow_versions WHERE workflow_id = $1 AND tenant_id = $2 AND version = $3',
+      [workflowId, tenantId, version]
+    );
+  }
+
+  /**
+   * Snapshot of a version number, or of the current draft for "draft"
+   */
+  async resolve(workflowId: string, tenantId: string, ref: string): Promise<WorkflowSnapshot | null> {
+    if (ref === 'draft') {
+      const workflow = await this.app.db.queryOne(
+        'SELECT trigger, nodes, edges FROM workflows WHERE id = $1 AND tenant_id = $2',
+        [workflowId, tenantId]
+      );
+      return workflow ? toSnapshot(workflow) : null;
+    }
+
+    const version = await this.get(workflowId, tenantId, parseInt(ref));
+    return version ? toSnapshot(version) : null;
+  }
+
+  /**
+   * Publish an earlier version again and reset the draft to it. Executions
+   * already running keep the version they started on.
+   */
+  async rollback(workflowId: string, tenantId: string, version: number): Promise<any | null> {
+    const target = await this.get(workflowId, tenantId, version);
+    if (!target) return null;
+
+    await this.app.db.query(
+      `UPDATE workflows
+       SET published_version_id = $3, trigger = $4, nodes = $5, edges = $6, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2`,
+      [
+        workflowId,
+        tenantId,
+        target.id,
+        JSON.stringify(parseJson(target.trigger, null)),
+        JSON.stringify(parseJson(target.nodes, [])),
+        JSON.stringify(parseJson(target.edges, [])),
+      ]
+    );
+
+    workflowLogger.info({ workflowId, version }, 'Workflow rolled back');
+    return target;
+  }
+}
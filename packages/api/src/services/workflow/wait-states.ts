@@ -0,0 +1,150 @@
+// ============================================
+// Workflow Wait States
+// Durable suspension points for delay and wait_for_reply nodes
+// ============================================
+
+import { FastifyInstance } from 'fastify';
+import { workflowLogger } from '../../utils/logger.js';
+
+export type WaitType = 'delay' | 'reply';
+
+export interface SuspendInput {
+  tenantId: string;
+  executionId: string;
+  nodeId: string;
+  waitType: WaitType;
+  config: Record<string, any>;
+  resumeAt?: Date | null;
+}
+
+export interface ResumeWorkflowJob {
+  waitStateId: string;
+  reason: 'timer' | 'reply';
+  reply?: {
+    messageId: string;
+    channel: string;
+    content: string;
+  };
+}
+
+export interface InboundReply {
+  tenantId: string;
+  leadId: string;
+  channel: string;
+  messageId: string;
+  content: string;
+}
+
+const UNIT_MS: Record<string, number> = {
+  seconds: 1000,
+  minutes: 60000,
+  hours: 3600000,
+  days: 86400000,
+};
+
+/**
+ * Node duration from `<key>Ms`, or `<key>` with a `unit` (seconds to days)
+ */
+export function nodeDurationMs(data: Record<string, any> = {}, key: 'delay' | 'timeout'): number | null {
+  const ms = Number(data[`${key}Ms`]);
+  if (ms > 0) return ms;
+
+  const value = Number(data[key]);
+  if (value > 0) return value * (UNIT_MS[data.unit] || UNIT_MS.minutes);
+
+  return null;
+}
+
+export class WorkflowWaitStates {
+  constructor(private app: FastifyInstance) {}
+
+  async suspend(input: SuspendInput): Promise<string> {
+    const state = await this.app.db.insert('workflow_wait_states', {
+      tenant_id: input.tenantId,
+      execution_id: input.executionId,
+      node_id: input.nodeId,
+      wait_type: input.waitType,
+      wait_config: JSON.stringify(input.config),
+      resume_at: input.resumeAt,
+      resumed: false,
+    });
+
+    // Timer for delays and reply timeouts; a reply without timeout waits indefinitely
+    if (input.resumeAt) {
+      await this.scheduleResume(state.id, input.resumeAt);
+    }
+
+    workflowLogger.debug(
+      { executionId: input.executionId, nodeId: input.nodeId, waitType: input.waitType, resumeAt: input.resumeAt },
+      'Workflow branch suspended'
+    );
+
+    return state.id;
+  }
+
+  /**
+   * Mark a wait state resumed. Only the first caller wins, so a reply racing
+   * its timeout resumes the branch exactly once.
+   */
+  async claim(waitStateId: string): Promise<any | null> {
+    return this.app.db.queryOne(
+      `UPDATE workflow_wait_states SET resumed = true
+       WHERE id = $1 AND resumed = false
+       RETURNING *`,
+      [waitStateId]
+    );
+  }
+
+  /**
+   * Resume every wait_for_reply branch of running executions for this lead
+   */
+  async resumeOnReply(reply: InboundReply): Promise<number> {
+    const states = await this.app.db.queryMany(
+      `SELECT ws.id FROM workflow_wait_states ws
+       JOIN workflow_executions e ON ws.execution_id = e.id
+       WHERE ws.tenant_id = $1 AND e.lead_id = $2 AND ws.wait_type = 'reply' AND ws.resumed = false
+         AND e.status IN ('running', 'waiting')
+         AND (ws.wait_config->>'channel' IS NULL OR ws.wait_config->>'channel' = $3)`,
+      [reply.tenantId, reply.leadId, reply.channel]
+    );
+
+    for (const state of states) {
+      await this.app.addJob('workflows', 'resume-workflow', {
+        waitStateId: state.id,
+        reason: 'reply',
+        reply: { messageId: reply.messageId, channel: reply.channel, content: reply.content },
+      } as ResumeWorkflowJob);
+    }
+
+    return states.length;
+  }
+
+  /**
+   * Re-enqueue overdue timers, e.g. when Redis lost delayed jobs
+   */
+  async recoverOverdue(): Promise<number> {
+    const states = await this.app.db.queryMany(
+      `SELECT id FROM workflow_wait_states
+       WHERE resumed = false AND resume_at < NOW() - INTERVAL '1 minute'`
+    );
+
+    for (const state of states) {
+      await this.scheduleResume(state.id, new Date());
+    }
+
+    if (states.length > 0) {
+      workflowLogger.warn({ count: states.length }, 'Recovered overdue workflow wait states');
+    }
+
+    return states.length;
+  }
+
+  private async scheduleResume(waitStateId: string, resumeAt: Date): Promise<void> {
+    await this.app.addJob(
+      'workflows',
+      'resume-workflow',
+      { waitStateId, reason: 'timer' } as ResumeWorkflowJob,
+      { delay: Math.max(0, resumeAt.getTime() - Date.now()) }
+    );
+  }
+}
@@ -7,92 +7,352 @@ import { Worker, Job } from 'bullmq';
 import { FastifyInstance } from 'fastify';
 import { config } from '../../config/index.js';
 import { queueLogger } from '../../utils/logger.js';
+import { ResumeWorkflowJob, WorkflowWaitStates, nodeDurationMs } from './wait-states.js';
+import { ExpressionScope, evaluateExpression, leadExpressionScope } from './expression.js';
+import { WorkflowScheduler } from './workflow-scheduler.js';
+import { chooseSplitPath } from './split-path.js';
+import { WorkflowAiAgent } from './ai-agent.js';
+import { EnrollmentSettings, WorkflowEnrollment, enrollmentSettings } from './enrollment.js';
+import { NotificationService } from '../notifications/notifications.js';
+import {
+  ExecutionLog,
+  RetryExecutionJob,
+  lastFailedStep,
+  nodeRetryPolicy,
+  retryDelayMs,
+  stepOutputs,
+} from './execution-log.js';
+
+interface RunOutcome {
+  results: Array<{ nodeId: string; result: any }>;
+  failed: boolean;
+  // A failed node has attempts left and a retry-execution job queued
+  retrying?: boolean;
+}
 
 export class WorkflowEngine {
   private worker: Worker | null = null;
-
-  constructor(private app: FastifyInstance) {}
+  private waitStates: WorkflowWaitStates;
+  private scheduler: WorkflowScheduler;
+  private log: ExecutionLog;
+  private notifications: NotificationService;
+  private aiAgent: WorkflowAiAgent;
+  private enrollment: WorkflowEnrollment;
+
+  constructor(private app: FastifyInstance) {
+    this.waitStates = new WorkflowWaitStates(app);
+    this.scheduler = new WorkflowScheduler(app);
+    this.log = new ExecutionLog(app);
+    this.notifications = new NotificationService(app);
+    this.aiAgent = new WorkflowAiAgent(app);
+    this.enrollment = new WorkflowEnrollment(app);
+  }
 
   async initialize(): Promise<void> {
     this.worker = new Worker(
       'workflows',
       async (job: Job) => {
-        const { workflowId, tenantId, leadId, triggerData } = job.data;
+        switch (job.name) {
+          case 'resume-workflow':
+            return this.resume(job.data);
+          case 'scheduled-workflow':
+            return this.scheduler.runTick(job);
+          case 'retry-execution':
+            return this.retry(job.data);
+          default:
+            return this.start(job.data);
+        }
+      },
+      { concurrency: config.queue.concurrency.workflows }
+    );
 
-        queueLogger.debug({ workflowId, leadId }, 'Executing workflow');
+    this.worker.on('completed', (job) => {
+      queueLogger.debug({ jobId: job.id }, 'Workflow job completed');
+    });
 
-        try {
-          // Get workflow definition
-          const workflow = await this.app.db.queryOne(
-            'SELECT nodes, edges FROM workflows WHERE id = $1 AND tenant_id = $2',
-            [workflowId, tenantId]
-          );
+    this.worker.on('failed', (job, error) => {
+      queueLogger.error({ jobId: job?.id, error }, 'Workflow job failed');
+    });
 
-          if (!workflow) {
-            throw new Error('Workflow not found');
-          }
+    await this.waitStates.recoverOverdue();
+    await this.scheduler.sync();
 
-          const nodes = JSON.parse(workflow.nodes);
-          const edges = JSON.parse(workflow.edges);
+    queueLogger.info('Workflow engine initialized');
+  }
 
-          // Create execution record
-          const execution = await this.app.db.insert('workflow_executions', {
-            workflow_id: workflowId,
-            tenant_id: tenantId,
-            lead_id: leadId,
-            status: 'running',
-            context: JSON.stringify(triggerData || {}),
-            node_results: JSON.stringify([]),
-          });
+  private async start(data: any): Promise<any> {
+    const { workflowId, tenantId, leadId, triggerData, draft } = data;
 
-          // Execute workflow nodes
-          const results = await this.executeNodes(nodes, edges, execution.id, tenantId, leadId, triggerData);
+    queueLogger.debug({ workflowId, leadId }, 'Executing workflow');
 
-          // Update execution record
-          await this.app.db.query(
-            "UPDATE workflow_executions SET status = 'completed', completed_at = NOW(), node_results = $1 WHERE id = $2",
-            [JSON.stringify(results), execution.id]
-          );
+    try {
+      const workflow = await this.loadWorkflow(workflowId, tenantId, { draft });
+
+      if (!workflow) {
+        throw new Error('Workflow not found');
+      }
+
+      // Find trigger node
+      const triggerNode = workflow.nodes.find((n: any) => n.type === 'trigger');
+      if (!triggerNode) {
+        throw new Error('No trigger node found');
+      }
 
-          return { executionId: execution.id, results };
-        } catch (error) {
-          queueLogger.error({ error, workflowId }, 'Workflow execution failed');
-          throw error;
+      const scope = await this.buildScope(tenantId, leadId, triggerData || {}, {});
+      const record = {
+        workflow_id: workflowId,
+        version_id: workflow.versionId,
+        tenant_id: tenantId,
+        lead_id: leadId,
+        status: 'running',
+        context: JSON.stringify(triggerData || {}),
+        node_results: JSON.stringify([]),
+      };
+
+      // Create execution record; enrollment rules apply to leads in live runs
+      let execution;
+      if (leadId && !draft) {
+        const enrolled = await this.enrollment.enroll(workflowId, leadId, workflow.enrollment, scope.lead!, record);
+        if (enrolled.blocked) {
+          return { skipped: true, reason: enrolled.blocked };
         }
-      },
-      { concurrency: config.queue.concurrency.workflows }
+        execution = enrolled.execution;
+      } else {
+        execution = await this.app.db.insert('workflow_executions', record);
+      }
+
+      // Execute workflow nodes
+      const outcome = await this.executeNodes(
+        workflow.nodes, workflow.edges, [triggerNode.id], execution.id, tenantId, leadId, triggerData, scope
+      );
+      const status = await this.finishRun(execution.id, outcome);
+
+      return { executionId: execution.id, status, results: outcome.results };
+    } catch (error) {
+      queueLogger.error({ error, workflowId }, 'Workflow execution failed');
+      throw error;
+    }
+  }
+
+  // Continue a suspended branch after its timer fired or the lead replied
+  private async resume({ waitStateId, reason, reply }: ResumeWorkflowJob): Promise<any> {
+    const state = await this.waitStates.claim(waitStateId);
+    if (!state) return { skipped: true };
+
+    const execution = await this.app.db.queryOne(
+      'SELECT * FROM workflow_executions WHERE id = $1',
+      [state.execution_id]
     );
 
-    this.worker.on('completed', (job) => {
-      queueLogger.debug({ jobId: job.id }, 'Workflow job completed');
+    if (!execution || !['running', 'waiting'].includes(execution.status)) {
+      return { skipped: true };
+    }
+
+    // Edits published since the execution started do not apply to it; test runs stay on the draft
+    const workflow = await this.loadWorkflow(execution.workflow_id, execution.tenant_id, {
+      versionId: execution.version_id,
+      draft: !execution.version_id,
     });
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
 
-    this.worker.on('failed', (job, error) => {
-      queueLogger.error({ jobId: job?.id, error }, 'Workflow job failed');
+    // A goal met while the branch waited ends the execution instead
+    if (execution.lead_id && workflow.enrollment.goal) {
+      const lead = await this.buildScope(execution.tenant_id, execution.lead_id, {}, {});
+      if (this.enrollment.goalMet(workflow.enrollment, lead.lead!)) {
+        await this.enrollment.exitOnGoal(execution.id, execution.workflow_id);
+        return { executionId: execution.id, status: 'cancelled', reason: 'goal_met' };
+      }
+    }
+
+    queueLogger.debug({ executionId: execution.id, nodeId: state.node_id, reason }, 'Resuming workflow');
+
+    let context = execution.context || {};
+    let result: any = { resumed: true };
+    if (state.wait_type === 'reply') {
+      result = reason === 'reply'
+        ? { resumed: true, replied: true, handle: 'replied', reply }
+        : { resumed: true, replied: false, timedOut: true, handle: 'timeout' };
+
+      if (reply) {
+        context = { ...context, reply };
+        await this.app.db.query(
+          'UPDATE workflow_executions SET context = $1 WHERE id = $2',
+          [JSON.stringify(context), execution.id]
+        );
+      }
+    }
+
+    const node = workflow.nodes.find((n: any) => n.id === state.node_id) || { id: state.node_id };
+    await this.log.record(execution.id, node, result);
+
+    const scope = await this.buildScope(
+      execution.tenant_id,
+      execution.lead_id,
+      context,
+      { ...stepOutputs(execution.node_results), [state.node_id]: result }
+    );
+
+    const outcome = await this.executeNodes(
+      workflow.nodes,
+      workflow.edges,
+      this.nextNodes(workflow.edges, state.node_id, result, scope),
+      execution.id,
+      execution.tenant_id,
+      execution.lead_id,
+      context,
+      scope
+    );
+    const status = await this.finishRun(execution.id, outcome);
+
+    return { executionId: execution.id, status, results: [{ nodeId: state.node_id, result }, ...outcome.results] };
+  }
+
+  /**
+   * Re-run a failed execution from the node that failed, followed by the
+   * nodes that were still queued. Nodes that already succeeded, with their
+   * sends and tag changes, are not repeated.
+   */
+  private async retry({ executionId, attempt = 1 }: RetryExecutionJob): Promise<any> {
+    const execution = await this.app.db.queryOne(
+      'SELECT * FROM workflow_executions WHERE id = $1',
+      [executionId]
+    );
+
+    // The retry route moves the execution back to running before queueing
+    if (!execution || execution.status !== 'running') {
+      return { skipped: true };
+    }
+
+    const failed = lastFailedStep(execution.node_results);
+    if (!failed) {
+      return { skipped: true };
+    }
+
+    const workflow = await this.loadWorkflow(execution.workflow_id, execution.tenant_id, {
+      versionId: execution.version_id,
+      draft: !execution.version_id,
     });
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
 
-    queueLogger.info('Workflow engine initialized');
+    queueLogger.debug({ executionId, nodeId: failed.nodeId }, 'Retrying workflow execution');
+
+    const context = execution.context || {};
+    const scope = await this.buildScope(execution.tenant_id, execution.lead_id, context, stepOutputs(execution.node_results));
+
+    const outcome = await this.executeNodes(
+      workflow.nodes,
+      workflow.edges,
+      [failed.nodeId, ...(failed.pendingNodeIds || [])],
+      execution.id,
+      execution.tenant_id,
+      execution.lead_id,
+      context,
+      scope,
+      { [failed.nodeId]: attempt }
+    );
+    const status = await this.finishRun(execution.id, outcome);
+
+    return { executionId, status, results: outcome.results };
+  }
+
+  // Data visible to condition expressions
+  private async buildScope(
+    tenantId: string,
+    leadId: string,
+    context: any,
+    previousOutputs: Record<string, any>
+  ): Promise<ExpressionScope> {
+    const lead = leadId
+      ? await this.app.db.queryOne('SELECT * FROM leads WHERE id = $1 AND tenant_id = $2', [leadId, tenantId])
+      : null;
+
+    return {
+      lead: leadExpressionScope(lead),
+      trigger: context || {},
+      reply: context?.reply,
+      nodes: { ...previousOutputs },
+    };
+  }
+
+  /**
+   * Definition an execution runs: the version it started on, else the
+   * published version. Test runs use the draft, as do workflows activated
+   * before versioning.
+   */
+  private async loadWorkflow(
+    workflowId: string,
+    tenantId: string,
+    options: { versionId?: string | null; draft?: boolean } = {}
+  ): Promise<{ versionId: string | null; nodes: any[]; edges: any[]; enrollment: EnrollmentSettings } | null> {
+    const workflow = await this.app.db.queryOne(
+      `SELECT w.nodes, w.edges, w.enrollment, v.id AS version_id, v.nodes AS version_nodes, v.edges AS version_edges
+       FROM workflows w
+       LEFT JOIN workflow_versions v ON v.id = COALESCE($3::uuid, w.published_version_id) AND NOT $4::boolean
+       WHERE w.id = $1 AND w.tenant_id = $2`,
+      [workflowId, tenantId, options.versionId || null, Boolean(options.draft)]
+    );
+
+    if (!workflow) return null;
+
+    // JSONB columns arrive parsed; older rows may hold JSON strings
+    const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value || []);
+    const enrollment = enrollmentSettings(workflow.enrollment);
+    if (workflow.version_id) {
+      return {
+        versionId: workflow.version_id,
+        nodes: parse(workflow.version_nodes),
+        edges: parse(workflow.version_edges),
+        enrollment,
+      };
+    }
+    return { versionId: null, nodes: parse(workflow.nodes), edges: parse(workflow.edges), enrollment };
+  }
+
+  // A failed or cancelled execution keeps its status; otherwise it stays waiting while any branch is suspended
+  private async finishRun(executionId: string, outcome: RunOutcome): Promise<string> {
+    if (outcome.failed) return 'failed';
+    if (outcome.retrying) return 'running';
+
+    const execution = await this.app.db.queryOne(
+      `UPDATE workflow_executions
+       SET status = CASE WHEN pending.waiting THEN 'waiting' ELSE 'completed' END,
+           completed_at = CASE WHEN pending.waiting THEN NULL ELSE NOW() END
+       FROM (
+         SELECT EXISTS (
+           SELECT 1 FROM workflow_wait_states WHERE execution_id = $1 AND resumed = false
+         ) AS waiting
+       ) AS pending
+       WHERE id = $1 AND status IN ('running', 'waiting')
+       RETURNING status`,
+      [executionId]
+    );
+
+    if (execution) return execution.status;
+
+    const current = await this.app.db.queryOne('SELECT status FROM workflow_executions WHERE id = $1', [executionId]);
+    return current?.status || 'failed';
   }
 
   private async executeNodes(
     nodes: any[],
     edges: any[],
+    startNodeIds: string[],
     executionId: string,
     tenantId: string,
     leadId: string,
-    context: any
-  ): Promise<any[]> {
-    const results: any[] = [];
+    context: any,
+    scope: ExpressionScope,
+    attempts: Record<string, number> = {}
+  ): Promise<RunOutcome> {
+    const results: RunOutcome['results'] = [];
     const executedNodes = new Set<string>();
 
-    // Find trigger node
-    const triggerNode = nodes.find((n) => n.type === 'trigger');
-    if (!triggerNode) {
-      throw new Error('No trigger node found');
-    }
-
     // BFS execution
-    const queue: string[] = [triggerNode.id];
+    const queue: string[] = [...startNodeIds];
 
     while (queue.length > 0) {
       const nodeId = queue.shift()!;
@@ -102,30 +362,92 @@ export class WorkflowEngine {
       if (!node) continue;
 
       // Execute node
-      const result = await this.executeNode(node, tenantId, leadId, context);
-      results.push({ nodeId, result });
+      const step = await this.runNode(node, executionId, tenantId, leadId, context, scope, attempts[nodeId] || 1);
       executedNodes.add(nodeId);
 
-      // Find next nodes
-      const outgoingEdges = edges.filter((e) => e.source === nodeId);
-      for (const edge of outgoingEdges) {
-        // Check condition if present
-        if (edge.condition) {
-          const conditionMet = this.evaluateCondition(edge.condition, result);
-          if (!conditionMet) continue;
+      if (step.error) {
+        await this.log.fail(executionId, step.stepId, step.attempts, step.error.message, queue);
+
+        // Attempts left: a delayed job re-runs the node and the queued ones, no worker waits on it
+        const policy = nodeRetryPolicy(node.data);
+        if (step.attempts < policy.maxAttempts) {
+          const delay = retryDelayMs(policy, step.attempts);
+          queueLogger.warn(
+            { executionId, nodeId, attempt: step.attempts, delay, error: step.error.message },
+            'Retrying workflow node'
+          );
+          await this.app.db.query(
+            `UPDATE workflow_executions SET status = 'running' WHERE id = $1 AND status IN ('running', 'waiting')`,
+            [executionId]
+          );
+          await this.app.addJob(
+            'workflows',
+            'retry-execution',
+            { executionId, attempt: step.attempts + 1 },
+            { delay }
+          );
+          return { results, failed: false, retrying: true };
         }
-        queue.push(edge.target);
+
+        await this.app.db.query(
+          `UPDATE workflow_executions SET status = 'failed', error = $2, completed_at = NOW()
+           WHERE id = $1 AND status IN ('running', 'waiting')`,
+          [executionId, `Node ${nodeId} failed: ${step.error.message}`]
+        );
+        queueLogger.error({ executionId, nodeId, error: step.error }, 'Workflow node failed');
+        return { results, failed: true };
       }
+
+      const result = step.output;
+      results.push({ nodeId, result });
+      scope.nodes![nodeId] = result;
+
+      // Suspended branches continue from their wait state; other branches keep running
+      if (result?.suspended) continue;
+
+      queue.push(...this.nextNodes(edges, nodeId, result, scope));
+    }
+
+    return { results, failed: false };
+  }
+
+  // Run one attempt of a node, logging the step as it goes
+  private async runNode(
+    node: any,
+    executionId: string,
+    tenantId: string,
+    leadId: string,
+    context: any,
+    scope: ExpressionScope,
+    attempt: number
+  ): Promise<{ stepId: string; attempts: number; output?: any; error?: Error }> {
+    const step = await this.log.start(executionId, node);
+
+    try {
+      const output = await this.executeNode(node, executionId, tenantId, leadId, context, scope);
+      await this.log.finish(executionId, step.stepId, attempt, output);
+      return { stepId: step.stepId, attempts: attempt, output };
+    } catch (error) {
+      return { stepId: step.stepId, attempts: attempt, error: error as Error };
     }
+  }
 
-    return results;
+  // Outgoing edges to follow: a result handle (e.g. replied/timeout) selects matching sourceHandles
+  private nextNodes(edges: any[], nodeId: string, result: any, scope: ExpressionScope): string[] {
+    return edges
+      .filter((e) => e.source === nodeId)
+      .filter((e) => !result?.handle || !e.sourceHandle || e.sourceHandle === result.handle)
+      .filter((e) => !e.condition || this.evaluateCondition(e.condition, { ...scope, result }))
+      .map((e) => e.target);
   }
 
   private async executeNode(
     node: any,
+    executionId: string,
     tenantId: string,
     leadId: string,
-    context: any
+    context: any,
+    scope: ExpressionScope
   ): Promise<any> {
     queueLogger.debug({ nodeType: node.type, nodeId: node.id }, 'Executing node');
 
@@ -133,43 +455,99 @@ export class WorkflowEngine {
       case 'trigger':
         return { triggered: true };
 
-      case 'send_message':
-        // Queue message
-        await this.app.addJob('messages', 'send-message', {
-          tenantId,
-          leadId,
-          channel: node.data.channel,
-          content: node.data.content,
+      case 'send_message': {
+        const messageId = await this.queueMessage(tenantId, leadId, executionId, node.data.channel, node.data.content);
+        return { sent: true, messageId };
+      }
+
+      case 'send_email': {
+        const messageId = await this.queueMessage(tenantId, leadId, executionId, 'email', node.data.content, {
+          subject: node.data.subject,
+        });
+        return { sent: true, messageId };
+      }
+
+      case 'make_call': {
+        const lead = await this.app.db.queryOne(
+          'SELECT phone FROM leads WHERE id = $1 AND tenant_id = $2',
+          [leadId, tenantId]
+        );
+        if (!lead?.phone) {
+          return { called: false, reason: 'no_phone' };
+        }
+
+        const script = await this.app.db.queryOne(
+          'SELECT id, ai_prompt FROM call_scripts WHERE id = $1 AND tenant_id = $2',
+          [node.data.scriptId, tenantId]
+        );
+        if (!script) {
+          throw new Error(`Call script ${node.data.scriptId} not found`);
+        }
+
+        const aiEnabled = node.data.aiEnabled !== false;
+        const call = await this.app.db.insert('voice_calls', {
+          tenant_id: tenantId,
+          lead_id: leadId,
+          workflow_execution_id: executionId,
+          direction: 'outbound',
+          status: 'queued',
+          to_number: lead.phone,
+          from_number: process.env.TWILIO_FROM_NUMBER,
+          ai_enabled: aiEnabled,
+          ai_script: script.ai_prompt,
         });
-        return { sent: true };
 
-      case 'send_email':
-        await this.app.addJob('messages', 'send-message', {
+        await this.app.addJob('voice', 'make-call', {
+          callId: call.id,
           tenantId,
           leadId,
-          channel: 'email',
-          content: node.data.content,
-          subject: node.data.subject,
+          phoneNumber: lead.phone,
+          script: script.ai_prompt,
+          scriptId: script.id,
+          aiEnabled,
         });
-        return { sent: true };
+        return { called: true, callId: call.id };
+      }
+
+      case 'notify_user': {
+        // data.recipient picks "user" (data.userId), "role" (data.role) or "assignee" of the lead
+        const recipient = node.data.recipient || (node.data.userId ? 'user' : 'assignee');
+        const userIds = await this.notifications.resolveRecipients(tenantId, {
+          userId: recipient === 'user' ? node.data.userId : undefined,
+          role: recipient === 'role' ? node.data.role : undefined,
+          assigneeOf: recipient === 'assignee' ? leadId : undefined,
+        });
+
+        await this.notifications.notify(tenantId, userIds, {
+          type: 'workflow',
+          title: node.data.title,
+          message: node.data.message,
+          data: { executionId, nodeId: node.id, leadId },
+        });
+        return { notified: userIds.length, userIds };
+      }
 
       case 'add_tag':
-        await this.app.db.query(
-          'UPDATE leads SET tags = array_append(tags, $1) WHERE id = $2 AND tenant_id = $3',
-          [node.data.tag, leadId, tenantId]
-        );
+        await this.changeLeadTags(tenantId, leadId, 'array_append', node.data.tag);
         return { tagged: true };
 
       case 'remove_tag':
-        await this.app.db.query(
-          'UPDATE leads SET tags = array_remove(tags, $1) WHERE id = $2 AND tenant_id = $3',
-          [node.data.tag, leadId, tenantId]
-        );
+        await this.changeLeadTags(tenantId, leadId, 'array_remove', node.data.tag);
         return { untagged: true };
 
-      case 'update_lead':
-        await this.app.db.update('leads', leadId, node.data.updates);
+      case 'update_lead': {
+        const updates = node.data.updates || {};
+        // Previous tags let tag workflows see what was added or removed
+        const previous = updates.tags
+          ? await this.app.db.queryOne('SELECT tags FROM leads WHERE id = $1 AND tenant_id = $2', [leadId, tenantId])
+          : null;
+
+        const lead = await this.app.db.update('leads', leadId, updates);
+        if (lead) {
+          await this.app.eventBus.publishLeadChanges(tenantId, lead, Object.keys(updates), previous?.tags);
+        }
         return { updated: true };
+      }
 
       case 'create_task':
         await this.app.db.insert('tasks', {
@@ -182,13 +560,47 @@ export class WorkflowEngine {
         });
         return { created: true };
 
-      case 'delay':
-        // Delay is handled by job scheduling
-        await new Promise((resolve) => setTimeout(resolve, node.data.delayMs || 1000));
-        return { delayed: true };
+      case 'delay': {
+        // Persisted and resumed by a delayed job instead of holding a worker slot
+        const delayMs = nodeDurationMs(node.data, 'delay') || 1000;
+        const resumeAt = new Date(Date.now() + delayMs);
+        const waitStateId = await this.waitStates.suspend({
+          tenantId,
+          executionId,
+          nodeId: node.id,
+          waitType: 'delay',
+          config: { delayMs },
+          resumeAt,
+        });
+        return { suspended: true, waitStateId, resumeAt: resumeAt.toISOString() };
+      }
+
+      case 'wait_for_reply': {
+        // Resumed by an inbound message (handle "replied") or the timeout (handle "timeout")
+        const timeoutMs = nodeDurationMs(node.data, 'timeout');
+        const timeoutAt = timeoutMs ? new Date(Date.now() + timeoutMs) : null;
+        const waitStateId = await this.waitStates.suspend({
+          tenantId,
+          executionId,
+          nodeId: node.id,
+          waitType: 'reply',
+          config: { channel: node.data?.channel || null, timeoutMs },
+          resumeAt: timeoutAt,
+        });
+        return { suspended: true, waitStateId, timeoutAt: timeoutAt?.toISOString() || null };
+      }
 
-      case 'condition':
-        return { condition: node.data.condition };
+      case 'condition': {
+        // Outgoing edges with sourceHandle "true"/"false" pick the branch
+        const passed = this.evaluateCondition(node.data.condition, scope);
+        return { condition: node.data.condition, result: passed, handle: passed ? 'true' : 'false' };
+      }
+
+      case 'split_path': {
+        // Outgoing edges with a sourceHandle per path take the chosen share of leads
+        const path = chooseSplitPath(node.data, node.id, leadId);
+        return { path: path?.handle || null, handle: path?.handle };
+      }
 
       case 'webhook':
         await this.app.addJob('messages', 'send-webhook', {
@@ -199,8 +611,16 @@ export class WorkflowEngine {
         return { webhookSent: true };
 
       case 'ai_agent':
-        // Trigger AI conversation
-        return { aiTriggered: true };
+        // Outgoing edges with sourceHandle "handoff"/"continue" branch on the AI's handoff decision
+        return this.aiAgent.runTurn({
+          tenantId,
+          leadId,
+          executionId,
+          nodeId: node.id,
+          data: node.data || {},
+          context: context || {},
+          lead: scope.lead || {},
+        });
 
       case 'end':
         return { ended: true };
@@ -210,12 +630,98 @@ export class WorkflowEngine {
     }
   }
 
-  private evaluateCondition(condition: string, result: any): boolean {
+  // Store a pending outbound message in the lead's conversation and queue its send
+  private async queueMessage(
+    tenantId: string,
+    leadId: string,
+    executionId: string,
+    channel: string,
+    content: string,
+    options: { subject?: string } = {}
+  ): Promise<string> {
+    let conversation = await this.app.db.queryOne(
+      `SELECT id FROM conversations
+       WHERE tenant_id = $1 AND lead_id = $2 AND channel = $3 AND status = 'active'
+       ORDER BY last_message_at DESC NULLS LAST
+       LIMIT 1`,
+      [tenantId, leadId, channel]
+    );
+
+    if (!conversation) {
+      conversation = await this.app.db.insert('conversations', {
+        tenant_id: tenantId,
+        lead_id: leadId,
+        channel,
+        status: 'active',
+        ai_enabled: true,
+        unread_count: 0,
+      });
+
+      await this.app.eventBus.publish('conversation_started', {
+        tenantId,
+        leadId,
+        data: { conversationId: conversation.id, channel },
+      });
+    }
+
+    const message = await this.app.db.insert('messages', {
+      tenant_id: tenantId,
+      conversation_id: conversation.id,
+      channel,
+      direction: 'outbound',
+      content,
+      content_type: 'text',
+      status: 'pending',
+      metadata: JSON.stringify({ workflowExecutionId: executionId, ...(options.subject && { subject: options.subject }) }),
+    });
+
+    await this.app.addJob('messages', 'send-message', {
+      messageId: message.id,
+      tenantId,
+      channel,
+      content,
+      subject: options.subject,
+    });
+
+    await this.app.db.query(
+      'UPDATE conversations SET last_message_at = NOW(), last_message_preview = $1 WHERE id = $2',
+      [(content || '').substring(0, 100), conversation.id]
+    );
+
+    this.app.broadcastToConversation(conversation.id, 'message:sent', {
+      messageId: message.id,
+      content,
+      status: 'pending',
+    });
+
+    return message.id;
+  }
+
+  // Add or remove one tag and publish the change so tag workflows trigger
+  private async changeLeadTags(
+    tenantId: string,
+    leadId: string,
+    change: 'array_append' | 'array_remove',
+    tag: string
+  ): Promise<void> {
+    const lead = await this.app.db.queryOne(
+      `UPDATE leads l SET tags = ${change}(l.tags, $1), updated_at = NOW()
+       FROM (SELECT id, tags FROM leads WHERE id = $2 AND tenant_id = $3 FOR UPDATE) AS previous
+       WHERE l.id = previous.id
+       RETURNING l.id, l.tags, previous.tags AS previous_tags`,
+      [tag, leadId, tenantId]
+    );
+    if (lead) {
+      await this.app.eventBus.publishLeadChanges(tenantId, lead, ['tags'], lead.previous_tags || []);
+    }
+  }
+
+  private evaluateCondition(condition: string, scope: ExpressionScope): boolean {
     try {
-      // Simple condition evaluation
-      // In production, use a proper expression evaluator
-      return true;
-    } catch {
+      return Boolean(evaluateExpression(condition, scope));
+    } catch (error) {
+      // Saved workflows are validated, so this only catches legacy definitions
+      queueLogger.warn({ condition, error: (error as Error).message }, 'Workflow condition failed to evaluate');
       return false;
     }
   }
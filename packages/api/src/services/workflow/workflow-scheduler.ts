@@ -0,0 +1,198 @@
+// ============================================
+// Workflow Scheduler
+// Cron triggers backed by BullMQ repeatable jobs
+// ============================================
+
+import { Job } from 'bullmq';
+import { FastifyInstance } from 'fastify';
+import { workflowLogger } from '../../utils/logger.js';
+import { buildLeadFilter } from '../../utils/lead-filter.js';
+import { isValidTimezone } from '../../utils/timezone.js';
+
+export interface ScheduledWorkflowJob {
+  workflowId: string;
+  tenantId: string;
+}
+
+const SCHEDULE_JOB = 'scheduled-workflow';
+
+// Leads fetched and enqueued per round of a tick's fan-out
+const FAN_OUT_BATCH = 500;
+
+function parseTrigger(trigger: any): any {
+  return typeof trigger === 'string' ? JSON.parse(trigger) : trigger;
+}
+
+// One repeatable per workflow, so re-registering replaces rather than duplicates
+function repeatJobId(workflowId: string): string {
+  return `workflow-schedule-${workflowId}`;
+}
+
+/**
+ * Validate the cron schedule of a `schedule` trigger, returning an error
+ * message or null
+ */
+export function validateTriggerSchedule(trigger: any): string | null {
+  if (trigger?.type !== 'schedule') return null;
+
+  const schedule = trigger.schedule;
+  if (!schedule?.cron || typeof schedule.cron !== 'string') {
+    return 'Schedule trigger needs a cron expression';
+  }
+
+  const fields = schedule.cron.trim().split(/\s+/);
+  if (fields.length < 5 || fields.length > 6) {
+    return 'Cron expression must have 5 fields, or 6 with seconds';
+  }
+
+  if (schedule.timezone && !isValidTimezone(schedule.timezone)) {
+    return `Unknown timezone: ${schedule.timezone}`;
+  }
+
+  return null;
+}
+
+export class WorkflowScheduler {
+  constructor(private app: FastifyInstance) {}
+
+  /**
+   * Register the cron repeatable for a published trigger, replacing any
+   * previous one. Other trigger types only drop a stale repeatable.
+   */
+  async register(workflow: { id: string; tenant_id: string; trigger: any }): Promise<void> {
+    await this.unregister(workflow.id);
+
+    const trigger = parseTrigger(workflow.trigger);
+    if (trigger?.type !== 'schedule' || !trigger.schedule?.cron) return;
+
+    const timezone = trigger.schedule.timezone || (await this.tenantTimezone(workflow.tenant_id));
+
+    await this.app.addJob(
+      'workflows',
+      SCHEDULE_JOB,
+      { workflowId: workflow.id, tenantId: workflow.tenant_id } as ScheduledWorkflowJob,
+      {
+        jobId: repeatJobId(workflow.id),
+        repeat: { pattern: trigger.schedule.cron, tz: timezone },
+      }
+    );
+
+    workflowLogger.info({ workflowId: workflow.id, cron: trigger.schedule.cron, timezone }, 'Workflow schedule registered');
+  }
+
+  async unregister(workflowId: string): Promise<void> {
+    const repeatables = await this.app.queues.workflows.getRepeatableJobs();
+
+    for (const repeatable of repeatables) {
+      if (repeatable.name === SCHEDULE_JOB && repeatable.id === repeatJobId(workflowId)) {
+        await this.app.queues.workflows.removeRepeatableByKey(repeatable.key);
+      }
+    }
+  }
+
+  /**
+   * Re-register every active schedule workflow and drop repeatables whose
+   * workflow is gone or inactive
+   */
+  async sync(): Promise<void> {
+    const workflows = await this.app.db.queryMany(
+      `SELECT w.id, w.tenant_id, COALESCE(v.trigger, w.trigger) AS trigger
+       FROM workflows w
+       LEFT JOIN workflow_versions v ON v.id = w.published_version_id
+       WHERE w.status = 'active' AND COALESCE(v.trigger, w.trigger)->>'type' = 'schedule'`
+    );
+    const activeIds = new Set(workflows.map((w) => repeatJobId(w.id)));
+
+    const repeatables = await this.app.queues.workflows.getRepeatableJobs();
+    for (const repeatable of repeatables) {
+      if (repeatable.name === SCHEDULE_JOB && !activeIds.has(repeatable.id || '')) {
+        await this.app.queues.workflows.removeRepeatableByKey(repeatable.key);
+      }
+    }
+
+    for (const workflow of workflows) {
+      try {
+        await this.register(workflow);
+      } catch (error) {
+        workflowLogger.error({ error, workflowId: workflow.id }, 'Failed to register workflow schedule');
+      }
+    }
+  }
+
+  /**
+   * One cron tick: start an execution per lead in the trigger's segment,
+   * or a single lead-less execution when there is no segment
+   */
+  async runTick(job: Job<ScheduledWorkflowJob>): Promise<number> {
+    const { workflowId, tenantId } = job.data;
+
+    const workflow = await this.app.db.queryOne(
+      `SELECT w.id, COALESCE(v.trigger, w.trigger) AS trigger
+       FROM workflows w
+       LEFT JOIN workflow_versions v ON v.id = w.published_version_id
+       WHERE w.id = $1 AND w.tenant_id = $2 AND w.status = 'active'`,
+      [workflowId, tenantId]
+    );
+    const trigger = workflow ? parseTrigger(workflow.trigger) : null;
+
+    if (trigger?.type !== 'schedule') {
+      await this.unregister(workflowId);
+      return 0;
+    }
+
+    const triggerData = { event: 'schedule', cron: trigger.schedule?.cron, firedAt: new Date().toISOString() };
+    // Stable across retries of the tick, so a retried fan-out does not start leads twice
+    const tickId = `${workflowId}-${job.timestamp}`;
+
+    if (!trigger.schedule?.segment) {
+      await this.app.addJob(
+        'workflows',
+        'execute-workflow',
+        { workflowId, tenantId, triggerData },
+        { jobId: tickId }
+      );
+      return 1;
+    }
+
+    const { conditions, params } = buildLeadFilter(tenantId, trigger.schedule.segment, trigger.schedule.segment.leadIds);
+    let lastId: string | null = null;
+    let started = 0;
+
+    // Keyset pagination keeps large segments out of memory
+    while (true) {
+      const leads: any[] = await this.app.db.queryMany(
+        `SELECT id FROM leads
+         WHERE ${conditions.join(' AND ')} AND ($${params.length + 1}::uuid IS NULL OR id > $${params.length + 1})
+         ORDER BY id
+         LIMIT ${FAN_OUT_BATCH}`,
+        [...params, lastId]
+      );
+
+      if (leads.length === 0) break;
+
+      await this.app.addBulkJobs(
+        'workflows',
+        leads.map((lead) => ({
+          name: 'execute-workflow',
+          data: { workflowId, tenantId, leadId: lead.id, triggerData },
+          opts: { jobId: `${tickId}-${lead.id}` },
+        }))
+      );
+
+      started += leads.length;
+      lastId = leads[leads.length - 1].id;
+      if (leads.length < FAN_OUT_BATCH) break;
+    }
+
+    workflowLogger.info({ workflowId, started }, 'Scheduled workflow tick fanned out');
+    return started;
+  }
+
+  private async tenantTimezone(tenantId: string): Promise<string> {
+    const tenant = await this.app.db.queryOne(
+      "SELECT settings->>'timezone' AS timezone FROM tenants WHERE id = $1",
+      [tenantId]
+    );
+    return isValidTimezone(tenant?.timezone) ? tenant.timezone : 'UTC';
+  }
+}
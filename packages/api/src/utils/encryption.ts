@@ -188,6 +188,28 @@ export function compareHash(value: string, hashValue: string): boolean {
   );
 }
 
+/**
+ * Sign a value with the system encryption key (HMAC-SHA256)
+ * Used for tokens embedded in provider webhook URLs.
+ * @param value - The value to sign
+ * @returns Hex-encoded signature
+ */
+export function signToken(value: string): string {
+  return crypto.createHmac('sha256', KEY).update(value).digest('hex');
+}
+
+/**
+ * Timing-safe string comparison
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both strings are equal
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
 /**
  * Encrypt credentials object for storage
  * @param credentials - The credentials object
@@ -0,0 +1,85 @@
+// ============================================
+// Humanize Utilities
+// Send jitter, typing time and content variation for bulk sends
+// ============================================
+
+export type RandomSource = () => number;
+
+/**
+ * Random numbers in [0, 1). With a seed the sequence is repeatable, so the
+ * same seed always yields the same delays and content; without one it is
+ * Math.random.
+ */
+export function seededRandom(seed?: string | number | null): RandomSource {
+  if (seed === undefined || seed === null || seed === '') return Math.random;
+
+  // FNV-1a hash of the seed, then mulberry32
+  let state = 2166136261;
+  for (const char of String(seed)) {
+    state = Math.imul(state ^ char.charCodeAt(0), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Cumulative delays for count sends, each gap drawn between minMs and maxMs,
+ * starting at 0 for the first send
+ */
+export function jitteredDelays(count: number, minMs: number, maxMs: number, random: RandomSource = Math.random): number[] {
+  const min = Math.max(0, minMs);
+  const max = Math.max(min, maxMs);
+  const delays: number[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (i > 0) offset += min + Math.floor(random() * (max - min + 1));
+    delays.push(offset);
+  }
+
+  return delays;
+}
+
+// Typing speed of a person on a phone keyboard, in characters per second
+const TYPING_CHARS_PER_SECOND = { min: 4, max: 8 };
+
+/**
+ * How long a person would take to type the text, for providers that show
+ * "typing..." before sending. Capped so the provider call does not time out.
+ */
+export function typingDelayMs(
+  text: string,
+  random: RandomSource = Math.random,
+  bounds: { minMs?: number; maxMs?: number } = {}
+): number {
+  const { minMs = 1000, maxMs = 8000 } = bounds;
+  const speed = TYPING_CHARS_PER_SECOND.min + random() * (TYPING_CHARS_PER_SECOND.max - TYPING_CHARS_PER_SECOND.min);
+  const ms = Math.round(((text || '').length / speed) * 1000);
+  return Math.min(Math.max(ms, minMs), maxMs);
+}
+
+// Innermost {a|b|c} group; {{variable}} placeholders have no "|" and are left alone
+const SPIN_GROUP = /\{([^{}]*\|[^{}]*)\}/;
+
+/**
+ * Resolve spintax such as "{Hi|Hello} {{firstName}}, {thanks|thank you}!"
+ * by picking one option per group. Groups may be nested.
+ */
+export function spinContent(content: string, random: RandomSource = Math.random): string {
+  let result = content || '';
+  let match: RegExpExecArray | null;
+
+  while ((match = SPIN_GROUP.exec(result))) {
+    const options = match[1].split('|');
+    const choice = options[Math.floor(random() * options.length)];
+    result = result.slice(0, match.index) + choice + result.slice(match.index + match[0].length);
+  }
+
+  return result;
+}
+
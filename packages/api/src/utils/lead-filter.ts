@@ -0,0 +1,41 @@
+// ============================================
+// Lead Filter
+// Translates a LeadFilter into a WHERE clause over leads
+// ============================================
+
+// Mirrors the lead_temperature thresholds of the lead scoring model
+export const LEAD_TEMPERATURE_SQL = `CASE WHEN score_total >= 70 THEN 'hot' WHEN score_total >= 40 THEN 'warm' ELSE 'cold' END`;
+
+export interface LeadFilterClause {
+  conditions: string[];
+  params: any[];
+}
+
+/**
+ * Conditions start with the tenant ($1) and exclude deleted leads; callers
+ * may append further conditions and params.
+ */
+export function buildLeadFilter(tenantId: string, filter: Record<string, any> = {}, leadIds?: string[]): LeadFilterClause {
+  const conditions = ['tenant_id = $1', 'deleted_at IS NULL'];
+  const params: any[] = [tenantId];
+
+  const add = (sql: string, value: any) => {
+    params.push(value);
+    conditions.push(sql.replace('$?', `$${params.length}`));
+  };
+
+  if (leadIds?.length) add('id = ANY($?::uuid[])', leadIds);
+  if (filter.tags?.length) add('tags && $?::text[]', filter.tags);
+  if (filter.status?.length) add('status = ANY($?::text[])', filter.status);
+  if (filter.source?.length) add('source = ANY($?::text[])', filter.source);
+  if (filter.temperature?.length) add(`(${LEAD_TEMPERATURE_SQL}) = ANY($?::text[])`, filter.temperature);
+  if (filter.scoreMin !== undefined) add('score_total >= $?', filter.scoreMin);
+  if (filter.scoreMax !== undefined) add('score_total <= $?', filter.scoreMax);
+  if (filter.lastActivityAfter) add('last_activity_at >= $?', filter.lastActivityAfter);
+  if (filter.lastActivityBefore) add('last_activity_at <= $?', filter.lastActivityBefore);
+  if (filter.customFields && Object.keys(filter.customFields).length > 0) {
+    add('custom_fields @> $?::jsonb', JSON.stringify(filter.customFields));
+  }
+
+  return { conditions, params };
+}
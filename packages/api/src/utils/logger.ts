@@ -40,3 +40,5 @@ export const messageLogger = createLogger('message');
 export const workflowLogger = createLogger('workflow');
 export const voiceLogger = createLogger('voice');
 export const webhookLogger = createLogger('webhook');
+export const campaignLogger = createLogger('campaign');
+export const eventLogger = createLogger('events');
@@ -0,0 +1,52 @@
+// ============================================
+// Template Utilities
+// Variable substitution for message templates
+// ============================================
+
+/**
+ * Replace {{variable}} placeholders with values.
+ * Unknown placeholders are left untouched so missing data is visible.
+ * Values pass through escape when given, e.g. for HTML output.
+ */
+export function renderTemplate(
+  content: string,
+  variables: Record<string, any> = {},
+  escape?: (value: string) => string
+): string {
+  if (!content) return '';
+
+  return content.replace(/{{\s*([\w.]+)\s*}}/g, (match, key: string) => {
+    const value = key.split('.').reduce((obj: any, k) => obj?.[k], variables);
+    if (value === undefined || value === null) return match;
+    return escape ? escape(String(value)) : String(value);
+  });
+}
+
+/**
+ * Extract the ordered, de-duplicated variable names used in a template
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names: string[] = [];
+  for (const match of (content || '').matchAll(/{{\s*([\w.]+)\s*}}/g)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Template variables available for a lead row
+ */
+export function leadTemplateVariables(lead: Record<string, any>): Record<string, any> {
+  return {
+    firstName: lead.first_name,
+    lastName: lead.last_name,
+    fullName: [lead.first_name, lead.last_name].filter(Boolean).join(' '),
+    email: lead.email,
+    phone: lead.phone,
+    company: lead.company,
+    jobTitle: lead.job_title,
+    customFields: lead.custom_fields || {},
+  };
+}
@@ -0,0 +1,100 @@
+// ============================================
+// Timezone Utilities
+// Wall-clock conversions and quiet-hour windows via Intl
+// ============================================
+
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export interface QuietHours {
+  enabled?: boolean;
+  // Local "HH:mm"; a window where start > end spans midnight
+  start: string;
+  end: string;
+}
+
+export function isValidTimezone(timezone?: string | null): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local wall-clock time of an instant in a timezone
+ */
+export function toWallClock(date: Date, timezone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || '0');
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+/**
+ * Instant at which a timezone shows the given wall-clock time.
+ * Times skipped by a DST jump resolve to the following valid instant.
+ */
+export function fromWallClock(wall: WallClock, timezone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offsetAt = (instant: number) => {
+    const local = toWallClock(new Date(instant), timezone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - Math.floor(instant / 60000) * 60000;
+  };
+
+  const guess = asUtc - offsetAt(asUtc);
+  const resolved = asUtc - offsetAt(guess);
+  return toWallClock(new Date(resolved), timezone).hour === wall.hour ? new Date(resolved) : new Date(guess);
+}
+
+function clockMinutes(value: string): number {
+  const [hours, minutes] = value.split(':').map((n) => parseInt(n) || 0);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Earliest instant at or after `at` that falls outside the quiet hours
+ * of the given timezone
+ */
+export function nextSendWindow(at: Date, timezone: string, quietHours?: QuietHours | null): Date {
+  if (!quietHours || quietHours.enabled === false || !quietHours.start || !quietHours.end) return at;
+
+  const start = clockMinutes(quietHours.start);
+  const end = clockMinutes(quietHours.end);
+  if (start === end) return at;
+
+  const local = toWallClock(at, timezone);
+  const now = local.hour * 60 + local.minute;
+  const quiet = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!quiet) return at;
+
+  // Overnight window entered before midnight ends tomorrow
+  const dayOffset = start > end && now >= start ? 1 : 0;
+  const day = new Date(Date.UTC(local.year, local.month - 1, local.day + dayOffset));
+
+  return fromWallClock(
+    {
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour: Math.floor(end / 60),
+      minute: end % 60,
+    },
+    timezone
+  );
+}
@@ -0,0 +1,79 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  // Raw request body, plus the parsed form when it was JSON or url-encoded
+  raw: string;
+  body: any;
+}
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+export interface StubServer {
+  url: string;
+  requests: StubRequest[];
+  // Answer the following requests with this handler
+  respond(handler: (request: StubRequest) => StubResponse): void;
+  // Forget recorded requests and go back to the default answer
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function parseBody(raw: string, contentType = ''): any {
+  if (contentType.includes('application/json')) return raw ? JSON.parse(raw) : undefined;
+  if (contentType.includes('application/x-www-form-urlencoded')) return Object.fromEntries(new URLSearchParams(raw));
+  return raw;
+}
+
+/**
+ * HTTP server on a free local port that records every request and answers
+ * with the current handler, 200 {} by default
+ */
+export async function startStubServer(): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const defaultHandler = (): StubResponse => ({ body: {} });
+  let handler: (request: StubRequest) => StubResponse = defaultHandler;
+
+  const server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const request: StubRequest = {
+        method: req.method || 'GET',
+        path: req.url || '/',
+        headers: req.headers,
+        raw,
+        body: parseBody(raw, req.headers['content-type']),
+      };
+      requests.push(request);
+
+      const { status = 200, headers = {}, body = {} } = handler(request);
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    respond(next) {
+      handler = next;
+    },
+    reset() {
+      requests.length = 0;
+      handler = defaultHandler;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
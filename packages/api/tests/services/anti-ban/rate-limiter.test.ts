@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import RedisMock from 'ioredis-mock';
+import type { FastifyInstance } from 'fastify';
+import { MessageRateLimiter } from '../../../src/services/anti-ban/rate-limiter.js';
+
+const TENANT = '00000000-0000-0000-0000-000000000001';
+const START = new Date('2026-01-05T10:00:00Z').getTime();
+
+// Plan row, then the channel_configs/channel_health row for the channel
+function createLimiter(plan: Record<string, any> | null, channel: Record<string, any> | null = null) {
+  const redis = new RedisMock();
+  const db = {
+    queryOne: vi.fn(async (sql: string) => (sql.includes('FROM tenants') ? plan : channel)),
+  };
+  const app = { db, redis } as unknown as FastifyInstance;
+  return { limiter: new MessageRateLimiter(app), redis };
+}
+
+describe('MessageRateLimiter', () => {
+  let redis: InstanceType<typeof RedisMock>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+  });
+
+  afterEach(async () => {
+    await redis?.flushall();
+    vi.useRealTimers();
+  });
+
+  describe('rules', () => {
+    it('combines the plan cap, the anti-spam pace and the channel default', async () => {
+      const setup = createLimiter({ per_day: 2000 });
+      redis = setup.redis;
+
+      expect(await setup.limiter.rules(TENANT, 'whatsapp')).toEqual([
+        { resource: 'messages:all:day', limit: 2000, window: 86400, source: 'plan' },
+        { resource: 'messages:whatsapp:hour', limit: 100, window: 3600, source: 'anti_spam' },
+        { resource: 'messages:whatsapp:day', limit: 1000, window: 86400, source: 'channel' },
+      ]);
+    });
+
+    it('prefers channel overrides and adds the warm-up cap', async () => {
+      const setup = createLimiter(
+        { per_day: null },
+        { rate_limit_per_minute: 5, rate_limit_per_hour: 60, rate_limit_per_day: 300, warmup_mode: true, warmup_daily_limit: 20 }
+      );
+      redis = setup.redis;
+
+      expect(await setup.limiter.rules(TENANT, 'sms')).toEqual([
+        { resource: 'messages:sms:minute', limit: 5, window: 60, source: 'override' },
+        { resource: 'messages:sms:hour', limit: 60, window: 3600, source: 'override' },
+        { resource: 'messages:sms:day', limit: 300, window: 86400, source: 'override' },
+        { resource: 'messages:sms:warmup', limit: 20, window: 86400, source: 'warmup' },
+      ]);
+    });
+  });
+
+  describe('acquire', () => {
+    it('allows sends up to the limit, then reports the full window and when it frees', async () => {
+      const setup = createLimiter({ per_day: null }, { rate_limit_per_minute: 2 });
+      redis = setup.redis;
+      const { limiter } = setup;
+
+      expect(await limiter.acquire(TENANT, 'telegram', 'send-1')).toEqual({ allowed: true });
+      vi.setSystemTime(START + 10_000);
+      expect(await limiter.acquire(TENANT, 'telegram', 'send-2')).toEqual({ allowed: true });
+
+      vi.setSystemTime(START + 20_000);
+      const denied = await limiter.acquire(TENANT, 'telegram', 'send-3');
+      expect(denied).toEqual({
+        allowed: false,
+        rule: { resource: 'messages:telegram:minute', limit: 2, window: 60, source: 'override' },
+        // The first send leaves the window 60s after it went out
+        retryAfter: 40,
+      });
+
+      // Once the oldest send has left the window there is room again
+      vi.setSystemTime(START + 60_001);
+      expect(await limiter.acquire(TENANT, 'telegram', 'send-3')).toEqual({ allowed: true });
+    });
+
+    it('keeps the slot of a retried send instead of taking another', async () => {
+      const setup = createLimiter({ per_day: null }, { rate_limit_per_minute: 1 });
+      redis = setup.redis;
+
+      expect(await setup.limiter.acquire(TENANT, 'telegram', 'send-1')).toEqual({ allowed: true });
+      expect(await setup.limiter.acquire(TENANT, 'telegram', 'send-1')).toEqual({ allowed: true });
+      expect((await setup.limiter.acquire(TENANT, 'telegram', 'send-2')).allowed).toBe(false);
+      expect(await redis.zcard(`ratelimit:${TENANT}:messages:telegram:minute`)).toBe(1);
+    });
+
+    it('records a send in no window when any window is full', async () => {
+      const setup = createLimiter({ per_day: 10 }, { rate_limit_per_minute: 1 });
+      redis = setup.redis;
+
+      await setup.limiter.acquire(TENANT, 'sms', 'send-1');
+      const denied = await setup.limiter.acquire(TENANT, 'sms', 'send-2');
+
+      expect(denied.allowed).toBe(false);
+      expect(await redis.zrange(`ratelimit:${TENANT}:messages:all:day`, 0, -1)).toEqual(['send-1']);
+      expect(await redis.zrange(`ratelimit:${TENANT}:messages:sms:hour`, 0, -1)).toEqual(['send-1']);
+    });
+
+    it('shares the plan cap across channels', async () => {
+      const setup = createLimiter({ per_day: 1 });
+      redis = setup.redis;
+
+      expect((await setup.limiter.acquire(TENANT, 'email', 'send-1')).allowed).toBe(true);
+      const denied = await setup.limiter.acquire(TENANT, 'sms', 'send-2');
+      expect(denied.allowed).toBe(false);
+      expect(denied.allowed === false && denied.rule.resource).toBe('messages:all:day');
+    });
+
+    it('denies everything on a limit of 0 for the whole window', async () => {
+      const setup = createLimiter({ per_day: null }, { warmup_mode: true, warmup_daily_limit: 0 });
+      redis = setup.redis;
+
+      const denied = await setup.limiter.acquire(TENANT, 'whatsapp', 'send-1');
+      expect(denied).toMatchObject({ allowed: false, rule: { source: 'warmup' }, retryAfter: 86400 });
+    });
+  });
+
+  describe('status', () => {
+    it('reports remaining sends and when the oldest one frees a slot', async () => {
+      const setup = createLimiter({ per_day: null }, { rate_limit_per_minute: 3 });
+      redis = setup.redis;
+
+      await setup.limiter.acquire(TENANT, 'telegram', 'send-1');
+      vi.setSystemTime(START + 5_000);
+
+      const statuses = await setup.limiter.status(TENANT);
+      const minute = statuses.find((status) => status.resource === 'messages:telegram:minute');
+
+      expect(minute).toEqual({
+        tenantId: TENANT,
+        resource: 'messages:telegram:minute',
+        limit: 3,
+        window: 60,
+        remaining: 2,
+        resetAt: new Date(START + 60_000).toISOString(),
+      });
+    });
+  });
+});
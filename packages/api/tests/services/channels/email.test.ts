@@ -0,0 +1,172 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+  buildEmailBodies,
+  isHtmlContent,
+  MailgunEmailProvider,
+  renderEmailTemplate,
+  SendGridEmailProvider,
+} from '../../../src/services/channels/email.js';
+import { startStubServer, StubServer } from '../../helpers/stub-server.js';
+
+const message = {
+  to: 'asha@example.com',
+  toName: 'Asha Rao',
+  subject: 'Your order',
+  html: '<p>Shipped</p>',
+  text: 'Shipped',
+};
+
+describe('email content', () => {
+  it('treats content with markup as HTML', () => {
+    expect(isHtmlContent('<p>Hello</p>')).toBe(true);
+    expect(isHtmlContent('2 < 3 and 5 > 4')).toBe(false);
+  });
+
+  it('escapes variables rendered into an HTML template', () => {
+    expect(renderEmailTemplate('<p>Hi {{firstName}}</p>', { firstName: '<img src=x onerror=alert(1)>' })).toBe(
+      '<p>Hi &lt;img src=x onerror=alert(1)&gt;</p>'
+    );
+  });
+
+  it('escapes quotes so variables cannot leave an attribute', () => {
+    expect(renderEmailTemplate(`<a href='{{website}}'>Site</a>`, { website: `x' onmouseover='alert(1)` })).toBe(
+      `<a href='x&#39; onmouseover=&#39;alert(1)'>Site</a>`
+    );
+    expect(renderEmailTemplate('<a href="{{website}}">Site</a>', { website: 'x" onclick="alert(1)' })).toBe(
+      '<a href="x&quot; onclick=&quot;alert(1)">Site</a>'
+    );
+  });
+
+  it('shows escaped lead data as typed in the text part', () => {
+    const rendered = renderEmailTemplate('<p>Dear {{lastName}}</p>', { lastName: `O'Brien "Jr"` });
+
+    expect(buildEmailBodies(rendered).text).toBe(`Dear O'Brien "Jr"`);
+  });
+
+  it('leaves variables in a plain text template as they are', () => {
+    expect(renderEmailTemplate('Hi {{firstName}} & co', { firstName: 'Tom <Sales>' })).toBe('Hi Tom <Sales> & co');
+  });
+
+  it('derives the text part from HTML content', () => {
+    const { html, text } = buildEmailBodies(
+      '<style>p { color: red }</style><p>Hello&nbsp;there</p><p>Read <a href="https://example.com">this</a></p>'
+    );
+
+    expect(html).toContain('<p>Hello&nbsp;there</p>');
+    expect(text).toBe('Hello there\nRead this (https://example.com)');
+  });
+
+  it('wraps plain content in escaped paragraphs', () => {
+    expect(buildEmailBodies('Tom & Asha <3\nthanks\n\nBye')).toEqual({
+      html: '<p>Tom &amp; Asha &lt;3<br>thanks</p>\n<p>Bye</p>',
+      text: 'Tom & Asha <3\nthanks\n\nBye',
+    });
+  });
+
+  it('keeps rendered markup as text when the template was plain', () => {
+    const rendered = renderEmailTemplate('Hi {{firstName}}', { firstName: '<b>Asha</b>' });
+
+    expect(buildEmailBodies(rendered, isHtmlContent('Hi {{firstName}}')).html).toBe(
+      '<p>Hi &lt;b&gt;Asha&lt;/b&gt;</p>'
+    );
+  });
+});
+
+describe('email providers', () => {
+  let stub: StubServer;
+
+  beforeAll(async () => {
+    stub = await startStubServer();
+  });
+
+  afterEach(() => stub.reset());
+
+  afterAll(() => stub.close());
+
+  describe('SendGridEmailProvider', () => {
+    const createProvider = () =>
+      new SendGridEmailProvider(
+        { apiKey: 'SG.key', fromEmail: 'hello@shop.example', fromName: 'Shop' },
+        { baseUrl: stub.url }
+      );
+
+    it('sends text before HTML with the unsubscribe header', async () => {
+      stub.respond(() => ({ status: 202, headers: { 'X-Message-Id': 'sg-1' } }));
+
+      const result = await createProvider().send({ ...message, unsubscribeUrl: 'https://shop.example/u/1' });
+
+      expect(result).toEqual({ provider: 'sendgrid', providerMessageId: 'sg-1' });
+      expect(stub.requests[0]).toMatchObject({
+        path: '/v3/mail/send',
+        headers: { authorization: 'Bearer SG.key' },
+        body: {
+          personalizations: [{ to: [{ email: 'asha@example.com', name: 'Asha Rao' }] }],
+          from: { email: 'hello@shop.example', name: 'Shop' },
+          subject: 'Your order',
+          content: [
+            { type: 'text/plain', value: 'Shipped' },
+            { type: 'text/html', value: '<p>Shipped</p>' },
+          ],
+          headers: {
+            'List-Unsubscribe': '<https://shop.example/u/1>, <mailto:hello@shop.example?subject=unsubscribe>',
+          },
+        },
+      });
+    });
+
+    it('reports the API errors', async () => {
+      stub.respond(() => ({
+        status: 403,
+        body: { errors: [{ message: 'The from address does not match a verified Sender Identity' }] },
+      }));
+
+      await expect(createProvider().send(message)).rejects.toThrow(
+        'SendGrid error (403): The from address does not match a verified Sender Identity'
+      );
+    });
+
+    it.each([
+      ['a loopback address', 'http://127.0.0.1:8080/admin.pdf', 'Attachment host 127.0.0.1 is not a public address'],
+      ['a private address', 'http://10.0.0.5/report.pdf', 'Attachment host 10.0.0.5 is not a public address'],
+      ['an IPv4-mapped loopback', 'http://[::ffff:127.0.0.1]/a.pdf', 'is not a public address'],
+      ['the metadata service', 'http://169.254.169.254/latest/meta-data', 'is not a public address'],
+      ['a non-http scheme', 'file:///etc/passwd', 'Attachment URL must use http or https, got file:'],
+    ])('refuses an attachment on %s', async (_, attachmentUrl, error) => {
+      await expect(createProvider().send({ ...message, attachmentUrl })).rejects.toThrow(error);
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('refuses an attachment host that resolves to a private address', async () => {
+      const attachmentUrl = `${stub.url.replace('127.0.0.1', 'localhost')}/invoice.pdf`;
+
+      await expect(createProvider().send({ ...message, attachmentUrl })).rejects.toThrow(
+        'Attachment host localhost does not resolve to a public address'
+      );
+      expect(stub.requests).toHaveLength(0);
+    });
+  });
+
+  describe('MailgunEmailProvider', () => {
+    const createProvider = () =>
+      new MailgunEmailProvider({ apiKey: 'key-1', domain: 'mg.shop.example' }, { baseUrl: stub.url });
+
+    it('posts a multipart form to the domain with basic auth', async () => {
+      stub.respond(() => ({ body: { id: '<20260101.1@mg.shop.example>', message: 'Queued. Thank you.' } }));
+
+      const result = await createProvider().send(message);
+
+      expect(result).toMatchObject({ provider: 'mailgun', providerMessageId: '20260101.1@mg.shop.example' });
+      expect(stub.requests[0]).toMatchObject({
+        path: '/v3/mg.shop.example/messages',
+        headers: { authorization: `Basic ${Buffer.from('api:key-1').toString('base64')}` },
+      });
+      expect(stub.requests[0].headers['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+      expect(stub.requests[0].raw).toContain('Asha Rao <asha@example.com>');
+      expect(stub.requests[0].raw).toContain('<mailto:noreply@mg.shop.example?subject=unsubscribe>');
+    });
+
+    it('fails when the response has no message id', async () => {
+      await expect(createProvider().send(message)).rejects.toThrow('Mailgun response did not include a message id');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+  countSmsSegments,
+  Fast2SmsProvider,
+  Msg91SmsProvider,
+  TextLocalSmsProvider,
+  TwilioSmsProvider,
+  VonageSmsProvider,
+} from '../../../src/services/channels/sms.js';
+import { startStubServer, StubServer } from '../../helpers/stub-server.js';
+
+describe('countSmsSegments', () => {
+  it('fits 160 GSM-7 characters in one segment and 153 per part after that', () => {
+    expect(countSmsSegments('a'.repeat(160))).toEqual({ encoding: 'GSM-7', characters: 160, segments: 1 });
+    expect(countSmsSegments('a'.repeat(161))).toEqual({ encoding: 'GSM-7', characters: 161, segments: 2 });
+  });
+
+  it('counts extended characters as two septets', () => {
+    expect(countSmsSegments('€'.repeat(80))).toEqual({ encoding: 'GSM-7', characters: 160, segments: 1 });
+    expect(countSmsSegments('€'.repeat(81)).segments).toBe(2);
+  });
+
+  it('falls back to UCS-2 with 70 characters per segment and 67 per part', () => {
+    expect(countSmsSegments('नमस्ते')).toMatchObject({ encoding: 'UCS-2', segments: 1 });
+    expect(countSmsSegments('ा'.repeat(71))).toEqual({ encoding: 'UCS-2', characters: 71, segments: 2 });
+  });
+
+  it('counts emoji as two code units', () => {
+    expect(countSmsSegments('🙂'.repeat(35))).toEqual({ encoding: 'UCS-2', characters: 70, segments: 1 });
+  });
+});
+
+describe('SMS providers', () => {
+  let stub: StubServer;
+
+  beforeAll(async () => {
+    stub = await startStubServer();
+  });
+
+  afterEach(() => stub.reset());
+
+  afterAll(() => stub.close());
+
+  describe('TwilioSmsProvider', () => {
+    const credentials = { accountSid: 'AC1', authToken: 'secret', fromNumber: '+15550009999' };
+
+    it('posts the form with basic auth and the status callback', async () => {
+      stub.respond(() => ({ status: 201, body: { sid: 'SM1', num_segments: '2' } }));
+      const provider = new TwilioSmsProvider(credentials, {
+        baseUrl: stub.url,
+        statusCallbackUrl: 'https://api.example.com/status',
+      });
+
+      const result = await provider.send({
+        to: '+1 (555) 000-1111',
+        content: 'Hello',
+        mediaUrl: 'https://cdn.example.com/a.png',
+      });
+
+      expect(result).toMatchObject({ provider: 'twilio', providerMessageId: 'SM1', segments: 2 });
+      expect(stub.requests[0]).toMatchObject({
+        path: '/2010-04-01/Accounts/AC1/Messages.json',
+        headers: { authorization: `Basic ${Buffer.from('AC1:secret').toString('base64')}` },
+        body: {
+          To: '+15550001111',
+          Body: 'Hello',
+          From: '+15550009999',
+          MediaUrl: 'https://cdn.example.com/a.png',
+          StatusCallback: 'https://api.example.com/status',
+        },
+      });
+    });
+
+    it('prefers the messaging service over the from number', async () => {
+      stub.respond(() => ({ body: { sid: 'SM2' } }));
+      const provider = new TwilioSmsProvider({ ...credentials, messagingServiceSid: 'MG1' }, { baseUrl: stub.url });
+
+      await provider.send({ to: '+15550001111', content: 'Hello' });
+
+      expect(stub.requests[0].body.MessagingServiceSid).toBe('MG1');
+      expect(stub.requests[0].body).not.toHaveProperty('From');
+    });
+
+    it('maps the error code to a fail reason', async () => {
+      stub.respond(() => ({
+        status: 400,
+        body: { code: 21610, message: 'Attempt to send to unsubscribed recipient' },
+      }));
+      const provider = new TwilioSmsProvider(credentials, { baseUrl: stub.url });
+
+      await expect(provider.send({ to: '+15550001111', content: 'Hello' })).rejects.toThrow(
+        'twilio 21610: Recipient has unsubscribed (replied STOP)'
+      );
+    });
+
+    it('rejects bodies over the segment limit without calling the API', async () => {
+      const provider = new TwilioSmsProvider(credentials, { baseUrl: stub.url });
+
+      await expect(provider.send({ to: '+15550001111', content: 'a'.repeat(153 * 10 + 1) })).rejects.toThrow(
+        'twilio: Message too long (11 GSM-7 segments, max 10)'
+      );
+      expect(stub.requests).toHaveLength(0);
+    });
+  });
+
+  describe('Msg91SmsProvider', () => {
+    const createProvider = () => new Msg91SmsProvider({ authKey: 'key', senderId: 'SHOPIN' }, { baseUrl: stub.url });
+
+    it('splits the country code from the national number', async () => {
+      stub.respond(() => ({ body: { type: 'success', message: 'req-1' } }));
+
+      const result = await createProvider().send({ to: '+91 98765 43210', content: 'नमस्ते' });
+
+      expect(result).toMatchObject({ provider: 'msg91', providerMessageId: 'req-1', segments: 1 });
+      expect(stub.requests[0]).toMatchObject({
+        path: '/api/v2/sendsms',
+        headers: { authkey: 'key' },
+        body: {
+          sender: 'SHOPIN',
+          route: '4',
+          country: '91',
+          unicode: 1,
+          sms: [{ message: 'नमस्ते', to: ['9876543210'] }],
+        },
+      });
+    });
+
+    it('fails on an error response with a 200 status', async () => {
+      stub.respond(() => ({ body: { type: 'error', code: '301', message: 'Low balance' } }));
+
+      await expect(createProvider().send({ to: '9876543210', content: 'Hello' })).rejects.toThrow(
+        'msg91 301: Insufficient balance'
+      );
+    });
+  });
+
+  describe('VonageSmsProvider', () => {
+    const createProvider = () =>
+      new VonageSmsProvider({ apiKey: 'key', apiSecret: 'secret', fromName: 'Shop' }, { baseUrl: stub.url });
+
+    it('counts the returned parts as segments', async () => {
+      stub.respond(() => ({
+        body: { messages: [{ status: '0', 'message-id': 'V1' }, { status: '0', 'message-id': 'V2' }] },
+      }));
+
+      const result = await createProvider().send({ to: '+44 7700 900000', content: 'Hello' });
+
+      expect(result).toMatchObject({ provider: 'vonage', providerMessageId: 'V1', segments: 2 });
+      expect(stub.requests[0]).toMatchObject({
+        path: '/sms/json',
+        body: { api_key: 'key', api_secret: 'secret', from: 'Shop', to: '447700900000', text: 'Hello', type: 'text' },
+      });
+    });
+
+    it('fails when any part was rejected', async () => {
+      stub.respond(() => ({
+        body: {
+          messages: [
+            { status: '0', 'message-id': 'V1' },
+            { status: '9', 'error-text': 'Partner quota exceeded' },
+          ],
+        },
+      }));
+
+      await expect(createProvider().send({ to: '447700900000', content: 'Hello' })).rejects.toThrow(
+        'vonage 9: Insufficient account balance'
+      );
+    });
+  });
+
+  describe('Fast2SmsProvider', () => {
+    it('uses the DLT route when a sender id is set', async () => {
+      stub.respond(() => ({ body: { return: true, request_id: 'F1' } }));
+      const provider = new Fast2SmsProvider({ apiKey: 'key', senderId: 'SHOPIN' }, { baseUrl: stub.url });
+
+      const result = await provider.send({ to: '+91 98765 43210', content: 'Hello' });
+
+      expect(result).toMatchObject({ provider: 'fast2sms', providerMessageId: 'F1' });
+      expect(stub.requests[0]).toMatchObject({
+        path: '/dev/bulkV2',
+        headers: { authorization: 'key' },
+        body: { route: 'v3', sender_id: 'SHOPIN', message: 'Hello', language: 'english', numbers: '9876543210' },
+      });
+    });
+
+    it('maps the status code of a failed send', async () => {
+      stub.respond(() => ({
+        status: 400,
+        body: { return: false, status_code: 412, message: 'Invalid Authentication' },
+      }));
+      const provider = new Fast2SmsProvider({ apiKey: 'key' }, { baseUrl: stub.url });
+
+      await expect(provider.send({ to: '9876543210', content: 'Hello' })).rejects.toThrow(
+        'fast2sms 412: Invalid API key'
+      );
+    });
+  });
+
+  describe('TextLocalSmsProvider', () => {
+    const createProvider = () => new TextLocalSmsProvider({ apiKey: 'key', sender: 'SHOP' }, { baseUrl: stub.url });
+
+    it('returns the message id and part count', async () => {
+      stub.respond(() => ({ body: { status: 'success', messages: [{ id: 77 }], message: { num_parts: 1 } } }));
+
+      const result = await createProvider().send({ to: '+44 7700 900000', content: 'Hello' });
+
+      expect(result).toMatchObject({ provider: 'textlocal', providerMessageId: '77', segments: 1 });
+      expect(stub.requests[0]).toMatchObject({
+        path: '/send/',
+        body: { apikey: 'key', sender: 'SHOP', numbers: '447700900000', message: 'Hello' },
+      });
+    });
+
+    it('maps the first error', async () => {
+      stub.respond(() => ({ body: { status: 'failure', errors: [{ code: 7, message: 'Insufficient credits' }] } }));
+
+      await expect(createProvider().send({ to: '447700900000', content: 'Hello' })).rejects.toThrow(
+        'textlocal 7: Insufficient credits'
+      );
+    });
+  });
+});
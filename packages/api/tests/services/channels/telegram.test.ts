@@ -0,0 +1,148 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+  buildInlineKeyboard,
+  parseTelegramUpdate,
+  TelegramBotProvider,
+  telegramWebhookSecret,
+} from '../../../src/services/channels/telegram.js';
+import { startStubServer, StubServer } from '../../helpers/stub-server.js';
+
+const sender = { id: 42, is_bot: false, username: 'asha', first_name: 'Asha', last_name: 'Rao' };
+const chat = { id: 42, type: 'private' };
+
+describe('buildInlineKeyboard', () => {
+  it('puts each button on its own row and drops phone buttons', () => {
+    expect(
+      buildInlineKeyboard([
+        { type: 'url', text: 'Track order', value: 'https://shop.example/track' },
+        { type: 'quick_reply', text: 'Yes' },
+        { type: 'phone', text: 'Call us', value: '+15550001111' },
+      ])
+    ).toEqual([[{ text: 'Track order', url: 'https://shop.example/track' }], [{ text: 'Yes', callback_data: 'Yes' }]]);
+  });
+
+  it('caps callback data at 64 bytes', () => {
+    const [[button]] = buildInlineKeyboard([{ type: 'quick_reply', text: 'More', value: 'x'.repeat(100) }]);
+
+    expect(button.callback_data).toHaveLength(64);
+  });
+});
+
+describe('parseTelegramUpdate', () => {
+  it('reads a private text message', () => {
+    expect(parseTelegramUpdate({ update_id: 1, message: { message_id: 7, from: sender, chat, text: 'Hi' } })).toEqual({
+      updateId: 1,
+      chatId: '42',
+      messageId: '7',
+      username: 'asha',
+      firstName: 'Asha',
+      lastName: 'Rao',
+      text: 'Hi',
+      contentType: 'text',
+    });
+  });
+
+  it('takes the largest photo size with its caption', () => {
+    const photo = [{ file_id: 'small' }, { file_id: 'large' }];
+
+    expect(
+      parseTelegramUpdate({ update_id: 2, message: { message_id: 8, from: sender, chat, photo, caption: 'Look' } })
+    ).toMatchObject({ contentType: 'image', fileId: 'large', text: 'Look' });
+  });
+
+  it('reads a button press as a callback message', () => {
+    const update = {
+      update_id: 3,
+      callback_query: { id: 'cb1', from: sender, data: 'Yes', message: { message_id: 9, chat } },
+    };
+
+    expect(parseTelegramUpdate(update)).toMatchObject({
+      chatId: '42',
+      messageId: 'cb:cb1',
+      text: 'Yes',
+      contentType: 'button',
+    });
+  });
+
+  it('ignores group chats, bots and edits', () => {
+    const message = { message_id: 1, from: sender, chat, text: 'Hi' };
+    const group = { ...message, chat: { id: -1, type: 'group' } };
+    const fromBot = { ...message, from: { ...sender, is_bot: true } };
+
+    expect(parseTelegramUpdate({ update_id: 4, message: group })).toBeNull();
+    expect(parseTelegramUpdate({ update_id: 5, message: fromBot })).toBeNull();
+    expect(parseTelegramUpdate({ update_id: 6, edited_message: message })).toBeNull();
+  });
+});
+
+describe('TelegramBotProvider', () => {
+  let stub: StubServer;
+  const createProvider = () => new TelegramBotProvider({ botToken: '123:abc' }, { baseUrl: stub.url });
+
+  beforeAll(async () => {
+    stub = await startStubServer();
+  });
+
+  afterEach(() => stub.reset());
+
+  afterAll(() => stub.close());
+
+  it('sends text with an inline keyboard and scopes the id to the chat', async () => {
+    stub.respond(() => ({ body: { ok: true, result: { message_id: 11, chat: { id: 42 } } } }));
+
+    const result = await createProvider().send({
+      chatId: '42',
+      content: 'Ready?',
+      buttons: [{ type: 'quick_reply', text: 'Yes' }],
+    });
+
+    expect(result).toMatchObject({ provider: 'telegram_bot', providerMessageId: '42:11' });
+    expect(stub.requests[0]).toMatchObject({
+      path: '/bot123:abc/sendMessage',
+      body: {
+        chat_id: '42',
+        text: 'Ready?',
+        reply_markup: { inline_keyboard: [[{ text: 'Yes', callback_data: 'Yes' }]] },
+      },
+    });
+  });
+
+  it('sends media as a photo with the caption capped at 1024 characters', async () => {
+    stub.respond(() => ({ body: { ok: true, result: { message_id: 12, chat: { id: 42 } } } }));
+
+    await createProvider().send({ chatId: '42', content: 'x'.repeat(1500), mediaUrl: 'https://cdn.example.com/a.jpg' });
+
+    expect(stub.requests[0].path).toBe('/bot123:abc/sendPhoto');
+    expect(stub.requests[0].body).toEqual({
+      chat_id: '42',
+      photo: 'https://cdn.example.com/a.jpg',
+      caption: 'x'.repeat(1024),
+    });
+  });
+
+  it('registers the webhook with the secret derived from the bot token', async () => {
+    stub.respond(() => ({ body: { ok: true, result: true } }));
+
+    await createProvider().setWebhook('https://api.example.com/api/v1/inbound/telegram/int-1');
+
+    expect(stub.requests[0]).toMatchObject({
+      path: '/bot123:abc/setWebhook',
+      body: {
+        url: 'https://api.example.com/api/v1/inbound/telegram/int-1',
+        secret_token: telegramWebhookSecret('123:abc'),
+        allowed_updates: ['message', 'callback_query'],
+      },
+    });
+  });
+
+  it('reports the Bot API error', async () => {
+    stub.respond(() => ({
+      status: 403,
+      body: { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' },
+    }));
+
+    await expect(createProvider().send({ chatId: '42', content: 'Hi' })).rejects.toThrow(
+      'Telegram error (403): Forbidden: bot was blocked by the user'
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { CloudApiProvider, EvolutionApiProvider } from '../../../src/services/channels/whatsapp.js';
+import type { ResolvedTemplate } from '../../../src/services/channels/types.js';
+import { startStubServer, StubServer } from '../../helpers/stub-server.js';
+
+const template: ResolvedTemplate = {
+  id: 'tpl-1',
+  name: 'Order update',
+  language: 'en_US',
+  content: 'Hi {{firstName}}, order {{order}} is on its way',
+  variableNames: ['firstName', 'order'],
+  header: { type: 'image', content: '' },
+  whatsappTemplateId: 'order_update',
+};
+
+describe('WhatsApp providers', () => {
+  let stub: StubServer;
+
+  beforeAll(async () => {
+    stub = await startStubServer();
+  });
+
+  afterEach(() => stub.reset());
+
+  afterAll(() => stub.close());
+
+  describe('CloudApiProvider', () => {
+    const createProvider = () =>
+      new CloudApiProvider({ accessToken: 'token', phoneNumberId: '1234' }, { baseUrl: stub.url, apiVersion: 'v19.0' });
+
+    it('sends text to the phone number endpoint with the access token', async () => {
+      stub.respond(() => ({ body: { messages: [{ id: 'wamid.1' }] } }));
+
+      const result = await createProvider().send({ to: '+91 98765-43210', content: 'Hello' });
+
+      expect(result).toMatchObject({ provider: 'cloud_api', providerMessageId: 'wamid.1' });
+      expect(stub.requests[0]).toMatchObject({
+        method: 'POST',
+        path: '/v19.0/1234/messages',
+        headers: { authorization: 'Bearer token' },
+        body: {
+          messaging_product: 'whatsapp',
+          to: '919876543210',
+          type: 'text',
+          text: { body: 'Hello', preview_url: true },
+        },
+      });
+    });
+
+    it('sends media with a caption, except for audio', async () => {
+      stub.respond(() => ({ body: { messages: [{ id: 'wamid.2' }] } }));
+      const provider = createProvider();
+
+      await provider.send({ to: '15550001111', content: 'Look', mediaUrl: 'https://cdn.example.com/a.jpg?v=1' });
+      await provider.send({ to: '15550001111', content: 'Listen', mediaUrl: 'https://cdn.example.com/a.mp3' });
+
+      expect(stub.requests[0].body).toMatchObject({
+        type: 'image',
+        image: { link: 'https://cdn.example.com/a.jpg?v=1', caption: 'Look' },
+      });
+      expect(stub.requests[1].body.type).toBe('audio');
+      expect(stub.requests[1].body.audio).toEqual({ link: 'https://cdn.example.com/a.mp3' });
+    });
+
+    it('sends an approved template with header media and ordered body parameters', async () => {
+      stub.respond(() => ({ body: { messages: [{ id: 'wamid.3' }] } }));
+
+      await createProvider().send({
+        to: '15550001111',
+        mediaUrl: 'https://cdn.example.com/banner.png',
+        template,
+        templateVariables: { order: 'A-42', firstName: 'Asha' },
+      });
+
+      expect(stub.requests[0].body).toMatchObject({
+        type: 'template',
+        template: {
+          name: 'order_update',
+          language: { code: 'en_US' },
+          components: [
+            { type: 'header', parameters: [{ type: 'image', image: { link: 'https://cdn.example.com/banner.png' } }] },
+            {
+              type: 'body',
+              parameters: [
+                { type: 'text', text: 'Asha' },
+                { type: 'text', text: 'A-42' },
+              ],
+            },
+          ],
+        },
+      });
+    });
+
+    it('rejects a template without an approved WhatsApp template before calling the API', async () => {
+      await expect(
+        createProvider().send({ to: '15550001111', template: { ...template, whatsappTemplateId: null } })
+      ).rejects.toThrow('Template tpl-1 has no approved WhatsApp template');
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('reports the API error code and message', async () => {
+      stub.respond(() => ({
+        status: 400,
+        body: { error: { code: 131030, message: 'Recipient phone number not in allowed list' } },
+      }));
+
+      await expect(createProvider().send({ to: '15550001111', content: 'Hello' })).rejects.toThrow(
+        'WhatsApp Cloud API error (131030): Recipient phone number not in allowed list'
+      );
+    });
+
+    it('fails when the response has no message id', async () => {
+      await expect(createProvider().send({ to: '15550001111', content: 'Hello' })).rejects.toThrow(
+        'did not include a message id'
+      );
+    });
+  });
+
+  describe('EvolutionApiProvider', () => {
+    const createProvider = (options: Record<string, any> = {}) =>
+      new EvolutionApiProvider({ apiUrl: `${stub.url}/`, apiKey: 'secret', instanceName: 'sales team' }, options);
+
+    it('sends the already rendered content with a typing delay', async () => {
+      stub.respond(() => ({ body: { key: { id: 'EVO1' } } }));
+
+      const result = await createProvider().send({ to: '+91 98765 43210', content: 'Hi Asha', template });
+
+      expect(result).toMatchObject({ provider: 'evolution_api', providerMessageId: 'EVO1' });
+      expect(stub.requests[0]).toMatchObject({
+        method: 'POST',
+        path: '/message/sendText/sales%20team',
+        headers: { apikey: 'secret' },
+        body: { number: '919876543210', text: 'Hi Asha' },
+      });
+      expect(stub.requests[0].body.delay).toBeGreaterThanOrEqual(1000);
+      expect(stub.requests[0].body.delay).toBeLessThanOrEqual(8000);
+    });
+
+    it('sends media with the file name and caption', async () => {
+      stub.respond(() => ({ body: { key: { id: 'EVO2' } } }));
+
+      await createProvider().send({
+        to: '15550001111',
+        content: 'Your invoice',
+        mediaUrl: 'https://cdn.example.com/docs/invoice.pdf?sig=x',
+      });
+
+      expect(stub.requests[0]).toMatchObject({
+        path: '/message/sendMedia/sales%20team',
+        body: {
+          number: '15550001111',
+          mediatype: 'document',
+          media: 'https://cdn.example.com/docs/invoice.pdf?sig=x',
+          fileName: 'invoice.pdf',
+          caption: 'Your invoice',
+        },
+      });
+    });
+
+    it('sends without a delay when typing simulation is off', async () => {
+      stub.respond(() => ({ body: { key: { id: 'EVO3' } } }));
+
+      await createProvider({ simulateTyping: false }).send({ to: '15550001111', content: 'Hello' });
+
+      expect(stub.requests[0].body).not.toHaveProperty('delay');
+    });
+
+    it('reports the API error message', async () => {
+      stub.respond(() => ({ status: 404, body: { response: { message: ['Instance not found'] } } }));
+
+      await expect(createProvider().send({ to: '15550001111', content: 'Hello' })).rejects.toThrow(
+        'Evolution API error (404): Instance not found'
+      );
+    });
+  });
+});
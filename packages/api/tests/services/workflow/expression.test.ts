@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ExpressionScope,
+  evaluateExpression,
+  leadExpressionScope,
+  validateExpression,
+} from '../../../src/services/workflow/expression.js';
+
+const DAY_MS = 86400000;
+
+const scope: ExpressionScope = {
+  lead: {
+    status: 'qualified',
+    score: 72,
+    tags: ['vip', 'newsletter'],
+    customFields: { plan: 'pro-annual', seats: '12' },
+    lastActivityAt: new Date(Date.now() - 10 * DAY_MS).toISOString(),
+  },
+  trigger: { channel: 'whatsapp' },
+  nodes: { ask: { replied: true } },
+  result: { replied: false, handle: 'timeout' },
+};
+
+const evaluate = (source: string, values: ExpressionScope = scope) => evaluateExpression(source, values);
+
+describe('evaluateExpression', () => {
+  it('compares fields and combines with and/or/not', () => {
+    expect(evaluate("lead.status == 'qualified' and lead.score >= 50")).toBe(true);
+    expect(evaluate("lead.status != 'qualified' or lead.score < 50")).toBe(false);
+    expect(evaluate('not result.replied')).toBe(true);
+    expect(evaluate("lead.score > 70 && trigger.channel == 'whatsapp'")).toBe(true);
+    expect(evaluate('result.replied || nodes.ask.replied')).toBe(true);
+  });
+
+  it('checks membership with in, not in and contains', () => {
+    expect(evaluate("'vip' in lead.tags")).toBe(true);
+    expect(evaluate("trigger.channel in ['sms', 'email']")).toBe(false);
+    expect(evaluate("trigger.channel not in ['sms', 'email']")).toBe(true);
+    expect(evaluate("lead.customFields.plan contains 'pro'")).toBe(true);
+    expect(evaluate("lead.customFields contains 'seats'")).toBe(true);
+  });
+
+  it('compares numeric strings as numbers', () => {
+    expect(evaluate('lead.customFields.seats > 10')).toBe(true);
+    expect(evaluate('lead.customFields.seats == 12')).toBe(true);
+  });
+
+  it('does date arithmetic with duration literals', () => {
+    expect(evaluate('lead.lastActivityAt < now - 7d')).toBe(true);
+    expect(evaluate('lead.lastActivityAt < now - 2w')).toBe(false);
+    expect(evaluate('daysSince(lead.lastActivityAt) >= 10')).toBe(true);
+    expect(evaluate('90m')).toBe(90 * 60000);
+  });
+
+  it('evaluates arithmetic and functions', () => {
+    expect(evaluate('(lead.score + 8) / 2')).toBe(40);
+    expect(evaluate('-lead.score % 7')).toBe(-2);
+    expect(evaluate('lead.score / 0')).toBeNull();
+    expect(evaluate("upper(trigger.channel) == 'WHATSAPP'")).toBe(true);
+    expect(evaluate('len(lead.tags)')).toBe(2);
+    expect(evaluate('exists(lead.missing)')).toBe(false);
+    expect(evaluate("number('3') + 1")).toBe(4);
+  });
+
+  it('reads missing values as undefined instead of throwing', () => {
+    expect(evaluate('lead.missing.deeper')).toBeUndefined();
+    expect(evaluate('lead.missing == null')).toBe(true);
+    expect(evaluate('lead.missing > 3')).toBe(false);
+    expect(evaluate('reply.text', {})).toBeUndefined();
+  });
+
+  it('never reaches prototypes or inherited properties', () => {
+    expect(evaluate('lead.__proto__')).toBeUndefined();
+    expect(evaluate("lead['constructor']")).toBeUndefined();
+    expect(evaluate('lead.tags.constructor')).toBeUndefined();
+    expect(evaluate('lead.toString')).toBeUndefined();
+    expect(evaluate("lead.status['length']")).toBe('qualified'.length);
+  });
+});
+
+describe('validateExpression', () => {
+  it('accepts valid expressions', () => {
+    expect(validateExpression("lead.status == 'won'")).toBeNull();
+    expect(validateExpression("lead.tags contains 'vip' and not result.replied")).toBeNull();
+  });
+
+  it('explains what is wrong', () => {
+    expect(validateExpression('')).toBe('Expression is empty');
+    expect(validateExpression("lead.status = 'won'")).toMatch(/use '==' to compare/);
+    expect(validateExpression('user.name')).toMatch(/Unknown variable 'user'/);
+    expect(validateExpression('eval(1)')).toMatch(/Unknown function 'eval'/);
+    expect(validateExpression("'open")).toMatch(/Unterminated string/);
+    expect(validateExpression('(lead.score')).toMatch(/Expected '\)'/);
+    expect(validateExpression('lead.score ;')).toMatch(/Unexpected character ';'/);
+    expect(validateExpression('x'.repeat(2001))).toMatch(/longer than 2000/);
+    expect(validateExpression('not '.repeat(60) + 'true')).toBe('Expression is nested too deeply');
+  });
+});
+
+describe('leadExpressionScope', () => {
+  it('maps lead columns to camelCase and derives temperature', () => {
+    const lead = leadExpressionScope({ first_name: 'Ana', score_total: 45, tags: null, custom_fields: null });
+
+    expect(lead.firstName).toBe('Ana');
+    expect(lead.score).toBe(45);
+    expect(lead.temperature).toBe('warm');
+    expect(lead.tags).toEqual([]);
+    expect(lead.customFields).toEqual({});
+    expect(leadExpressionScope(null)).toEqual({});
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { WorkflowDefinition, validateWorkflowDefinition } from '../../../src/services/workflow/validator.js';
+
+const trigger = { id: 'trigger', type: 'trigger', data: {} };
+const send = { id: 'send', type: 'send_message', data: { channel: 'whatsapp', content: 'Hi {{firstName}}' } };
+const tag = { id: 'tag', type: 'add_tag', data: { tag: 'contacted' } };
+
+const codes = (definition: WorkflowDefinition) => validateWorkflowDefinition(definition).map((issue) => issue.code);
+
+describe('validateWorkflowDefinition', () => {
+  it('accepts a connected workflow', () => {
+    expect(
+      validateWorkflowDefinition({
+        trigger: { type: 'lead_created' },
+        nodes: [trigger, send, tag],
+        edges: [
+          { id: 'e1', source: 'trigger', target: 'send' },
+          { id: 'e2', source: 'send', target: 'tag', condition: "lead.status == 'new'" },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it('parses definitions stored as JSON text', () => {
+    expect(
+      validateWorkflowDefinition({
+        nodes: JSON.stringify([trigger, send]),
+        edges: JSON.stringify([{ source: 'trigger', target: 'send' }]),
+      })
+    ).toEqual([]);
+  });
+
+  it('rejects nodes or edges that are not arrays', () => {
+    expect(codes({ nodes: {} as any, edges: [] })).toEqual(['invalid_definition']);
+  });
+
+  it('needs exactly one trigger', () => {
+    expect(codes({ nodes: [send], edges: [] })).toContain('missing_trigger');
+
+    const issues = validateWorkflowDefinition({ nodes: [trigger, { ...trigger, id: 'trigger2' }], edges: [] });
+    expect(issues.find((issue) => issue.code === 'multiple_triggers')?.nodeIds).toEqual(['trigger', 'trigger2']);
+  });
+
+  it('reports duplicate ids, unknown types and missing data per node', () => {
+    const issues = validateWorkflowDefinition({
+      nodes: [
+        trigger,
+        { id: 'send', type: 'send_message', data: { channel: 'sms' } },
+        { id: 'send', type: 'add_tag', data: { tag: 'x' } },
+        { id: 'mystery', type: 'teleport', data: {} },
+        { id: 'notify', type: 'notify_user', data: { title: 'New lead', recipient: 'role' } },
+      ],
+      edges: [
+        { source: 'trigger', target: 'send' },
+        { source: 'send', target: 'mystery' },
+        { source: 'mystery', target: 'notify' },
+      ],
+    });
+
+    expect(issues).toEqual([
+      { code: 'missing_node_data', message: 'Node send (send_message) is missing content', nodeIds: ['send'] },
+      { code: 'duplicate_node', message: 'Duplicate node id send', nodeIds: ['send'] },
+      { code: 'unknown_node_type', message: 'Unknown node type "teleport"', nodeIds: ['mystery'] },
+      { code: 'missing_node_data', message: 'Node notify (notify_user) is missing role', nodeIds: ['notify'] },
+    ]);
+  });
+
+  it('checks expressions on triggers, condition nodes and edges', () => {
+    const issues = validateWorkflowDefinition({
+      trigger: { type: 'lead_updated', config: { condition: 'lead.score >' } },
+      nodes: [trigger, { id: 'check', type: 'condition', data: { condition: "lead.status = 'won'" } }, send],
+      edges: [
+        { id: 'e1', source: 'trigger', target: 'check' },
+        { id: 'e2', source: 'check', target: 'send', condition: 'unknown.value' },
+      ],
+    });
+
+    expect(issues.map((issue) => issue.code)).toEqual(['invalid_expression', 'invalid_expression', 'invalid_expression']);
+    expect(issues[0].message).toMatch(/^Invalid trigger condition/);
+    expect(issues[1].nodeIds).toEqual(['check']);
+    expect(issues[2].edgeId).toBe('e2');
+  });
+
+  it('checks schedules, retries, splits and enrollment settings', () => {
+    expect(codes({ trigger: { type: 'schedule', schedule: { cron: '* *' } }, nodes: [trigger], edges: [] })).toEqual([
+      'invalid_schedule',
+    ]);
+
+    expect(
+      codes({ nodes: [trigger, { ...tag, data: { tag: 'x', retry: { maxAttempts: 0 } } }], edges: [{ source: 'trigger', target: 'tag' }] })
+    ).toEqual(['invalid_retry']);
+
+    expect(
+      codes({
+        nodes: [trigger, { id: 'split', type: 'split_path', data: { paths: [{ handle: 'a', weight: 1 }] } }],
+        edges: [{ source: 'trigger', target: 'split' }],
+      })
+    ).toEqual(['invalid_split']);
+
+    expect(codes({ nodes: [trigger], edges: [], enrollment: { reentryCooldownMinutes: -5 } })).toEqual(['invalid_enrollment']);
+  });
+
+  it('flags dangling edges and unreachable nodes', () => {
+    const issues = validateWorkflowDefinition({
+      nodes: [trigger, send, tag],
+      edges: [
+        { id: 'e1', source: 'trigger', target: 'send' },
+        { id: 'e2', source: 'send', target: 'gone' },
+      ],
+    });
+
+    expect(issues).toEqual([
+      { code: 'dangling_edge', message: 'Edge e2 points to missing node gone', edgeId: 'e2' },
+      { code: 'unreachable_node', message: 'Nodes not reachable from the trigger: tag', nodeIds: ['tag'] },
+    ]);
+  });
+
+  it('rejects loops without a delay or wait, and allows loops through one', () => {
+    const loop = {
+      nodes: [trigger, send, tag],
+      edges: [
+        { source: 'trigger', target: 'send' },
+        { source: 'send', target: 'tag' },
+        { source: 'tag', target: 'send' },
+      ],
+    };
+    const issues = validateWorkflowDefinition(loop);
+    expect(issues.map((issue) => issue.code)).toEqual(['unbounded_cycle']);
+    expect(issues[0].nodeIds).toEqual(['send', 'tag']);
+
+    expect(
+      codes({ nodes: [trigger, { id: 'self', type: 'add_tag', data: { tag: 'x' } }], edges: [{ source: 'trigger', target: 'self' }, { source: 'self', target: 'self' }] })
+    ).toEqual(['unbounded_cycle']);
+
+    const wait = { id: 'wait', type: 'delay', data: { delay: 1, unit: 'days' } };
+    expect(
+      codes({
+        nodes: [trigger, send, wait],
+        edges: [
+          { source: 'trigger', target: 'send' },
+          { source: 'send', target: 'wait' },
+          { source: 'wait', target: 'send' },
+        ],
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { jitteredDelays, seededRandom, spinContent, typingDelayMs } from '../../src/utils/humanize.js';
+
+describe('seededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = seededRandom('campaign-1:recipient-1');
+    const b = seededRandom('campaign-1:recipient-1');
+    const first = [a(), a(), a()];
+
+    expect([b(), b(), b()]).toEqual(first);
+    expect(first.every((n) => n >= 0 && n < 1)).toBe(true);
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(seededRandom('a')()).not.toEqual(seededRandom('b')());
+  });
+
+  it('falls back to Math.random without a seed', () => {
+    expect(seededRandom()).toBe(Math.random);
+    expect(seededRandom('')).toBe(Math.random);
+    expect(seededRandom(null)).toBe(Math.random);
+  });
+});
+
+describe('jitteredDelays', () => {
+  it('starts at 0 and keeps every gap within the bounds', () => {
+    const delays = jitteredDelays(50, 2000, 5000, seededRandom('gaps'));
+
+    expect(delays).toHaveLength(50);
+    expect(delays[0]).toBe(0);
+    for (let i = 1; i < delays.length; i++) {
+      const gap = delays[i] - delays[i - 1];
+      expect(gap).toBeGreaterThanOrEqual(2000);
+      expect(gap).toBeLessThanOrEqual(5000);
+    }
+  });
+
+  it('is repeatable with a seeded source', () => {
+    expect(jitteredDelays(10, 100, 900, seededRandom(42))).toEqual(jitteredDelays(10, 100, 900, seededRandom(42)));
+  });
+
+  it('uses fixed gaps when the bounds meet, and clamps bad bounds', () => {
+    expect(jitteredDelays(4, 1000, 1000)).toEqual([0, 1000, 2000, 3000]);
+    expect(jitteredDelays(3, -50, -10)).toEqual([0, 0, 0]);
+    expect(jitteredDelays(0, 100, 200)).toEqual([]);
+  });
+});
+
+describe('typingDelayMs', () => {
+  it('scales with the text length inside the bounds', () => {
+    const random = () => 0.5;
+    const short = typingDelayMs('Hi', random);
+    const long = typingDelayMs('x'.repeat(40), random);
+
+    expect(short).toBe(1000);
+    expect(long).toBeGreaterThan(short);
+    expect(typingDelayMs('x'.repeat(1000), random)).toBe(8000);
+  });
+
+  it('honours custom bounds', () => {
+    expect(typingDelayMs('', () => 0, { minMs: 200, maxMs: 300 })).toBe(200);
+    expect(typingDelayMs('x'.repeat(500), () => 0, { minMs: 200, maxMs: 300 })).toBe(300);
+  });
+});
+
+describe('spinContent', () => {
+  it('picks one option per group and leaves template variables alone', () => {
+    const text = spinContent('{Hi|Hello} {{firstName}}, {thanks|thank you}!', seededRandom('spin'));
+
+    expect(text).toMatch(/^(Hi|Hello) \{\{firstName\}\}, (thanks|thank you)!$/);
+  });
+
+  it('resolves nested groups', () => {
+    const outcomes = new Set<string>();
+    const random = seededRandom('nested');
+    for (let i = 0; i < 200; i++) outcomes.add(spinContent('{a|{b|c}}', random));
+
+    expect([...outcomes].sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('is repeatable with the same seed', () => {
+    const content = '{One|Two|Three} {red|green|blue} {cat|dog}';
+    expect(spinContent(content, seededRandom('x'))).toBe(spinContent(content, seededRandom('x')));
+  });
+
+  it('returns text without groups unchanged', () => {
+    expect(spinContent('Hello {{firstName}}')).toBe('Hello {{firstName}}');
+    expect(spinContent('{single}')).toBe('{single}');
+    expect(spinContent('')).toBe('');
+  });
+
+  it('picks by the random source', () => {
+    expect(spinContent('{a|b|c}', () => 0)).toBe('a');
+    expect(spinContent('{a|b|c}', () => 0.99)).toBe('c');
+  });
+});
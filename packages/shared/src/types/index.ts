@@ -34,6 +34,14 @@ export interface TenantSettings {
   webhookUrl?: string;
   aiEnabled: boolean;
   autoReplyEnabled: boolean;
+  quietHours?: QuietHours;
+}
+
+// No campaign sends between start and end (local "HH:mm"), e.g. 21:00-09:00
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
 }
 
 export interface TenantBranding {
@@ -89,6 +97,7 @@ export interface Lead {
   phone?: string;
   whatsappNumber?: string;
   telegramUsername?: string;
+  timezone?: string;
   company?: string;
   jobTitle?: string;
   source: LeadSource;
@@ -300,10 +309,16 @@ export interface Campaign {
   audience: CampaignAudience;
   schedule?: CampaignSchedule;
   abTest?: ABTestConfig;
+  dailyLimit?: number;
+  minDelaySeconds?: number;
+  maxDelaySeconds?: number;
+  // Resolve {a|b} spintax in the template per recipient
+  contentVariation?: boolean;
   stats: CampaignStats;
   sentBy: string;
   createdAt: string;
   updatedAt: string;
+  scheduledAt?: string;
   startedAt?: string;
   completedAt?: string;
 }
@@ -334,6 +349,8 @@ export interface CampaignSchedule {
   startAt?: string;
   endAt?: string;
   timezone: string;
+  // Deliver at startAt's wall-clock time in each lead's own timezone
+  sendInLocalTime?: boolean;
   cronExpression?: string;
   throttleRate?: number;
 }
@@ -343,7 +360,18 @@ export interface ABTestConfig {
   variants: ABVariant[];
   testPercentage: number;
   winningCriteria: 'open_rate' | 'click_rate' | 'reply_rate';
+  // Hours the test cohort runs before the winner goes to the rest
   testDuration: number;
+  testEndsAt?: string;
+  winner?: ABTestWinner;
+}
+
+export interface ABTestWinner {
+  index: number;
+  variantId: string;
+  decidedAt: string;
+  pValue: number | null;
+  significant: boolean;
 }
 
 export interface ABVariant {
@@ -377,9 +405,12 @@ export interface Workflow {
   name: string;
   description?: string;
   status: 'draft' | 'active' | 'paused' | 'archived';
+  // trigger/nodes/edges are the draft; executions run the published version
   trigger: WorkflowTrigger;
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
+  publishedVersionId?: string;
+  enrollment?: WorkflowEnrollment;
   stats: WorkflowStats;
   lastRunAt?: string;
   createdBy: string;
@@ -387,9 +418,32 @@ export interface Workflow {
   updatedAt: string;
 }
 
+// Immutable snapshot taken when a workflow is activated
+export interface WorkflowVersion {
+  id: string;
+  workflowId: string;
+  version: number;
+  trigger: WorkflowTrigger;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  publishedBy?: string;
+  createdAt: string;
+}
+
 export interface WorkflowTrigger {
   type: WorkflowTriggerType;
   config: Record<string, any>;
+  // Required for 'schedule' triggers
+  schedule?: WorkflowTriggerSchedule;
+}
+
+export interface WorkflowTriggerSchedule {
+  // Standard 5-field cron, or 6 fields with seconds
+  cron: string;
+  // IANA timezone; defaults to the tenant timezone
+  timezone?: string;
+  // Run once per matching lead on every tick; without it each tick runs once with no lead
+  segment?: LeadFilter & { leadIds?: string[] };
 }
 
 export type WorkflowTriggerType =
@@ -440,19 +494,46 @@ export interface WorkflowEdge {
   condition?: string;
 }
 
+// Returned in error.details.issues when a workflow definition fails validation
+export interface WorkflowValidationIssue {
+  code: string;
+  message: string;
+  nodeIds?: string[];
+  edgeId?: string;
+}
+
 export interface WorkflowStats {
   totalExecutions: number;
   successfulExecutions: number;
   failedExecutions: number;
   averageExecutionTime: number;
+  // Entries refused by the enrollment rules
+  reentryBlocked?: number;
+  concurrencyBlocked?: number;
+  goalMetOnEntry?: number;
+  // In-flight executions ended because the goal was met
+  goalReached?: number;
+}
+
+// Rules for leads entering a workflow
+export interface WorkflowEnrollment {
+  allowReentry?: boolean;
+  reentryCooldownMinutes?: number;
+  // At most one running or waiting execution per lead
+  singleActive?: boolean;
+  // Lead expression that ends the workflow for the lead, e.g. lead.status == "won"
+  goal?: string;
 }
 
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
+  // Version the execution runs; absent for test runs of the draft
+  versionId?: string;
   tenantId: string;
   leadId?: string;
-  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  // waiting: a branch is suspended on a delay or wait_for_reply node
+  status: 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
   context: Record<string, any>;
   nodeResults: NodeExecutionResult[];
   startedAt: string;
@@ -461,13 +542,26 @@ export interface WorkflowExecution {
 }
 
 export interface NodeExecutionResult {
+  stepId: string;
   nodeId: string;
-  status: 'success' | 'failed' | 'skipped';
+  nodeType?: WorkflowNodeType;
+  status: 'running' | 'success' | 'failed' | 'skipped';
+  attempts: number;
   output?: any;
   error?: string;
+  pendingNodeIds?: string[];
+  startedAt: string;
+  finishedAt?: string;
   executedAt: string;
 }
 
+// Set on a node as data.retry
+export interface WorkflowNodeRetry {
+  maxAttempts: number;
+  delayMs?: number;
+  backoff?: 'fixed' | 'exponential';
+}
+
 // ============================================
 // Voice Call Types
 // ============================================
@@ -944,9 +1038,46 @@ export interface ReputationScore {
   factors: ReputationFactor[];
   status: 'excellent' | 'good' | 'fair' | 'poor' | 'critical';
   recommendations: string[];
+  // Counts over the rolling 24h window the score is computed from
+  metrics?: ReputationMetrics;
+  warmup?: ChannelWarmup;
+  pause?: ChannelPause;
   updatedAt: string;
 }
 
+export interface ChannelPause {
+  paused: boolean;
+  reason: string | null;
+  pausedAt: string | null;
+  // Set when a cooldown resume is scheduled
+  resumeAt: string | null;
+  resumedAt: string | null;
+  // Score below which the channel pauses itself
+  threshold: number;
+}
+
+export interface ChannelWarmup {
+  enabled: boolean;
+  // Zero-based step on the warm-up curve
+  day: number;
+  totalDays: number;
+  // Messages allowed in any 24 hours while warming; null once graduated
+  dailyLimit: number | null;
+  changedAt: string | null;
+}
+
+export interface ReputationMetrics {
+  attempted: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  replies: number;
+  blocks: number;
+  spamReports: number;
+  bounces: number;
+  complaints: number;
+}
+
 export interface ReputationFactor {
   name: string;
   score: number;